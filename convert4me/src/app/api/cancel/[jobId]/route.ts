@@ -1,25 +1,6 @@
 import { NextRequest } from 'next/server';
-import { conversionJobs } from '../../convert/route';
-import { activeConversionProcesses } from '../../utils/videoConverter';
-import { existsSync } from 'fs';
-import { unlink } from 'fs/promises';
-
-// Helper function to delete a file and handle errors
-async function deleteFile(filePath: string): Promise<boolean> {
-  try {
-    if (existsSync(filePath)) {
-      await unlink(filePath);
-      console.log(`Deleted file: ${filePath}`);
-      return true;
-    } else {
-      console.log(`File not found for deletion: ${filePath}`);
-      return false;
-    }
-  } catch (error) {
-    console.error(`Error deleting file ${filePath}:`, error);
-    return false;
-  }
-}
+import { conversionJobs, conversionControllers, deleteJobInputs } from '../../utils/conversionJobs';
+import { activeConversionProcesses } from '../../utils/cancellation';
 
 export async function POST(
   request: NextRequest,
@@ -61,6 +42,13 @@ export async function POST(
     const process = activeConversionProcesses.get(jobId);
     let processKilled = false;
     
+    // Signal the converter that the job was cancelled; every converter stops its processes and sharp work on abort
+    const controller = conversionControllers.get(jobId);
+    if (controller) {
+      controller.abort();
+      conversionControllers.delete(jobId);
+    }
+    
     if (process) {
       try {
         // Kill the process
@@ -77,13 +65,12 @@ export async function POST(
     // Don't set an error message for cancellations
     conversionJobs.set(jobId, job);
     
-    // Delete the source file
-    const inputPath = job.inputPath;
-    const fileDeleted = await deleteFile(inputPath);
+    // A running job deletes its inputs itself once its work has stopped, so only jobs without one are cleaned up here
+    const fileDeleted = controller ? false : await deleteJobInputs(job);
     
     return Response.json({
       success: true,
-      message: processKilled 
+      message: processKilled || controller
         ? 'Conversion cancelled successfully' 
         : 'Job marked as cancelled, but process was not found',
       fileDeleted,
@@ -91,9 +78,15 @@ export async function POST(
         jobId: job.jobId,
         status: job.status,
         progress: job.progress,
+        progressDetails: job.progressDetails,
         originalFilename: job.originalFilename,
         inputFormat: job.inputFormat,
         outputFormat: job.outputFormat,
+        outputSize: job.outputSize,
+        options: job.options,
+        route: job.route,
+        currentStep: job.currentStep,
+        method: job.method,
         error: job.error,
         createdAt: job.createdAt,
         completedAt: job.completedAt
@@ -0,0 +1,135 @@
+import { NextRequest } from 'next/server';
+import { existsSync } from 'fs';
+import { v4 as uuidv4 } from 'uuid';
+import { join } from 'path';
+import { mkdir } from 'fs/promises';
+import { detectFileType } from '../utils/converters';
+import { validateOptions } from '../utils/optionValidation';
+import { CONCAT_AUDIO_FORMATS, CONCAT_OPTION_SCHEMA, CONCAT_VIDEO_FORMATS, concatMedia } from '../utils/mediaConcat';
+import { AUDIO_INPUT_FORMATS } from '../utils/audioConverter';
+import { VIDEO_INPUT_FORMATS } from '../utils/videoConverter';
+import { ConversionJob, startConversionJob, updateJobProgress } from '../utils/conversionJobs';
+import { isUploadedFile, resolveUploadPath } from '../utils/uploads';
+
+// Import startup check (will run once when this module is first loaded)
+import '../../startupCheck';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { filePaths, outputFormat, options } = await request.json();
+
+    if (!Array.isArray(filePaths) || filePaths.length < 2 || !outputFormat) {
+      return Response.json(
+        { success: false, message: 'At least two file paths and an output format are required' },
+        { status: 400 }
+      );
+    }
+
+    const isVideoOutput = CONCAT_VIDEO_FORMATS.includes(outputFormat);
+    if (!isVideoOutput && !CONCAT_AUDIO_FORMATS.includes(outputFormat)) {
+      return Response.json(
+        {
+          success: false,
+          message: `Joining clips into ${outputFormat} is not supported`,
+          supportedFormats: [...CONCAT_VIDEO_FORMATS, ...CONCAT_AUDIO_FORMATS]
+        },
+        { status: 400 }
+      );
+    }
+
+    // Clips are named relative to the uploads directory and deleted once the job ends, so nothing else may be joined
+    const inputPaths: string[] = [];
+    for (const filePath of filePaths) {
+      if (typeof filePath !== 'string' || !isUploadedFile(filePath)) {
+        return Response.json(
+          { success: false, message: `Not an uploaded file: ${filePath}` },
+          { status: 400 }
+        );
+      }
+      inputPaths.push(resolveUploadPath(filePath));
+    }
+
+    // Check that every clip is audio or video
+    const inputFormats: string[] = [];
+    for (const filePath of inputPaths) {
+
+      const inputFormat = await detectFileType(filePath);
+      const joinable = isVideoOutput
+        ? VIDEO_INPUT_FORMATS.includes(inputFormat)
+        : [...AUDIO_INPUT_FORMATS, ...VIDEO_INPUT_FORMATS].includes(inputFormat);
+      if (!joinable) {
+        return Response.json(
+          { success: false, message: `${inputFormat} files cannot be joined into ${outputFormat}` },
+          { status: 400 }
+        );
+      }
+      inputFormats.push(inputFormat);
+    }
+
+    const { options: normalizedOptions, errors } = validateOptions(CONCAT_OPTION_SCHEMA, options);
+    if (Object.keys(errors).length > 0) {
+      return Response.json(
+        {
+          success: false,
+          message: 'Invalid conversion options',
+          errors
+        },
+        { status: 400 }
+      );
+    }
+
+    // Ensure output directory exists
+    const outputDir = join(process.cwd(), 'output');
+    if (!existsSync(outputDir)) {
+      await mkdir(outputDir, { recursive: true });
+    }
+
+    // Create a unique job ID
+    const jobId = uuidv4();
+    const originalFilename = inputPaths[0].split('/').pop() || 'unknown';
+
+    const conversionJob: ConversionJob = {
+      jobId,
+      originalFilename,
+      inputPath: inputPaths[0],
+      inputPaths,
+      inputFormat: inputFormats[0],
+      outputFormat,
+      options: normalizedOptions,
+      status: 'processing',
+      progress: 0,
+      route: [inputFormats[0], outputFormat],
+      currentStep: 0,
+      createdAt: new Date()
+    };
+
+    // Start joining in background, progress is measured against the combined duration
+    startConversionJob(
+      conversionJob,
+      (signal, stagingDir) =>
+        concatMedia(
+          inputPaths,
+          outputFormat,
+          normalizedOptions,
+          (progress, details) => updateJobProgress(jobId, progress, 0, details),
+          jobId,
+          signal,
+          stagingDir
+        ),
+      outputDir
+    );
+
+    return Response.json({
+      success: true,
+      message: 'Joining started',
+      jobId,
+      route: conversionJob.route
+    });
+  } catch (error) {
+    console.error('API error:', error);
+    return Response.json(
+      { success: false, message: 'Error starting join' },
+      { status: 500 }
+    );
+  }
+}
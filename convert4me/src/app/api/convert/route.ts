@@ -1,52 +1,19 @@
 import { NextRequest } from 'next/server';
 import { existsSync } from 'fs';
 import { v4 as uuidv4 } from 'uuid';
-import { detectFileType, getPossibleOutputFormats, isConversionSupported } from '../utils/converters';
-import { convertVideo, CancellationError } from '../utils/videoConverter';
-import { convertImage } from '../utils/imageConverter';
-import { convertDocument } from '../utils/documentConverter';
+import { detectFileType, getPossibleOutputFormats, planConversion } from '../utils/converters';
+import { validatePlanOptions } from '../utils/optionValidation';
+import { runConversionPlan } from '../utils/conversionRunner';
+import { ConversionJob, startConversionJob, updateJobMethod, updateJobProgress } from '../utils/conversionJobs';
+import { isUploadedFile, resolveUploadPath } from '../utils/uploads';
 import { join } from 'path';
 import { mkdir } from 'fs/promises';
-import { unlink } from 'fs/promises';
 
 // Import startup check (will run once when this module is first loaded)
 import '../../startupCheck';
 
-// In-memory database for storing conversion jobs
-type JobStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
-
-interface ConversionJob {
-  jobId: string;
-  originalFilename: string;
-  inputPath: string;
-  outputPath?: string;
-  inputFormat: string;
-  outputFormat: string;
-  status: JobStatus;
-  progress: number;
-  error?: string;
-  createdAt: Date;
-  completedAt?: Date;
-}
-
-export const conversionJobs = new Map<string, ConversionJob>();
-
-// Helper function to delete a file and handle errors
-async function deleteFile(filePath: string): Promise<boolean> {
-  try {
-    if (existsSync(filePath)) {
-      await unlink(filePath);
-      console.log(`Deleted file: ${filePath}`);
-      return true;
-    } else {
-      console.log(`File not found for deletion: ${filePath}`);
-      return false;
-    }
-  } catch (error) {
-    console.error(`Error deleting file ${filePath}:`, error);
-    return false;
-  }
-}
+// Options naming other uploaded files the conversion reads
+const ATTACHED_FILE_OPTIONS = ['subtitleFile', 'watermarkImage'];
 
 export async function POST(request: NextRequest) {
   try {
@@ -67,11 +34,12 @@ export async function POST(request: NextRequest) {
       );
     }
     
-    // Get input format
-    const inputFormat = detectFileType(filePath);
+    // Get input format from the file content
+    const inputFormat = await detectFileType(filePath);
     
-    // Check if conversion is supported
-    if (!isConversionSupported(inputFormat, outputFormat)) {
+    // Plan the chain of converters needed for this conversion
+    const plan = planConversion(inputFormat, outputFormat);
+    if (!plan) {
       const possibleFormats = getPossibleOutputFormats(inputFormat);
       return Response.json(
         {
@@ -83,6 +51,27 @@ export async function POST(request: NextRequest) {
       );
     }
     
+    // Attached files are named relative to the uploads directory; validation rejects any that lie outside it
+    const requestOptions = options && typeof options === 'object' ? { ...options } : options;
+    for (const key of ATTACHED_FILE_OPTIONS) {
+      if (typeof requestOptions?.[key] === 'string') {
+        requestOptions[key] = resolveUploadPath(requestOptions[key]);
+      }
+    }
+    
+    // Validate options against the converters taking part in the conversion
+    const { options: normalizedOptions, stepOptions, errors } = validatePlanOptions(plan, requestOptions);
+    if (Object.keys(errors).length > 0) {
+      return Response.json(
+        {
+          success: false,
+          message: 'Invalid conversion options',
+          errors
+        },
+        { status: 400 }
+      );
+    }
+    
     // Ensure output directory exists
     const outputDir = join(process.cwd(), 'output');
     if (!existsSync(outputDir)) {
@@ -92,102 +81,55 @@ export async function POST(request: NextRequest) {
     // Create a unique job ID
     const jobId = uuidv4();
     const originalFilename = filePath.split('/').pop() || 'unknown';
+    const route = [inputFormat, ...plan.map(step => step.outputFormat)];
+    
+    // Uploaded subtitle and logo files are only used by this job, so they are deleted along with its input
+    const attachedFiles = ATTACHED_FILE_OPTIONS
+      .map(key => normalizedOptions[key])
+      .filter((path): path is string => typeof path === 'string' && isUploadedFile(path));
     
     // Create conversion job record
     const conversionJob: ConversionJob = {
       jobId,
       originalFilename,
       inputPath: filePath,
+      inputPaths: [...new Set([filePath, ...attachedFiles])],
       inputFormat,
       outputFormat,
+      options: normalizedOptions,
       status: 'processing',
       progress: 0,
+      route,
+      currentStep: 0,
       createdAt: new Date()
     };
     
-    // Save job to in-memory database
-    conversionJobs.set(jobId, conversionJob);
-    
     // Start conversion in background
-    (async () => {
-      try {
-        // Define progress callback
-        const progressCallback = (progress: number) => {
-          const job = conversionJobs.get(jobId);
-          if (job) {
-            job.progress = progress;
-            conversionJobs.set(jobId, job);
-          }
-        };
-        
-        // Determine which converter to use based on input format
-        let outputPath: string;
-        
-        if (['mp4', 'mov', 'avi', 'mkv', 'wmv', 'webm'].includes(inputFormat)) {
-          // Video conversion
-          outputPath = await convertVideo(
-            filePath, 
-            outputFormat, 
-            options, 
-            progressCallback,
-            jobId
-          );
-        } else if (['jpg', 'jpeg', 'png', 'gif', 'webp', 'tiff', 'avif'].includes(inputFormat)) {
-          // Image conversion
-          outputPath = await convertImage(filePath, outputFormat, options, progressCallback);
-        } else if (['pdf', 'docx'].includes(inputFormat)) {
-          // Document handling
-          outputPath = await convertDocument(filePath, outputFormat, options, progressCallback);
-        } else {
-          throw new Error(`Conversion for format ${inputFormat} is not implemented`);
-        }
-        
-        // Update job with completed status
-        const job = conversionJobs.get(jobId);
-        if (job) {
-          job.status = 'completed';
-          job.progress = 100;
-          job.outputPath = outputPath;
-          job.completedAt = new Date();
-          conversionJobs.set(jobId, job);
-          
-          // Delete the input file after successful conversion
-          await deleteFile(filePath);
-        }
-      } catch (error) {
-        console.error('Conversion error:', error);
-        
-        // Check if error is a cancellation
-        if (error instanceof CancellationError) {
-          const job = conversionJobs.get(jobId);
-          if (job) {
-            job.status = 'cancelled';
-            // Don't set an error message for cancellations
-            job.completedAt = new Date();
-            conversionJobs.set(jobId, job);
-            
-            // Delete the input file after cancellation
-            await deleteFile(filePath);
-          }
-        } else {
-          // Update job with failed status for regular errors
-          const job = conversionJobs.get(jobId);
-          if (job) {
-            job.status = 'failed';
-            job.error = error instanceof Error ? error.message : 'Unknown error';
-            conversionJobs.set(jobId, job);
-            
-            // Delete the input file even after failure
-            await deleteFile(filePath);
-          }
-        }
-      }
-    })();
+    startConversionJob(
+      conversionJob,
+      (signal, stagingDir) =>
+        // Track combined progress across all steps of the plan
+        runConversionPlan(
+          filePath,
+          plan,
+          stepOptions,
+          {
+            jobId,
+            signal,
+            onProgress: () => {},
+            onMethodChosen: (method) => updateJobMethod(jobId, method),
+            outputDir: stagingDir
+          },
+          ({ step, progress, details }) => updateJobProgress(jobId, progress, step, details)
+        ),
+      outputDir
+    );
     
     return Response.json({
       success: true,
       message: 'Conversion started',
-      jobId
+      jobId,
+      route
     });
   } catch (error) {
     console.error('API error:', error);
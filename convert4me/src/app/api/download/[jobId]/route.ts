@@ -1,7 +1,8 @@
 import { NextRequest } from 'next/server';
-import { conversionJobs } from '../../convert/route';
+import { conversionJobs } from '../../utils/conversionJobs';
 import { existsSync, readFileSync } from 'fs';
 import { basename, extname } from 'path';
+import { getMimeType } from '../../utils/formats';
 
 export async function GET(
   request: NextRequest,
@@ -53,33 +54,7 @@ export async function GET(
     const outputFormat = extname(job.outputPath).slice(1);
     
     // Set appropriate content type
-    const contentTypeMap: Record<string, string> = {
-      // Video formats
-      mp4: 'video/mp4',
-      avi: 'video/x-msvideo',
-      mov: 'video/quicktime',
-      webm: 'video/webm',
-      mkv: 'video/x-matroska',
-      
-      // Image formats
-      jpg: 'image/jpeg',
-      jpeg: 'image/jpeg',
-      png: 'image/png',
-      gif: 'image/gif',
-      webp: 'image/webp',
-      tiff: 'image/tiff',
-      avif: 'image/avif',
-      
-      // Document formats
-      pdf: 'application/pdf',
-      docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-      
-      // Audio formats
-      mp3: 'audio/mpeg',
-      wav: 'audio/wav'
-    };
-    
-    const contentType = contentTypeMap[outputFormat] || 'application/octet-stream';
+    const contentType = getMimeType(outputFormat);
     
     // Read the file
     const fileBuffer = readFileSync(job.outputPath);
@@ -0,0 +1,17 @@
+import { getFormatCapabilities } from '../utils/converters';
+
+// Describes every supported input format, the outputs reachable from it and their options
+export async function GET() {
+  try {
+    return Response.json({
+      success: true,
+      formats: getFormatCapabilities()
+    });
+  } catch (error) {
+    console.error('Error listing formats:', error);
+    return Response.json(
+      { success: false, message: 'Error listing supported formats' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest } from 'next/server';
+import { rm } from 'fs/promises';
+import { join } from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { detectFileType } from '../utils/converters';
+import { getFormatCategory } from '../utils/formats';
+import { decodeInput } from '../utils/imageConverter';
+import { readContainerMetadata, readImageMetadata } from '../utils/imageMetadata';
+import { isUploadedFile, resolveUploadPath } from '../utils/uploads';
+
+// Reads the EXIF, IPTC, XMP and ICC metadata of an uploaded image
+export async function GET(request: NextRequest) {
+  try {
+    const requestedPath = request.nextUrl.searchParams.get('filePath');
+
+    if (!requestedPath) {
+      return Response.json(
+        { success: false, message: 'File path is required' },
+        { status: 400 }
+      );
+    }
+
+    // Only files stored by the upload route may be read
+    if (!isUploadedFile(requestedPath)) {
+      return Response.json(
+        { success: false, message: `Not an uploaded file: ${requestedPath}` },
+        { status: 400 }
+      );
+    }
+    const filePath = resolveUploadPath(requestedPath);
+
+    const format = await detectFileType(filePath);
+    if (getFormatCategory(format, 'document') !== 'image') {
+      return Response.json(
+        { success: false, message: 'Metadata can only be read from images' },
+        { status: 400 }
+      );
+    }
+
+    // Formats sharp cannot read are decoded the same way as for conversions
+    const workDir = join(process.cwd(), 'output', 'temp', `metadata-${uuidv4()}`);
+    try {
+      const sourcePath = await decodeInput(filePath, workDir);
+      // Decoding drops the metadata, which is read from the original file instead
+      const metadata = sourcePath === filePath
+        ? await readImageMetadata(sourcePath)
+        : await readImageMetadata(sourcePath, await readContainerMetadata(filePath));
+
+      return Response.json({
+        success: true,
+        metadata: sourcePath === filePath ? metadata : { ...metadata, format }
+      });
+    } finally {
+      await rm(workDir, { recursive: true, force: true });
+    }
+  } catch (error) {
+    console.error('Error reading image metadata:', error);
+    return Response.json(
+      { success: false, message: 'Error reading image metadata' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,37 @@
+import { NextRequest } from 'next/server';
+import { detectFileType } from '../utils/converters';
+import { probeFile } from '../utils/fileProbe';
+import { isUploadedFile, resolveUploadPath } from '../utils/uploads';
+
+// Describes an uploaded file: streams, codecs, dimensions, pages and embedded metadata
+export async function GET(request: NextRequest) {
+  try {
+    const requestedPath = request.nextUrl.searchParams.get('filePath');
+
+    if (!requestedPath) {
+      return Response.json(
+        { success: false, message: 'File path is required' },
+        { status: 400 }
+      );
+    }
+
+    // Only files stored by the upload route may be read
+    if (!isUploadedFile(requestedPath)) {
+      return Response.json(
+        { success: false, message: `Not an uploaded file: ${requestedPath}` },
+        { status: 400 }
+      );
+    }
+    const filePath = resolveUploadPath(requestedPath);
+
+    const probe = await probeFile(filePath, await detectFileType(filePath));
+
+    return Response.json({ success: true, probe });
+  } catch (error) {
+    console.error('Error probing file:', error);
+    return Response.json(
+      { success: false, message: 'Error reading file details' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,5 @@
 import { NextRequest } from 'next/server';
-import { conversionJobs } from '../../convert/route';
+import { conversionJobs } from '../../utils/conversionJobs';
 
 export async function GET(
   request: NextRequest,
@@ -32,9 +32,15 @@ export async function GET(
         jobId: job.jobId,
         status: job.status,
         progress: job.progress,
+        progressDetails: job.progressDetails,
         originalFilename: job.originalFilename,
         inputFormat: job.inputFormat,
         outputFormat: job.outputFormat,
+        outputSize: job.outputSize,
+        options: job.options,
+        route: job.route,
+        currentStep: job.currentStep,
+        method: job.method,
         error: job.error,
         createdAt: job.createdAt,
         completedAt: job.completedAt
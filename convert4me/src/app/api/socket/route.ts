@@ -1,4 +1,5 @@
 import { NextRequest } from 'next/server';
+import type { ProgressDetails } from '../utils/converterTypes';
 
 // Global variable to store active controllers for SSE connections
 const activeControllers = new Set<ReadableStreamDefaultController>();
@@ -38,7 +39,7 @@ export async function GET(request: NextRequest) {
 }
 
 // Utility to broadcast conversion progress to all connected clients
-export function sendProgressUpdate(jobId: string, progress: number) {
+export function sendProgressUpdate(jobId: string, progress: number, details?: ProgressDetails) {
   console.log(`Progress update for job ${jobId}: ${progress}%`);
   
   // Broadcast to all active connections
@@ -46,7 +47,7 @@ export function sendProgressUpdate(jobId: string, progress: number) {
     try {
       controller.enqueue(
         new TextEncoder().encode(
-          `data: ${JSON.stringify({ event: 'progress', jobId, progress })}\n\n`
+          `data: ${JSON.stringify({ event: 'progress', jobId, progress, details })}\n\n`
         )
       );
     } catch (error) {
@@ -0,0 +1,44 @@
+import { NextRequest } from 'next/server';
+import { probeMedia } from '../utils/mediaProbe';
+import { TEXT_SUBTITLE_CODECS } from '../utils/subtitles';
+import { isUploadedFile, resolveUploadPath } from '../utils/uploads';
+
+// Lists the subtitle tracks of an uploaded video
+export async function GET(request: NextRequest) {
+  try {
+    const requestedPath = request.nextUrl.searchParams.get('filePath');
+
+    if (!requestedPath) {
+      return Response.json(
+        { success: false, message: 'File path is required' },
+        { status: 400 }
+      );
+    }
+
+    // Only files stored by the upload route may be read
+    if (!isUploadedFile(requestedPath)) {
+      return Response.json(
+        { success: false, message: `Not an uploaded file: ${requestedPath}` },
+        { status: 400 }
+      );
+    }
+    const filePath = resolveUploadPath(requestedPath);
+
+    const { subtitleTracks } = await probeMedia(filePath);
+
+    return Response.json({
+      success: true,
+      tracks: subtitleTracks.map(track => ({
+        ...track,
+        // Only text tracks can be extracted, converted or burned in
+        isText: TEXT_SUBTITLE_CODECS.includes(track.codec)
+      }))
+    });
+  } catch (error) {
+    console.error('Error listing subtitle tracks:', error);
+    return Response.json(
+      { success: false, message: 'Error reading subtitle tracks' },
+      { status: 500 }
+    );
+  }
+}
@@ -4,6 +4,9 @@ import { join, extname } from 'path';
 import { existsSync } from 'fs';
 import { v4 as uuidv4 } from 'uuid';
 import { getSupportedInputFormats, getPossibleOutputFormats } from '../utils/converters';
+import { detectFormatFromBuffer, isMissingSignature, resolveFileFormat } from '../utils/fileSignature';
+import { FileProbe, probeFile } from '../utils/fileProbe';
+import { UPLOADS_DIR } from '../utils/uploads';
 import '../../startupCheck';
 
 export async function POST(request: NextRequest) {
@@ -18,35 +21,66 @@ export async function POST(request: NextRequest) {
       );
     }
     
+    // Detect the real format from the file content rather than trusting the extension
+    const declaredFormat = extname(file.name).toLowerCase().slice(1);
+    const buffer = Buffer.from(await file.arrayBuffer());
+    const detectedFormat = detectFormatFromBuffer(buffer);
+    const fileExt = resolveFileFormat(declaredFormat, detectedFormat);
+    const formatMismatch = fileExt !== declaredFormat;
+    
+    // A file named as a format with a signature must start with it
+    if (isMissingSignature(declaredFormat, detectedFormat)) {
+      return Response.json(
+        {
+          success: false,
+          message: `File content does not match the .${declaredFormat} extension`,
+          declaredFormat,
+          detectedFormat
+        },
+        { status: 400 }
+      );
+    }
+    
     // Check if the file format is supported
-    const fileExt = extname(file.name).toLowerCase().slice(1);
     const supportedFormats = getSupportedInputFormats();
     
     if (!supportedFormats.includes(fileExt)) {
+      const detail = formatMismatch
+        ? `File content is ${fileExt} but the file is named .${declaredFormat}`
+        : `Unsupported file format: ${fileExt}`;
       return Response.json(
         {
           success: false,
-          message: `Unsupported file format: ${fileExt}. Supported formats: ${supportedFormats.join(', ')}`
+          message: `${detail}. Supported formats: ${supportedFormats.join(', ')}`,
+          declaredFormat,
+          detectedFormat
         },
         { status: 400 }
       );
     }
     
-    // Create unique filename with timestamp to ensure uniqueness
+    // Create unique filename with timestamp to ensure uniqueness.
+    // The stored file gets the detected extension so converters see the real format.
     const timestamp = Date.now();
-    const uniqueFilename = `${uuidv4()}-${timestamp}${extname(file.name)}`;
+    const uniqueFilename = `${uuidv4()}-${timestamp}.${fileExt}`;
     
     // Ensure uploads directory exists
-    const uploadsDir = join(process.cwd(), 'uploads');
-    if (!existsSync(uploadsDir)) {
-      await mkdir(uploadsDir, { recursive: true });
+    if (!existsSync(UPLOADS_DIR)) {
+      await mkdir(UPLOADS_DIR, { recursive: true });
     }
     
     // Save the file
-    const filePath = join(uploadsDir, uniqueFilename);
-    const buffer = Buffer.from(await file.arrayBuffer());
+    const filePath = join(UPLOADS_DIR, uniqueFilename);
     await writeFile(filePath, buffer);
     
+    // Describe what was uploaded; a file FFprobe or sharp cannot read is still accepted
+    let probe: FileProbe | undefined;
+    try {
+      probe = await probeFile(filePath, fileExt);
+    } catch (error) {
+      console.warn(`Could not probe ${filePath}:`, error);
+    }
+    
     // Return file info with a unique identifier
     const uploadedFile = {
       filename: uniqueFilename,
@@ -55,13 +89,19 @@ export async function POST(request: NextRequest) {
       size: file.size,
       mimetype: file.type,
       fileType: fileExt,
+      declaredFormat,
+      detectedFormat,
+      formatMismatch,
       possibleOutputFormats: getPossibleOutputFormats(fileExt),
+      probe,
       uploadTimestamp: timestamp // Include timestamp for additional uniqueness
     };
     
     return Response.json({
       success: true,
-      message: 'File uploaded successfully',
+      message: formatMismatch
+        ? `File uploaded successfully. Its content is ${fileExt}, not ${declaredFormat || 'what the name suggests'}`
+        : 'File uploaded successfully',
       file: uploadedFile
     });
   } catch (error) {
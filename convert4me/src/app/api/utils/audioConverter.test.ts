@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { audioConverter } from './audioConverter';
+import { getPossibleOutputFormats, planConversion } from './converters';
+import { resolveFileFormat } from './fileSignature';
+import { validateOptions } from './optionValidation';
+
+/**
+ * Describe a plan as converter:format hops for readable assertions
+ */
+function describePlan(inputFormat: string, outputFormat: string): string[] | null {
+  const plan = planConversion(inputFormat, outputFormat);
+  return plan && plan.map(step => `${step.converter.id}:${step.outputFormat}`);
+}
+
+describe('audioConverter', () => {
+  it('converts between audio formats and extracts the audio of videos', () => {
+    expect(describePlan('mp3', 'flac')).toEqual(['audio:flac']);
+    expect(describePlan('wma', 'm4a')).toEqual(['audio:m4a']);
+    expect(describePlan('mp4', 'mp3')).toEqual(['audio:mp3']);
+    expect(getPossibleOutputFormats('wav')).toEqual(
+      expect.arrayContaining(['mp3', 'wav', 'flac', 'ogg', 'opus', 'aac', 'm4a'])
+    );
+  });
+
+  it('does not turn audio into video', () => {
+    expect(planConversion('mp3', 'mp4')).toBeNull();
+  });
+
+  it('validates bitrate, sample rate and channel count', () => {
+    const { options, errors } = validateOptions(audioConverter.optionSchema, { audioBitrate: '192k', sampleRate: '44100', channels: 2 });
+    expect(errors).toEqual({});
+    expect(options).toMatchObject({ audioBitrate: '192k', sampleRate: 44100, channels: 2 });
+
+    expect(validateOptions(audioConverter.optionSchema, { audioBitrate: 'loud', sampleRate: 100, channels: 9 }).errors).toEqual({
+      audioBitrate: 'Must be a bitrate such as 192k',
+      sampleRate: 'Must be at least 8000',
+      channels: 'Must be at most 8'
+    });
+  });
+
+  it('keeps audio extensions of shared containers', () => {
+    expect(resolveFileFormat('wma', 'wmv')).toBe('wma');
+  });
+});
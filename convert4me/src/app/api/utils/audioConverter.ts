@@ -0,0 +1,162 @@
+import { join, basename, extname } from 'path';
+import { rm } from 'fs/promises';
+import type { Converter, ProgressDetails } from './converterTypes';
+import { AUDIO_FILTER_OPTION_SCHEMA, AudioFilterOptions, validateAudioFilterOptions } from './audioFilters';
+import {
+  BITRATE_PATTERN,
+  TRIM_OPTION_SCHEMA,
+  VIDEO_INPUT_FORMATS,
+  TrimOptions,
+  buildAudioFilterArgs,
+  buildTrimmedInputArgs,
+  getEncodeProgress,
+  getOutputDuration,
+  runFfmpeg,
+  trimSilentEnds,
+  validateTrimOptions
+} from './videoConverter';
+
+export interface AudioConversionOptions extends TrimOptions, AudioFilterOptions {
+  audioBitrate?: string;
+  sampleRate?: number;
+  channels?: number;
+}
+
+// Audio formats FFmpeg can read
+export const AUDIO_INPUT_FORMATS = ['mp3', 'wav', 'flac', 'ogg', 'opus', 'aac', 'm4a', 'wma'];
+
+// Encoder and muxer arguments for each audio output format
+export const AUDIO_OUTPUT_CODECS: Record<string, { args: string[]; lossless: boolean }> = {
+  mp3: { args: ['-c:a', 'libmp3lame'], lossless: false },
+  wav: { args: ['-c:a', 'pcm_s16le'], lossless: true },
+  flac: { args: ['-c:a', 'flac'], lossless: true },
+  ogg: { args: ['-c:a', 'libvorbis'], lossless: false },
+  opus: { args: ['-c:a', 'libopus'], lossless: false },
+  // Raw AAC needs the ADTS muxer
+  aac: { args: ['-c:a', 'aac', '-f', 'adts'], lossless: false },
+  m4a: { args: ['-c:a', 'aac'], lossless: false }
+};
+
+/**
+ * Converts an audio file, or the audio track of a video file, to the specified audio format
+ */
+export async function convertAudio(
+  inputPath: string,
+  outputFormat: string,
+  options: AudioConversionOptions = {},
+  progressCallback: (progress: number, details?: ProgressDetails) => void = () => {},
+  jobId?: string,
+  signal?: AbortSignal,
+  outputDir: string = join(process.cwd(), 'output')
+): Promise<string> {
+  const codec = AUDIO_OUTPUT_CODECS[outputFormat];
+  if (!codec) {
+    throw new Error(`Unsupported output format: ${outputFormat}`);
+  }
+
+  const outputFilename = `${basename(inputPath, extname(inputPath))}.${outputFormat}`;
+  const outputPath = join(outputDir, outputFilename);
+
+  // The silence at the start and end is found first and cut off like a trim range
+  if (options.trimSilence) {
+    const workDir = join(outputDir, 'temp', `${basename(inputPath, extname(inputPath))}-silence-${Date.now()}`);
+    try {
+      ({ options, progressCallback } = await trimSilentEnds(inputPath, options, workDir, progressCallback, jobId, signal));
+    } finally {
+      await rm(workDir, { recursive: true, force: true });
+    }
+  }
+
+  // Drop video, cover art and subtitles, keeping only the first audio track
+  const args = [...buildTrimmedInputArgs(inputPath, options), '-vn', '-sn', '-map', '0:a:0'];
+  const expectedDuration = await getOutputDuration(inputPath, options);
+
+  if (options.trimMode === 'fast' && (options.startTime || options.endTime)) {
+    // Copy the audio track as-is, cutting on packet boundaries
+    args.push('-c:a', 'copy', '-y', outputPath);
+    await runFfmpeg(args, progressCallback, jobId, signal, expectedDuration);
+    return outputPath;
+  }
+
+  args.push(...await buildAudioFilterArgs(
+    inputPath,
+    options,
+    [],
+    expectedDuration,
+    options.sampleRate,
+    progressCallback,
+    jobId,
+    signal
+  ));
+  args.push(...codec.args);
+
+  // Bitrate only applies to lossy encoders
+  if (options.audioBitrate && !codec.lossless) {
+    args.push('-b:a', options.audioBitrate);
+  }
+  if (options.sampleRate) {
+    args.push('-ar', options.sampleRate.toString());
+  }
+  if (options.channels) {
+    args.push('-ac', options.channels.toString());
+  }
+
+  // Add output path
+  args.push('-y', outputPath);
+
+  await runFfmpeg(args, getEncodeProgress(options, progressCallback), jobId, signal, expectedDuration);
+  return outputPath;
+}
+
+export const audioConverter: Converter = {
+  id: 'audio',
+  category: 'audio',
+  // Video inputs have their audio track extracted
+  supportedInputFormats: [...AUDIO_INPUT_FORMATS, ...VIDEO_INPUT_FORMATS],
+  possibleOutputFormats: Object.keys(AUDIO_OUTPUT_CODECS),
+  optionSchema: {
+    audioBitrate: {
+      type: 'string',
+      pattern: BITRATE_PATTERN,
+      patternDescription: 'Must be a bitrate such as 192k',
+      description: 'Audio bitrate for lossy formats, e.g. 192k'
+    },
+    sampleRate: {
+      type: 'integer',
+      min: 8000,
+      max: 192000,
+      description: 'Sample rate in Hz, e.g. 44100 or 48000'
+    },
+    channels: { type: 'integer', min: 1, max: 8, description: 'Number of audio channels' },
+    ...AUDIO_FILTER_OPTION_SCHEMA,
+    ...TRIM_OPTION_SCHEMA
+  },
+  validate: (options, inputFormat, outputFormat) => {
+    const errors = {
+      ...validateAudioFilterOptions(options as AudioConversionOptions),
+      ...validateTrimOptions(
+        options as AudioConversionOptions,
+        inputFormat,
+        outputFormat,
+        ['audioBitrate', 'sampleRate', 'channels', ...Object.keys(AUDIO_FILTER_OPTION_SCHEMA)]
+          .filter(key => options[key] !== undefined && options[key] !== false)
+      )
+    };
+
+    if (options.mono && options.channels !== undefined && options.channels !== 1) {
+      errors.channels = 'Cannot be combined with mono';
+    }
+
+    return errors;
+  },
+  convert: (inputPath, outputFormat, options, context) =>
+    convertAudio(
+      inputPath,
+      outputFormat,
+      options as AudioConversionOptions,
+      context.onProgress,
+      context.jobId,
+      context.signal,
+      context.outputDir
+    )
+};
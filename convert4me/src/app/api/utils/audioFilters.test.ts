@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildAudioFilters,
+  buildLoudnormFilter,
+  buildSilenceDetectFilter,
+  findSoundRange,
+  validateAudioFilterOptions
+} from './audioFilters';
+
+describe('buildAudioFilters', () => {
+  it('builds gain, fade and downmix filters in order', () => {
+    expect(buildAudioFilters({ volume: -3, fadeIn: 2, fadeOut: 5, mono: true }, 60)).toEqual([
+      'volume=-3dB',
+      'afade=t=in:st=0:d=2',
+      'afade=t=out:st=55:d=5',
+      'aformat=channel_layouts=mono'
+    ]);
+  });
+
+  it('needs the duration to fade out', () => {
+    expect(() => buildAudioFilters({ fadeOut: 3 })).toThrow('A fade out needs an input with a known duration');
+  });
+
+  it('returns no filters for the defaults', () => {
+    expect(buildAudioFilters({ normalize: false, mono: false, trimSilence: false }, 60)).toEqual([]);
+  });
+});
+
+describe('silence trimming', () => {
+  it('marks silent stretches with the given threshold in a metadata file', () => {
+    expect(buildSilenceDetectFilter({ trimSilence: true, silenceThreshold: -40 }, '/tmp/work/silence.txt')).toBe(
+      "silencedetect=noise=-40dB:d=0.1,ametadata=mode=print:file='/tmp/work/silence.txt'"
+    );
+  });
+
+  it('finds the sound between the silence at the start and the end, keeping pauses in between', () => {
+    const marks = [
+      'frame:0    pts:0       pts_time:0',
+      'lavfi.silence_start=0',
+      'frame:40   pts:1920    pts_time:1.2',
+      'lavfi.silence_end=1.2',
+      'lavfi.silence_duration=1.2',
+      'frame:200  pts:9600    pts_time:5.5',
+      'lavfi.silence_start=5',
+      'frame:250  pts:12000   pts_time:6.25',
+      'lavfi.silence_end=6.25',
+      'lavfi.silence_duration=1.25',
+      'frame:380  pts:18240   pts_time:9.5',
+      'lavfi.silence_start=9.5'
+    ].join('\n');
+
+    expect(findSoundRange(marks, 12)).toEqual({ start: 1.2, end: 9.5 });
+  });
+
+  it('treats a silence ending with the audio as trailing', () => {
+    expect(findSoundRange('lavfi.silence_start=8\nlavfi.silence_end=10', 10)).toEqual({ start: 0, end: 8 });
+    expect(findSoundRange('lavfi.silence_start=3\nlavfi.silence_end=4', 10)).toEqual({ start: 0, end: 10 });
+    expect(findSoundRange('', undefined)).toEqual({ start: 0, end: undefined });
+  });
+
+  it('finds no sound in silent audio', () => {
+    expect(findSoundRange('lavfi.silence_start=-0.02', 10)).toBeUndefined();
+  });
+});
+
+describe('buildLoudnormFilter', () => {
+  it('only measures the loudness in the first pass', () => {
+    expect(buildLoudnormFilter({ normalize: true })).toBe('loudnorm=I=-16:TP=-1.5:LRA=11:print_format=json');
+  });
+
+  it('applies the measurement in the second pass', () => {
+    expect(buildLoudnormFilter({ normalize: true, loudnessTarget: -23 }, {
+      input_i: '-27.61',
+      input_tp: '-4.47',
+      input_lra: '18.06',
+      input_thresh: '-39.20',
+      target_offset: '0.58'
+    })).toBe(
+      'loudnorm=I=-23:TP=-1.5:LRA=11:measured_I=-27.61:measured_TP=-4.47:measured_LRA=18.06' +
+      ':measured_thresh=-39.20:offset=0.58:linear=true'
+    );
+  });
+});
+
+describe('validateAudioFilterOptions', () => {
+  it('rejects options that depend on a disabled one', () => {
+    expect(validateAudioFilterOptions({ loudnessTarget: -23, silenceThreshold: -40 })).toEqual({
+      loudnessTarget: 'Only applies when normalize is enabled',
+      silenceThreshold: 'Only applies when trimSilence is enabled'
+    });
+  });
+
+  it('accepts a fade out together with silence trimming, which happens before encoding', () => {
+    expect(validateAudioFilterOptions({ trimSilence: true, fadeOut: 2 })).toEqual({});
+  });
+
+  it('rejects a gain together with normalization', () => {
+    expect(validateAudioFilterOptions({ normalize: true, volume: 6 })).toEqual({ volume: 'Cannot be combined with normalize' });
+    expect(validateAudioFilterOptions({ normalize: true, truePeak: -2 })).toEqual({});
+  });
+});
@@ -0,0 +1,185 @@
+import type { OptionSchema } from './converterTypes';
+import { escapeFilterPath } from './subtitles';
+
+export interface AudioFilterOptions {
+  // EBU R128 loudness normalization, measured in a first pass
+  normalize?: boolean;
+  // Integrated loudness to aim for in LUFS
+  loudnessTarget?: number;
+  // Highest true peak allowed in dBTP
+  truePeak?: number;
+  // Loudness range to aim for in LU
+  loudnessRange?: number;
+  // Gain in dB
+  volume?: number;
+  // Fade lengths in seconds
+  fadeIn?: number;
+  fadeOut?: number;
+  mono?: boolean;
+  trimSilence?: boolean;
+  // Level in dB below which the start and end count as silence
+  silenceThreshold?: number;
+}
+
+// Loudness measured by the first loudnorm pass, as printed by FFmpeg
+export interface LoudnessMeasurement {
+  input_i: string;
+  input_tp: string;
+  input_lra: string;
+  input_thresh: string;
+  target_offset: string;
+}
+
+// Streaming platforms and podcasts commonly aim for -16 LUFS with peaks below -1.5 dBTP
+const DEFAULT_LOUDNESS_TARGET = -16;
+const DEFAULT_TRUE_PEAK = -1.5;
+const DEFAULT_LOUDNESS_RANGE = 11;
+const DEFAULT_SILENCE_THRESHOLD = -50;
+
+// Shortest quiet stretch at the start or end that counts as silence, in seconds
+const MIN_SILENCE_DURATION = 0.1;
+
+// Tolerance in seconds when deciding whether a silence touches the start or end
+const SILENCE_EDGE_TOLERANCE = 0.01;
+
+// Options that only apply together with another one
+const DEPENDENT_OPTIONS: [keyof AudioFilterOptions, keyof AudioFilterOptions][] = [
+  ['loudnessTarget', 'normalize'],
+  ['truePeak', 'normalize'],
+  ['loudnessRange', 'normalize'],
+  ['silenceThreshold', 'trimSilence']
+];
+
+export const AUDIO_FILTER_OPTION_SCHEMA: OptionSchema = {
+  normalize: {
+    type: 'boolean',
+    default: false,
+    description: 'Normalize loudness to the EBU R128 target, measured in a first pass'
+  },
+  loudnessTarget: { type: 'number', min: -70, max: -5, description: 'Integrated loudness target in LUFS, defaults to -16' },
+  truePeak: { type: 'number', min: -9, max: 0, description: 'Maximum true peak in dBTP, defaults to -1.5' },
+  loudnessRange: { type: 'number', min: 1, max: 20, description: 'Loudness range target in LU, defaults to 11' },
+  volume: { type: 'number', min: -60, max: 60, description: 'Gain in dB, e.g. 6 or -3' },
+  fadeIn: { type: 'number', min: 0, max: 60, description: 'Fade in length in seconds' },
+  fadeOut: { type: 'number', min: 0, max: 60, description: 'Fade out length in seconds' },
+  mono: { type: 'boolean', default: false, description: 'Mix all channels down to mono' },
+  trimSilence: {
+    type: 'boolean',
+    default: false,
+    description: 'Cut silence from the start and end, keeping pauses in between'
+  },
+  silenceThreshold: { type: 'number', min: -90, max: -10, description: 'Level in dB treated as silence, defaults to -50' }
+};
+
+/**
+ * Check that audio filter options make sense together
+ */
+export function validateAudioFilterOptions(options: AudioFilterOptions): Record<string, string> {
+  const errors: Record<string, string> = {};
+
+  for (const [option, requires] of DEPENDENT_OPTIONS) {
+    if (options[option] !== undefined && !options[requires]) {
+      errors[option] = `Only applies when ${requires} is enabled`;
+    }
+  }
+
+  // Loudness normalization already sets the level
+  if (options.normalize && options.volume !== undefined) {
+    errors.volume = 'Cannot be combined with normalize';
+  }
+
+  return errors;
+}
+
+/**
+ * Build the gain, fade and downmix filters.
+ * The fade out starts relative to the output duration from the probe.
+ */
+export function buildAudioFilters(options: AudioFilterOptions, outputDuration?: number): string[] {
+  const filters: string[] = [];
+
+  if (options.volume) {
+    filters.push(`volume=${options.volume}dB`);
+  }
+
+  if (options.fadeIn) {
+    filters.push(`afade=t=in:st=0:d=${options.fadeIn}`);
+  }
+  if (options.fadeOut) {
+    if (!outputDuration) {
+      throw new Error('A fade out needs an input with a known duration');
+    }
+    filters.push(`afade=t=out:st=${Math.max(0, outputDuration - options.fadeOut)}:d=${options.fadeOut}`);
+  }
+
+  if (options.mono) {
+    filters.push('aformat=channel_layouts=mono');
+  }
+
+  return filters;
+}
+
+/**
+ * Build the loudnorm filter: without a measurement it only analyses the audio,
+ * with one it applies a linear gain to reach the target
+ */
+export function buildLoudnormFilter(options: AudioFilterOptions, measurement?: LoudnessMeasurement): string {
+  const target = [
+    `I=${options.loudnessTarget ?? DEFAULT_LOUDNESS_TARGET}`,
+    `TP=${options.truePeak ?? DEFAULT_TRUE_PEAK}`,
+    `LRA=${options.loudnessRange ?? DEFAULT_LOUDNESS_RANGE}`
+  ];
+
+  if (!measurement) {
+    return `loudnorm=${target.join(':')}:print_format=json`;
+  }
+
+  return `loudnorm=${[
+    ...target,
+    `measured_I=${measurement.input_i}`,
+    `measured_TP=${measurement.input_tp}`,
+    `measured_LRA=${measurement.input_lra}`,
+    `measured_thresh=${measurement.input_thresh}`,
+    `offset=${measurement.target_offset}`,
+    'linear=true'
+  ].join(':')}`;
+}
+
+/**
+ * Build the filter that marks the silent stretches of the audio, for trimming the silence at its start and end.
+ * The marks are printed as frame metadata to a file, since FFmpeg's log can be too long to keep.
+ */
+export function buildSilenceDetectFilter(options: AudioFilterOptions, marksPath: string): string {
+  const threshold = options.silenceThreshold ?? DEFAULT_SILENCE_THRESHOLD;
+  return `silencedetect=noise=${threshold}dB:d=${MIN_SILENCE_DURATION},ametadata=mode=print:file=${escapeFilterPath(marksPath)}`;
+}
+
+/**
+ * Find where the sound starts and ends from the marks printed by the silence detection filter.
+ * A silence still running when the audio ends has no end mark. Returns undefined when the audio is silent throughout.
+ */
+export function findSoundRange(marks: string, duration?: number): { start: number; end?: number } | undefined {
+  const silences: { start: number; end?: number }[] = [];
+
+  for (const [, key, value] of marks.matchAll(/^lavfi\.silence_(start|end)=(-?[\d.]+)/gm)) {
+    if (key === 'start') {
+      silences.push({ start: parseFloat(value) });
+    } else if (silences.length > 0) {
+      silences[silences.length - 1].end = parseFloat(value);
+    }
+  }
+
+  const first = silences[0];
+  const last = silences[silences.length - 1];
+  const startsSilent = first && first.start <= SILENCE_EDGE_TOLERANCE;
+  const endsSilent = last && (last.end === undefined || (duration !== undefined && last.end >= duration - SILENCE_EDGE_TOLERANCE));
+
+  if (startsSilent && first === last && endsSilent) {
+    return undefined;
+  }
+
+  return {
+    start: startsSilent && first.end !== undefined ? first.end : 0,
+    end: endsSilent ? last.start : duration
+  };
+}
@@ -0,0 +1,190 @@
+import { describe, expect, it } from 'vitest';
+import { decodeBmp, decodeIco, encodeBmp, encodeIco, readBmpIccProfile } from './bitmapCodecs';
+
+/**
+ * Build a device independent bitmap with a Windows 3 info header, as stored in BMP and ICO files
+ */
+function dib(options: {
+  width: number;
+  height: number;
+  bitCount: number;
+  rows: number[][];
+  palette?: number[][];
+  colorsUsed?: number;
+  // Icon transparency mask rows, one bit per pixel
+  maskRows?: number[][];
+}): Buffer {
+  const { width, height, bitCount, rows, palette = [], colorsUsed = palette.length, maskRows } = options;
+  const header = Buffer.alloc(40);
+  header.writeUInt32LE(40, 0);
+  header.writeInt32LE(width, 4);
+  header.writeInt32LE(maskRows ? height * 2 : height, 8);
+  header.writeUInt16LE(1, 12);
+  header.writeUInt16LE(bitCount, 14);
+  header.writeUInt32LE(colorsUsed, 32);
+
+  const table = Buffer.from(palette.flatMap(([red, green, blue]) => [blue, green, red, 0]));
+  const pad = (row: number[], size: number) => Buffer.concat([Buffer.from(row), Buffer.alloc(size - row.length)]);
+  const rowSize = Math.floor((bitCount * width + 31) / 32) * 4;
+  const maskRowSize = Math.floor((width + 31) / 32) * 4;
+
+  return Buffer.concat([
+    header,
+    table,
+    ...rows.map(row => pad(row, rowSize)),
+    ...(maskRows || []).map(row => pad(row, maskRowSize))
+  ]);
+}
+
+/**
+ * Wrap a bitmap in a BMP file header
+ */
+function bmpFile(bitmap: Buffer, paletteSize = 0): Buffer {
+  const header = Buffer.alloc(14);
+  header.write('BM', 0, 'latin1');
+  header.writeUInt32LE(14 + bitmap.length, 2);
+  header.writeUInt32LE(14 + 40 + paletteSize * 4, 10);
+  return Buffer.concat([header, bitmap]);
+}
+
+/**
+ * Wrap images in an icon directory, listing the given pixel sizes
+ */
+function icoFile(entries: { size: number; data: Buffer }[]): Buffer {
+  const directory = Buffer.alloc(6 + entries.length * 16);
+  directory.writeUInt16LE(1, 2);
+  directory.writeUInt16LE(entries.length, 4);
+
+  let offset = directory.length;
+  entries.forEach((entry, index) => {
+    directory[6 + index * 16] = entry.size;
+    directory[6 + index * 16 + 1] = entry.size;
+    directory.writeUInt32LE(entry.data.length, 6 + index * 16 + 8);
+    directory.writeUInt32LE(offset, 6 + index * 16 + 12);
+    offset += entry.data.length;
+  });
+
+  return Buffer.concat([directory, ...entries.map(entry => entry.data)]);
+}
+
+describe('BMP', () => {
+  it('round trips opaque pixels through a 24 bit file', () => {
+    const image = { width: 3, height: 2, data: Buffer.from([
+      255, 0, 0, 255, 0, 255, 0, 255, 0, 0, 255, 255,
+      10, 20, 30, 255, 40, 50, 60, 255, 70, 80, 90, 255
+    ]) };
+    const file = encodeBmp(image);
+
+    expect(file.readUInt16LE(28)).toBe(24);
+    expect(decodeBmp(file)).toEqual(image);
+  });
+
+  it('round trips transparent pixels through a 32 bit file', () => {
+    const image = { width: 1, height: 2, data: Buffer.from([1, 2, 3, 0, 4, 5, 6, 128]) };
+    const file = encodeBmp(image);
+
+    expect(file.readUInt16LE(28)).toBe(32);
+    expect(decodeBmp(file)).toEqual(image);
+  });
+
+  it('decodes paletted rows stored bottom-up', () => {
+    const palette = [[0, 0, 0], [255, 255, 255]];
+    const file = bmpFile(dib({ width: 2, height: 2, bitCount: 8, palette, rows: [[1, 0], [0, 1]] }), palette.length);
+
+    expect([...decodeBmp(file).data]).toEqual([
+      0, 0, 0, 255, 255, 255, 255, 255,
+      255, 255, 255, 255, 0, 0, 0, 255
+    ]);
+  });
+
+  it('treats an unused spare byte of 32 bit pixels as opaque', () => {
+    const file = bmpFile(dib({ width: 1, height: 1, bitCount: 32, rows: [[30, 20, 10, 0]] }));
+
+    expect([...decodeBmp(file).data]).toEqual([10, 20, 30, 255]);
+  });
+
+  it('caps a palette that claims more colors than the bit depth allows', () => {
+    const palette = [[1, 2, 3], [4, 5, 6]];
+    const bitmap = dib({ width: 8, height: 1, bitCount: 1, palette, colorsUsed: 0xffffffff, rows: [[0x80]] });
+
+    expect([...decodeBmp(bmpFile(bitmap, palette.length)).data.subarray(0, 8)]).toEqual([4, 5, 6, 255, 1, 2, 3, 255]);
+  });
+
+  it('rejects a palette that runs past the end of the file', () => {
+    const bitmap = dib({ width: 1, height: 1, bitCount: 8, colorsUsed: 256, rows: [] });
+
+    expect(() => decodeBmp(bmpFile(bitmap))).toThrow('The bitmap is truncated');
+  });
+
+  it('rejects huge dimensions before allocating the pixels', () => {
+    const bitmap = dib({ width: 100000, height: 100000, bitCount: 24, rows: [] });
+
+    expect(() => decodeBmp(bmpFile(bitmap))).toThrow('The bitmap is too large');
+  });
+
+  it('reads the ICC profile embedded after the pixels of a V5 bitmap', () => {
+    const profile = Buffer.from('profile data');
+    const header = Buffer.alloc(124);
+    header.writeUInt32LE(124, 0);
+    header.writeInt32LE(1, 4);
+    header.writeInt32LE(1, 8);
+    header.writeUInt16LE(1, 12);
+    header.writeUInt16LE(24, 14);
+    header.write('DEBM', 56, 'latin1');
+    header.writeUInt32LE(124 + 4, 112);
+    header.writeUInt32LE(profile.length, 116);
+    const file = bmpFile(Buffer.concat([header, Buffer.from([0, 0, 255, 0]), profile]));
+    file.writeUInt32LE(14 + 124, 10);
+
+    expect(readBmpIccProfile(file)).toEqual(profile);
+    expect([...decodeBmp(file).data]).toEqual([255, 0, 0, 255]);
+    expect(readBmpIccProfile(encodeBmp({ data: Buffer.alloc(4, 255), width: 1, height: 1 }))).toBeUndefined();
+  });
+
+  it('rejects files that are not BMP or are compressed', () => {
+    expect(() => decodeBmp(Buffer.from('GIF89a'.padEnd(40, '\0'), 'latin1'))).toThrow('Not a BMP file');
+
+    const compressed = bmpFile(dib({ width: 1, height: 1, bitCount: 8, rows: [[0]] }));
+    compressed.writeUInt32LE(1, 14 + 16);
+    expect(() => decodeBmp(compressed)).toThrow('Compressed BMP files are not supported');
+  });
+});
+
+describe('ICO', () => {
+  it('round trips PNG entries and picks the largest one', () => {
+    const small = { width: 16, height: 16, png: Buffer.from('\x89PNG\r\n\x1a\nsmall', 'latin1') };
+    const large = { width: 256, height: 256, png: Buffer.from('\x89PNG\r\n\x1a\nlarge', 'latin1') };
+    const file = encodeIco([small, large]);
+
+    expect(file[6 + 16]).toBe(0);
+    expect(decodeIco(file)).toEqual({ png: large.png });
+  });
+
+  it('applies the transparency mask of bitmap entries', () => {
+    // Bottom-up rows, so the first mask row hides the bottom left pixel
+    const bitmap = dib({
+      width: 2,
+      height: 2,
+      bitCount: 24,
+      rows: [[0, 0, 255, 0, 255, 0], [255, 0, 0, 255, 255, 255]],
+      maskRows: [[0x80], [0x00]]
+    });
+    const decoded = decodeIco(icoFile([{ size: 2, data: bitmap }]));
+
+    expect(decoded).toEqual({
+      image: {
+        width: 2,
+        height: 2,
+        data: Buffer.from([0, 0, 255, 255, 255, 255, 255, 255, 255, 0, 0, 0, 0, 255, 0, 255])
+      }
+    });
+  });
+
+  it('rejects files that are not icons or have no readable images', () => {
+    expect(() => decodeIco(Buffer.from([0, 0, 3, 0, 1, 0]))).toThrow('Not an ICO file');
+
+    const truncated = icoFile([{ size: 16, data: Buffer.alloc(8) }]);
+    truncated.writeUInt32LE(1000, 6 + 8);
+    expect(() => decodeIco(truncated)).toThrow('The icon has no readable images');
+  });
+});
@@ -0,0 +1,335 @@
+// BMP and ICO reading and writing, which libvips does not provide
+
+/**
+ * Decoded pixels, 4 bytes per pixel in RGBA order from the top left
+ */
+export interface RgbaImage {
+  data: Buffer;
+  width: number;
+  height: number;
+}
+
+/**
+ * An icon entry, stored as PNG
+ */
+export interface IconImage {
+  width: number;
+  height: number;
+  png: Buffer;
+}
+
+// Compression methods of uncompressed bitmaps, with or without channel masks
+const BI_RGB = 0;
+const BI_BITFIELDS = 3;
+const BI_ALPHABITFIELDS = 6;
+
+// Sizes of the info headers this module reads: OS/2 core, Windows 3, V4 and V5
+const CORE_HEADER_SIZE = 12;
+const INFO_HEADER_SIZE = 40;
+const V4_HEADER_SIZE = 108;
+const V5_HEADER_SIZE = 124;
+
+// Color space type of V5 headers that embed an ICC profile, 'MBED'
+const PROFILE_EMBEDDED = 0x4d424544;
+
+const FILE_HEADER_SIZE = 14;
+const ICON_DIRECTORY_SIZE = 6;
+const ICON_ENTRY_SIZE = 16;
+
+// Largest picture decoded, which keeps the RGBA buffer under 160 MB and the decoding loop short
+const MAX_PIXELS = 40000000;
+
+// 72 DPI, in pixels per meter
+const PIXELS_PER_METER = 2835;
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+/**
+ * Read one channel from a packed pixel value and scale it to 0-255
+ */
+function readMasked(value: number, mask: number): number {
+  if (!mask) {
+    return 255;
+  }
+
+  let shifted = mask;
+  let shift = 0;
+  while (!(shifted & 1)) {
+    shifted >>>= 1;
+    shift++;
+  }
+
+  const max = shifted >>> 0;
+  return Math.round((((value & mask) >>> shift) * 255) / max);
+}
+
+/**
+ * Decode a device independent bitmap: an info header, optional masks and palette, then bottom-up rows.
+ * Icons store a 1-bit transparency mask after the pixels and double the height to cover both.
+ */
+function decodeDib(buffer: Buffer, headerOffset: number, pixelOffset?: number, isIcon = false): RgbaImage {
+  const headerSize = buffer.readUInt32LE(headerOffset);
+  const isCore = headerSize === CORE_HEADER_SIZE;
+
+  const width = isCore ? buffer.readUInt16LE(headerOffset + 4) : buffer.readInt32LE(headerOffset + 4);
+  const rawHeight = isCore ? buffer.readInt16LE(headerOffset + 6) : buffer.readInt32LE(headerOffset + 8);
+  const bitCount = buffer.readUInt16LE(headerOffset + (isCore ? 10 : 14));
+  const compression = isCore ? BI_RGB : buffer.readUInt32LE(headerOffset + 16);
+  const colorsUsed = isCore ? 0 : buffer.readUInt32LE(headerOffset + 32);
+
+  if (![BI_RGB, BI_BITFIELDS, BI_ALPHABITFIELDS].includes(compression)) {
+    throw new Error('Compressed BMP files are not supported');
+  }
+  if (![1, 4, 8, 16, 24, 32].includes(bitCount)) {
+    throw new Error(`BMP files with ${bitCount} bits per pixel are not supported`);
+  }
+
+  // Negative heights store the rows top-down
+  const topDown = rawHeight < 0;
+  const height = Math.abs(rawHeight) / (isIcon ? 2 : 1);
+  if (width <= 0 || height <= 0 || !Number.isInteger(height)) {
+    throw new Error('The bitmap has invalid dimensions');
+  }
+  if (width * height > MAX_PIXELS) {
+    throw new Error(`The bitmap is too large, at most ${MAX_PIXELS} pixels are supported`);
+  }
+
+  // Red, green, blue and alpha masks of 16 and 32 bit pixels
+  let masks = bitCount === 16 ? [0x7c00, 0x03e0, 0x001f, 0] : [0xff0000, 0xff00, 0xff, 0xff000000];
+  let tableOffset = headerOffset + headerSize;
+  if (compression !== BI_RGB) {
+    if (headerSize >= INFO_HEADER_SIZE + 16) {
+      masks = [0, 4, 8, 12].map(offset => buffer.readUInt32LE(headerOffset + INFO_HEADER_SIZE + offset));
+    } else {
+      // Older headers are followed by the masks
+      const maskCount = compression === BI_ALPHABITFIELDS ? 4 : 3;
+      masks = [0, 4, 8, 12].map((offset, index) => index < maskCount ? buffer.readUInt32LE(tableOffset + offset) : 0);
+      tableOffset += maskCount * 4;
+    }
+  }
+
+  const palette: number[][] = [];
+  if (bitCount <= 8) {
+    const entrySize = isCore ? 3 : 4;
+    // The header may claim more colors than the bit depth can address
+    const count = Math.min(colorsUsed || 1 << bitCount, 1 << bitCount);
+    if (tableOffset + count * entrySize > buffer.length) {
+      throw new Error('The bitmap is truncated');
+    }
+    for (let index = 0; index < count; index++) {
+      const entry = tableOffset + index * entrySize;
+      palette.push([buffer[entry + 2], buffer[entry + 1], buffer[entry]]);
+    }
+    tableOffset += count * entrySize;
+  }
+
+  const start = pixelOffset ?? tableOffset;
+  const rowSize = Math.floor((bitCount * width + 31) / 32) * 4;
+  if (start + rowSize * height > buffer.length) {
+    throw new Error('The bitmap is truncated');
+  }
+
+  const data = Buffer.alloc(width * height * 4);
+  let hasAlpha = false;
+
+  for (let y = 0; y < height; y++) {
+    const row = start + (topDown ? y : height - 1 - y) * rowSize;
+
+    for (let x = 0; x < width; x++) {
+      const target = (y * width + x) * 4;
+      let red: number, green: number, blue: number, alpha = 255;
+
+      if (bitCount <= 8) {
+        const bitOffset = x * bitCount;
+        const index = (buffer[row + (bitOffset >> 3)] >> (8 - bitCount - (bitOffset & 7))) & ((1 << bitCount) - 1);
+        [red, green, blue] = palette[index] || [0, 0, 0];
+      } else if (bitCount === 24) {
+        const pixel = row + x * 3;
+        [red, green, blue] = [buffer[pixel + 2], buffer[pixel + 1], buffer[pixel]];
+      } else {
+        const value = bitCount === 16 ? buffer.readUInt16LE(row + x * 2) : buffer.readUInt32LE(row + x * 4);
+        [red, green, blue] = masks.slice(0, 3).map(mask => readMasked(value, mask));
+        if (masks[3]) {
+          alpha = readMasked(value, masks[3]);
+          hasAlpha = hasAlpha || alpha > 0;
+        }
+      }
+
+      data[target] = red;
+      data[target + 1] = green;
+      data[target + 2] = blue;
+      data[target + 3] = alpha;
+    }
+  }
+
+  // Many writers leave the spare byte of 32 bit pixels at zero, which means opaque rather than invisible
+  if ((bitCount === 16 || bitCount === 32) && masks[3] && !hasAlpha) {
+    for (let index = 3; index < data.length; index += 4) {
+      data[index] = 255;
+    }
+  }
+
+  // Icons without an alpha channel mark transparent pixels in the mask, which some writers leave out or cut short
+  const maskStart = start + rowSize * height;
+  const maskRowSize = Math.floor((width + 31) / 32) * 4;
+  if (isIcon && bitCount < 32 && maskStart + maskRowSize * height <= buffer.length) {
+    for (let y = 0; y < height; y++) {
+      const row = maskStart + (topDown ? y : height - 1 - y) * maskRowSize;
+      for (let x = 0; x < width; x++) {
+        if ((buffer[row + (x >> 3)] >> (7 - (x & 7))) & 1) {
+          data[(y * width + x) * 4 + 3] = 0;
+        }
+      }
+    }
+  }
+
+  return { data, width, height };
+}
+
+/**
+ * Decode a BMP file
+ */
+export function decodeBmp(buffer: Buffer): RgbaImage {
+  if (buffer.length < FILE_HEADER_SIZE + CORE_HEADER_SIZE || buffer.toString('latin1', 0, 2) !== 'BM') {
+    throw new Error('Not a BMP file');
+  }
+
+  return decodeDib(buffer, FILE_HEADER_SIZE, buffer.readUInt32LE(10));
+}
+
+/**
+ * Read the ICC profile embedded by a BMP file with a V5 header
+ */
+export function readBmpIccProfile(buffer: Buffer): Buffer | undefined {
+  if (
+    buffer.length < FILE_HEADER_SIZE + V5_HEADER_SIZE ||
+    buffer.toString('latin1', 0, 2) !== 'BM' ||
+    buffer.readUInt32LE(FILE_HEADER_SIZE) < V5_HEADER_SIZE ||
+    buffer.readUInt32LE(FILE_HEADER_SIZE + 56) !== PROFILE_EMBEDDED
+  ) {
+    return undefined;
+  }
+
+  // The profile's offset counts from the start of the info header
+  const start = FILE_HEADER_SIZE + buffer.readUInt32LE(FILE_HEADER_SIZE + 112);
+  const end = start + buffer.readUInt32LE(FILE_HEADER_SIZE + 116);
+  return end > start && end <= buffer.length ? Buffer.from(buffer.subarray(start, end)) : undefined;
+}
+
+/**
+ * Encode pixels as a BMP file: 24 bit when opaque, 32 bit with an alpha mask otherwise
+ */
+export function encodeBmp(image: RgbaImage): Buffer {
+  const { data, width, height } = image;
+  let hasAlpha = false;
+  for (let index = 3; index < data.length && !hasAlpha; index += 4) {
+    hasAlpha = data[index] < 255;
+  }
+
+  const bitCount = hasAlpha ? 32 : 24;
+  const headerSize = hasAlpha ? V4_HEADER_SIZE : INFO_HEADER_SIZE;
+  const rowSize = Math.floor((bitCount * width + 31) / 32) * 4;
+  const pixelOffset = FILE_HEADER_SIZE + headerSize;
+  const buffer = Buffer.alloc(pixelOffset + rowSize * height);
+
+  buffer.write('BM', 0, 'latin1');
+  buffer.writeUInt32LE(buffer.length, 2);
+  buffer.writeUInt32LE(pixelOffset, 10);
+
+  buffer.writeUInt32LE(headerSize, 14);
+  buffer.writeInt32LE(width, 18);
+  buffer.writeInt32LE(height, 22);
+  buffer.writeUInt16LE(1, 26);
+  buffer.writeUInt16LE(bitCount, 28);
+  buffer.writeUInt32LE(hasAlpha ? BI_BITFIELDS : BI_RGB, 30);
+  buffer.writeUInt32LE(rowSize * height, 34);
+  buffer.writeInt32LE(PIXELS_PER_METER, 38);
+  buffer.writeInt32LE(PIXELS_PER_METER, 42);
+
+  if (hasAlpha) {
+    [0x00ff0000, 0x0000ff00, 0x000000ff, 0xff000000].forEach((mask, index) => buffer.writeUInt32LE(mask, 54 + index * 4));
+    // Color space 'sRGB', stored little endian
+    buffer.write('BGRs', 70, 'latin1');
+  }
+
+  // Rows are stored bottom-up, pixels as BGR or BGRA
+  for (let y = 0; y < height; y++) {
+    const row = pixelOffset + (height - 1 - y) * rowSize;
+    for (let x = 0; x < width; x++) {
+      const source = (y * width + x) * 4;
+      const target = row + x * (bitCount / 8);
+      buffer[target] = data[source + 2];
+      buffer[target + 1] = data[source + 1];
+      buffer[target + 2] = data[source];
+      if (hasAlpha) {
+        buffer[target + 3] = data[source + 3];
+      }
+    }
+  }
+
+  return buffer;
+}
+
+/**
+ * Decode the largest image of an ICO or CUR file. Entries stored as PNG are returned as is.
+ */
+export function decodeIco(buffer: Buffer): { png: Buffer } | { image: RgbaImage } {
+  const type = buffer.length >= ICON_DIRECTORY_SIZE ? buffer.readUInt16LE(2) : 0;
+  if (buffer.readUInt16LE(0) !== 0 || (type !== 1 && type !== 2)) {
+    throw new Error('Not an ICO file');
+  }
+
+  const count = buffer.readUInt16LE(4);
+  let best: { area: number; bitCount: number; offset: number; size: number } | undefined;
+
+  for (let index = 0; index < count; index++) {
+    const entry = ICON_DIRECTORY_SIZE + index * ICON_ENTRY_SIZE;
+    if (entry + ICON_ENTRY_SIZE > buffer.length) {
+      break;
+    }
+
+    // A size of 0 stands for 256 pixels; cursors keep the hotspot where icons keep the bit count
+    const area = (buffer[entry] || 256) * (buffer[entry + 1] || 256);
+    const bitCount = type === 1 ? buffer.readUInt16LE(entry + 6) : 0;
+    const candidate = { area, bitCount, size: buffer.readUInt32LE(entry + 8), offset: buffer.readUInt32LE(entry + 12) };
+
+    if (!best || area > best.area || (area === best.area && bitCount > best.bitCount)) {
+      best = candidate;
+    }
+  }
+
+  if (!best || best.offset + best.size > buffer.length) {
+    throw new Error('The icon has no readable images');
+  }
+
+  const data = buffer.subarray(best.offset, best.offset + best.size);
+  if (data.subarray(0, PNG_SIGNATURE.length).equals(PNG_SIGNATURE)) {
+    return { png: Buffer.from(data) };
+  }
+
+  return { image: decodeDib(data, 0, undefined, true) };
+}
+
+/**
+ * Encode PNG images as an ICO file, which Windows Vista and later read at up to 256x256
+ */
+export function encodeIco(images: IconImage[]): Buffer {
+  const directory = Buffer.alloc(ICON_DIRECTORY_SIZE + images.length * ICON_ENTRY_SIZE);
+  directory.writeUInt16LE(0, 0);
+  directory.writeUInt16LE(1, 2);
+  directory.writeUInt16LE(images.length, 4);
+
+  let offset = directory.length;
+  images.forEach((image, index) => {
+    const entry = ICON_DIRECTORY_SIZE + index * ICON_ENTRY_SIZE;
+    directory[entry] = image.width >= 256 ? 0 : image.width;
+    directory[entry + 1] = image.height >= 256 ? 0 : image.height;
+    directory.writeUInt16LE(1, entry + 4);
+    directory.writeUInt16LE(32, entry + 6);
+    directory.writeUInt32LE(image.png.length, entry + 8);
+    directory.writeUInt32LE(offset, entry + 12);
+    offset += image.png.length;
+  });
+
+  return Buffer.concat([directory, ...images.map(image => image.png)]);
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { CancellationError, abortable, runCommand, settleAbandonedWork, throwIfCancelled } from './cancellation';
+
+describe('throwIfCancelled', () => {
+  it('throws only once the job is aborted', () => {
+    const controller = new AbortController();
+
+    expect(() => throwIfCancelled(controller.signal)).not.toThrow();
+    expect(() => throwIfCancelled()).not.toThrow();
+    controller.abort();
+    expect(() => throwIfCancelled(controller.signal)).toThrow(CancellationError);
+  });
+});
+
+describe('abortable', () => {
+  it('settles with the work when the job is not aborted', async () => {
+    await expect(abortable(Promise.resolve('done'), new AbortController().signal)).resolves.toBe('done');
+    await expect(abortable(Promise.reject(new Error('failed')), new AbortController().signal)).rejects.toThrow('failed');
+  });
+
+  it('rejects as soon as the job is aborted, without waiting for the work', async () => {
+    const controller = new AbortController();
+    const pending = abortable(new Promise(() => {}), controller.signal);
+
+    controller.abort();
+    await expect(pending).rejects.toBeInstanceOf(CancellationError);
+  });
+
+  it('rejects straight away when the job was already aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(abortable(Promise.resolve('done'), controller.signal)).rejects.toBeInstanceOf(CancellationError);
+  });
+});
+
+describe('settleAbandonedWork', () => {
+  it('waits for work a cancelled job stopped waiting for', async () => {
+    const controller = new AbortController();
+    let finish: () => void = () => {};
+    let finished = false;
+    const work = new Promise<void>(resolve => {
+      finish = resolve;
+    }).then(() => {
+      finished = true;
+    });
+
+    const pending = abortable(work, controller.signal);
+    controller.abort();
+    await expect(pending).rejects.toBeInstanceOf(CancellationError);
+
+    const settled = settleAbandonedWork(controller.signal);
+    expect(finished).toBe(false);
+    finish();
+    await settled;
+    expect(finished).toBe(true);
+  });
+
+  it('settles even when the abandoned work fails', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(abortable(Promise.reject(new Error('failed')), controller.signal)).rejects.toBeInstanceOf(CancellationError);
+
+    await expect(settleAbandonedWork(controller.signal)).resolves.toBeUndefined();
+    await expect(settleAbandonedWork()).resolves.toBeUndefined();
+  });
+});
+
+describe('runCommand', () => {
+  it('resolves with the output of the command', async () => {
+    await expect(runCommand(process.execPath, ['-e', 'process.stdout.write("hello")'])).resolves.toBe('hello');
+  });
+
+  it('reports the exit code and the end of stderr', async () => {
+    await expect(runCommand(process.execPath, ['-e', 'console.error("bad input"); process.exit(3)']))
+      .rejects.toThrow('exited with code 3: bad input');
+  });
+
+  it('kills the command when the job is aborted', async () => {
+    const controller = new AbortController();
+    const running = runCommand(process.execPath, ['-e', 'setTimeout(() => {}, 10000)'], undefined, controller.signal);
+
+    controller.abort();
+    await expect(running).rejects.toBeInstanceOf(CancellationError);
+  });
+});
@@ -0,0 +1,131 @@
+import { spawn, ChildProcess } from 'child_process';
+
+// Map to store active conversion processes
+export const activeConversionProcesses = new Map<string, ChildProcess>();
+
+// Characters of a command's stderr kept for error messages
+const STDERR_TAIL_LENGTH = 4000;
+
+// Work that kept running after its job was cancelled, keyed by the job's abort signal
+const abandonedWork = new WeakMap<AbortSignal, Promise<unknown>[]>();
+
+// Signal that a process was cancelled by user
+export class CancellationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CancellationError';
+  }
+}
+
+/**
+ * Stop work between steps once the job has been cancelled
+ */
+export function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new CancellationError('Conversion was cancelled by user');
+  }
+}
+
+/**
+ * Settle as cancelled as soon as the job is aborted, for work that cannot be interrupted such as sharp pipelines.
+ * The work itself runs to completion in the background and its result is discarded;
+ * settleAbandonedWork waits for it before the job's files are deleted.
+ */
+export function abortable<T>(work: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) {
+    return work;
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      abandonedWork.set(signal, [...(abandonedWork.get(signal) || []), work]);
+      reject(new CancellationError('Conversion was cancelled by user'));
+    };
+    if (signal.aborted) {
+      onAbort();
+      return;
+    }
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    work
+      .then(resolve, reject)
+      .finally(() => signal.removeEventListener('abort', onAbort));
+  });
+}
+
+/**
+ * Wait for the work a cancelled job stopped waiting for, so its files are only deleted once nothing uses them
+ */
+export async function settleAbandonedWork(signal?: AbortSignal): Promise<void> {
+  if (!signal) {
+    return;
+  }
+  await Promise.allSettled(abandonedWork.get(signal) || []);
+  abandonedWork.delete(signal);
+}
+
+/**
+ * Run a command without a shell and resolve with its stdout.
+ * The process is registered against the job and killed when the job is aborted.
+ */
+export function runCommand(
+  command: string,
+  args: string[],
+  jobId?: string,
+  signal?: AbortSignal,
+  cwd?: string
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    // Don't start the command at all if the job was already cancelled
+    if (signal?.aborted) {
+      reject(new CancellationError('Conversion was cancelled by user'));
+      return;
+    }
+
+    const child = spawn(command, args, { cwd });
+    let stdout = '';
+    let stderrTail = '';
+    let wasCancelled = false;
+
+    if (jobId) {
+      activeConversionProcesses.set(jobId, child);
+    }
+
+    const onAbort = () => {
+      wasCancelled = true;
+      child.kill();
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const cleanUp = () => {
+      signal?.removeEventListener('abort', onAbort);
+      if (jobId && activeConversionProcesses.get(jobId) === child) {
+        activeConversionProcesses.delete(jobId);
+      }
+    };
+
+    child.stdout.on('data', (data) => {
+      stdout += data.toString();
+    });
+    child.stderr.on('data', (data) => {
+      stderrTail = (stderrTail + data.toString()).slice(-STDERR_TAIL_LENGTH);
+    });
+
+    child.on('close', (code) => {
+      cleanUp();
+
+      if (wasCancelled) {
+        reject(new CancellationError('Conversion was cancelled by user'));
+      } else if (code === 0) {
+        resolve(stdout);
+      } else {
+        reject(new Error(`${command} exited with code ${code}: ${stderrTail.trim()}`));
+      }
+    });
+
+    child.on('error', (err) => {
+      cleanUp();
+      reject(new Error(`${command} could not be started: ${err.message}`));
+    });
+  });
+}
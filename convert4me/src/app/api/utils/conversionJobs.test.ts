@@ -0,0 +1,109 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { existsSync } from 'fs';
+import { mkdtemp, readdir, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { ConversionJob, conversionControllers, startConversionJob } from './conversionJobs';
+import { CancellationError } from './cancellation';
+
+// Cleanup failures are simulated by making single rm calls fail
+vi.mock('fs/promises', async importOriginal => {
+  const actual = await importOriginal<typeof import('fs/promises')>();
+  return { ...actual, rm: vi.fn(actual.rm) };
+});
+
+describe('startConversionJob', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'conversion-jobs-'));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Create a pending job for an uploaded input file
+   */
+  async function createJob(jobId: string): Promise<ConversionJob> {
+    const inputPath = join(dir, `${jobId}.txt`);
+    await writeFile(inputPath, 'input');
+
+    return {
+      jobId,
+      originalFilename: 'input.txt',
+      inputPath,
+      inputFormat: 'txt',
+      outputFormat: 'md',
+      options: {},
+      status: 'processing',
+      progress: 0,
+      route: ['txt', 'md'],
+      currentStep: 0,
+      createdAt: new Date()
+    };
+  }
+
+  it('moves a finished output out of the staging directory', async () => {
+    const job = await createJob('completed');
+    const outputDir = join(dir, 'completed-output');
+
+    startConversionJob(job, async (signal, stagingDir) => {
+      await writeFile(join(stagingDir, 'intermediate.tmp'), 'temporary');
+      await writeFile(join(stagingDir, 'result.md'), 'converted');
+      return join(stagingDir, 'result.md');
+    }, outputDir);
+
+    await vi.waitFor(() => expect(existsSync(job.inputPath)).toBe(false));
+    expect(job).toMatchObject({ status: 'completed', progress: 100, outputPath: join(outputDir, 'result.md'), outputSize: 9 });
+    expect(await readdir(join(outputDir, 'temp'))).toEqual([]);
+    expect(conversionControllers.has('completed')).toBe(false);
+  });
+
+  it('removes the partial output of a cancelled job', async () => {
+    const job = await createJob('cancelled');
+    const outputDir = join(dir, 'cancelled-output');
+
+    startConversionJob(job, (signal, stagingDir) => new Promise((resolve, reject) => {
+      writeFile(join(stagingDir, 'partial.md'), 'half').then(() => {
+        signal.addEventListener('abort', () => reject(new CancellationError('Conversion was cancelled by user')));
+        conversionControllers.get('cancelled')?.abort();
+      });
+    }), outputDir);
+
+    await vi.waitFor(() => expect(existsSync(job.inputPath)).toBe(false));
+    expect(job.status).toBe('cancelled');
+    expect(job.error).toBeUndefined();
+    expect(await readdir(outputDir)).toEqual(['temp']);
+    expect(await readdir(join(outputDir, 'temp'))).toEqual([]);
+  });
+
+  it('records the error of a failed job', async () => {
+    const job = await createJob('failed');
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    startConversionJob(job, async () => {
+      throw new Error('Unsupported codec');
+    }, join(dir, 'failed-output'));
+
+    await vi.waitFor(() => expect(existsSync(job.inputPath)).toBe(false));
+    expect(job).toMatchObject({ status: 'failed', error: 'Unsupported codec' });
+    vi.restoreAllMocks();
+  });
+
+  it('logs a failed cleanup instead of leaving it unhandled', async () => {
+    const job = await createJob('cleanup-failed');
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.mocked(rm).mockRejectedValueOnce(new Error('Directory is busy'));
+
+    startConversionJob(job, async (signal, stagingDir) => {
+      await writeFile(join(stagingDir, 'result.md'), 'converted');
+      return join(stagingDir, 'result.md');
+    }, join(dir, 'cleanup-output'));
+
+    await vi.waitFor(() => expect(consoleError).toHaveBeenCalledWith('Error cleaning up job cleanup-failed:', expect.any(Error)));
+    expect(job.status).toBe('completed');
+    vi.restoreAllMocks();
+  });
+});
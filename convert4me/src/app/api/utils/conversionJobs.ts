@@ -0,0 +1,173 @@
+import { join, basename } from 'path';
+import { existsSync } from 'fs';
+import { mkdir, rename, rm, stat, unlink } from 'fs/promises';
+import type { ConversionMethod, ProgressDetails } from './converterTypes';
+import { CancellationError, settleAbandonedWork } from './cancellation';
+import { sendProgressUpdate } from '../socket/route';
+
+// In-memory database for storing conversion jobs
+export type JobStatus = 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
+
+export interface ConversionJob {
+  jobId: string;
+  originalFilename: string;
+  inputPath: string;
+  // Every uploaded file the job reads, for jobs that combine several inputs or use uploaded subtitles or logos
+  inputPaths?: string[];
+  outputPath?: string;
+  // Size of the finished output in bytes
+  outputSize?: number;
+  inputFormat: string;
+  outputFormat: string;
+  // Validated options with defaults applied
+  options: Record<string, unknown>;
+  status: JobStatus;
+  progress: number;
+  // Latest encoder statistics (fps, speed, size, ETA) while the job runs
+  progressDetails?: ProgressDetails;
+  // Formats the conversion passes through, from input to output
+  route: string[];
+  // Zero-based index of the conversion step currently running
+  currentStep: number;
+  // Whether the streams were copied or re-encoded, for converters that choose
+  method?: ConversionMethod;
+  error?: string;
+  createdAt: Date;
+  completedAt?: Date;
+}
+
+export const conversionJobs = new Map<string, ConversionJob>();
+
+// Abort controllers for jobs that are still running
+export const conversionControllers = new Map<string, AbortController>();
+
+/**
+ * Helper function to delete a file and handle errors
+ */
+export async function deleteFile(filePath: string): Promise<boolean> {
+  try {
+    if (existsSync(filePath)) {
+      await unlink(filePath);
+      console.log(`Deleted file: ${filePath}`);
+      return true;
+    } else {
+      console.log(`File not found for deletion: ${filePath}`);
+      return false;
+    }
+  } catch (error) {
+    console.error(`Error deleting file ${filePath}:`, error);
+    return false;
+  }
+}
+
+/**
+ * Delete every input file of a job
+ */
+export async function deleteJobInputs(job: ConversionJob): Promise<boolean> {
+  const results = await Promise.all((job.inputPaths || [job.inputPath]).map(deleteFile));
+  return results.every(Boolean);
+}
+
+/**
+ * Update the progress of a running job and broadcast it to connected clients
+ */
+export function updateJobProgress(
+  jobId: string,
+  progress: number,
+  currentStep = 0,
+  details?: ProgressDetails
+): void {
+  const job = conversionJobs.get(jobId);
+  if (job) {
+    job.progress = progress;
+    job.currentStep = currentStep;
+    job.progressDetails = details;
+    conversionJobs.set(jobId, job);
+  }
+
+  sendProgressUpdate(jobId, progress, details);
+}
+
+/**
+ * Record how a running job is producing its output
+ */
+export function updateJobMethod(jobId: string, method: ConversionMethod): void {
+  const job = conversionJobs.get(jobId);
+  if (job) {
+    job.method = method;
+    conversionJobs.set(jobId, job);
+  }
+}
+
+/**
+ * Register a job and run its conversion in the background, tracking the outcome on the job.
+ * The conversion writes into its own staging directory; only a finished, uncancelled output is moved
+ * to the output directory, so partial outputs and temporary files of failed or cancelled jobs are removed with it.
+ */
+export function startConversionJob(
+  job: ConversionJob,
+  run: (signal: AbortSignal, outputDir: string) => Promise<string>,
+  outputDir: string = join(process.cwd(), 'output')
+): void {
+  const { jobId } = job;
+
+  // Save job to in-memory database
+  conversionJobs.set(jobId, job);
+
+  const abortController = new AbortController();
+  conversionControllers.set(jobId, abortController);
+  const stagingDir = join(outputDir, 'temp', `job-${jobId}`);
+
+  (async () => {
+    try {
+      await mkdir(stagingDir, { recursive: true });
+      const stagedPath = await run(abortController.signal, stagingDir);
+
+      const outputPath = join(outputDir, basename(stagedPath));
+      await rename(stagedPath, outputPath);
+      const outputSize = (await stat(outputPath)).size;
+
+      // A cancellation that arrived while the output was being moved still wins
+      if (abortController.signal.aborted) {
+        await deleteFile(outputPath);
+        throw new CancellationError('Conversion was cancelled by user');
+      }
+
+      // Update job with completed status
+      job.status = 'completed';
+      job.progress = 100;
+      job.progressDetails = undefined;
+      job.outputPath = outputPath;
+      job.outputSize = outputSize;
+      job.completedAt = new Date();
+      conversionJobs.set(jobId, job);
+    } catch (error) {
+      // Killed processes can surface as ordinary errors, so the abort signal decides
+      if (error instanceof CancellationError || abortController.signal.aborted) {
+        job.status = 'cancelled';
+        // Don't set an error message for cancellations
+        job.completedAt = new Date();
+      } else {
+        console.error('Conversion error:', error);
+
+        // Update job with failed status for regular errors
+        job.status = 'failed';
+        job.error = error instanceof Error ? error.message : 'Unknown error';
+      }
+      conversionJobs.set(jobId, job);
+    } finally {
+      conversionControllers.delete(jobId);
+
+      // Partial outputs, intermediate files and inputs are no longer needed whatever the outcome,
+      // once sharp work a cancellation left running has stopped reading and writing them.
+      // Nothing awaits this function, so a failed cleanup is logged rather than left unhandled.
+      try {
+        await settleAbandonedWork(abortController.signal);
+        await rm(stagingDir, { recursive: true, force: true });
+        await deleteJobInputs(job);
+      } catch (error) {
+        console.error(`Error cleaning up job ${jobId}:`, error);
+      }
+    }
+  })();
+}
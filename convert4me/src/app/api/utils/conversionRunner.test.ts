@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { tmpdir } from 'os';
+import { mkdtemp, rm } from 'fs/promises';
+import { join } from 'path';
+import type { Converter, ConversionStep } from './converterTypes';
+import { StepProgress, runConversionPlan } from './conversionRunner';
+
+/**
+ * Build a plan step whose converter reports the given progress and names its output after the step's format
+ */
+function step(inputFormat: string, outputFormat: string, reported: number[]): ConversionStep {
+  const converter: Converter = {
+    id: `${inputFormat}-${outputFormat}`,
+    category: 'image',
+    supportedInputFormats: [inputFormat],
+    possibleOutputFormats: [outputFormat],
+    optionSchema: {},
+    convert: async (inputPath, format, options, context) => {
+      reported.forEach(progress => context.onProgress(progress, { fps: 30 }));
+      return join(context.outputDir || '', `out.${format}`);
+    }
+  };
+  return { converter, inputFormat, outputFormat };
+}
+
+describe('runConversionPlan', () => {
+  it('gives every step an equal share of the overall progress', async () => {
+    const updates: StepProgress[] = [];
+    const overall: number[] = [];
+
+    const outputDir = await mkdtemp(join(tmpdir(), 'convert4me-'));
+
+    const output = await runConversionPlan(
+      'in.docx',
+      [step('docx', 'pdf', [50, 100]), step('pdf', 'png', [50])],
+      [{}, {}],
+      { jobId: 'runner-test', onProgress: progress => overall.push(progress), outputDir },
+      update => updates.push(update)
+    );
+
+    expect(output).toBe(join(outputDir, 'out.png'));
+    expect(overall).toEqual([0, 25, 50, 50, 75]);
+    expect(updates.map(update => update.step)).toEqual([0, 0, 0, 1, 1]);
+    expect(updates[1]).toEqual({ step: 0, totalSteps: 2, progress: 25, details: { fps: 30 } });
+
+    await rm(outputDir, { recursive: true, force: true });
+  });
+});
@@ -0,0 +1,84 @@
+import { join, extname } from 'path';
+import { existsSync } from 'fs';
+import { mkdir, rm } from 'fs/promises';
+import type { ConversionContext, ConversionStep, ProgressDetails } from './converterTypes';
+import { throwIfCancelled } from './cancellation';
+
+export interface StepProgress {
+  // Zero-based index of the step currently running
+  step: number;
+  totalSteps: number;
+  // Progress of the whole plan, 0-100
+  progress: number;
+  // Encoder statistics of the current step, when the converter reports them
+  details?: ProgressDetails;
+}
+
+/**
+ * Run a conversion plan, chaining converters through temporary files.
+ * Every step gets an equal share of the overall progress.
+ */
+export async function runConversionPlan(
+  inputPath: string,
+  plan: ConversionStep[],
+  stepOptions: Record<string, unknown>[],
+  context: ConversionContext,
+  onStepProgress: (progress: StepProgress) => void = () => {}
+): Promise<string> {
+  const outputDir = context.outputDir || join(process.cwd(), 'output');
+  const totalSteps = plan.length;
+
+  // Intermediate results live in their own directory so they never collide with final outputs
+  const tempDir = join(outputDir, 'temp', `${context.jobId || 'plan'}-${Date.now()}`);
+  if (totalSteps > 1) {
+    await mkdir(tempDir, { recursive: true });
+  }
+
+  try {
+    let currentInput = inputPath;
+
+    for (let index = 0; index < totalSteps; index++) {
+      // Don't start the next step once the job has been cancelled
+      throwIfCancelled(context.signal);
+
+      const step = plan[index];
+      const isLastStep = index === totalSteps - 1;
+
+      const reportProgress = (stepProgress: number, details?: ProgressDetails) => {
+        const progress = Math.round((index * 100 + stepProgress) / totalSteps);
+        onStepProgress({ step: index, totalSteps, progress, details });
+        context.onProgress(progress, details);
+      };
+
+      reportProgress(0);
+
+      // Each converter only receives the options validated for its step
+      const stepOutput = await step.converter.convert(currentInput, step.outputFormat, stepOptions[index], {
+        ...context,
+        onProgress: reportProgress,
+        outputDir: isLastStep ? outputDir : tempDir
+      });
+
+      // Multi-file results (e.g. a zip of PDF pages) cannot feed the next converter
+      if (!isLastStep && extname(stepOutput).slice(1).toLowerCase() !== step.outputFormat) {
+        throw new Error(
+          `Step ${index + 1} (${step.inputFormat} to ${step.outputFormat}) produced ` +
+          `${extname(stepOutput) || 'an unexpected file'}, which cannot be converted further`
+        );
+      }
+
+      currentInput = stepOutput;
+    }
+
+    return currentInput;
+  } finally {
+    // Clean up intermediate files
+    if (totalSteps > 1 && existsSync(tempDir)) {
+      try {
+        await rm(tempDir, { recursive: true, force: true });
+      } catch (cleanupError) {
+        console.error('Error cleaning up conversion temp directory:', cleanupError);
+      }
+    }
+  }
+}
@@ -0,0 +1,88 @@
+// Shared types for the converter registry
+
+export type FormatCategory = 'video' | 'image' | 'document' | 'audio' | 'subtitle';
+
+export type OptionType = 'number' | 'integer' | 'string' | 'boolean' | 'enum';
+
+/**
+ * Describes a single option a converter accepts
+ */
+export interface OptionDefinition {
+  type: OptionType;
+  description?: string;
+  min?: number;
+  max?: number;
+  values?: string[];
+  // Regular expression string values must match
+  pattern?: string;
+  // Human readable description of the pattern, used in validation errors
+  patternDescription?: string;
+  default?: unknown;
+}
+
+export type OptionSchema = Record<string, OptionDefinition>;
+
+/**
+ * Encoder statistics reported alongside the progress percentage
+ */
+export interface ProgressDetails {
+  // Frames encoded per second
+  fps?: number;
+  // Encoding speed relative to playback, e.g. 2.5 for 2.5x
+  speed?: number;
+  // Bytes written to the output so far
+  size?: number;
+  // Estimated seconds until the current step finishes
+  eta?: number;
+}
+
+// How a conversion produced its output: copying the streams into a new container, or re-encoding them
+export type ConversionMethod = 'remux' | 'encode';
+
+/**
+ * Runtime context handed to a converter for a single job
+ */
+export interface ConversionContext {
+  jobId?: string;
+  // Aborted when the job is cancelled by the user
+  signal?: AbortSignal;
+  onProgress: (progress: number, details?: ProgressDetails) => void;
+  // Called by converters that choose between methods, e.g. remuxing instead of re-encoding
+  onMethodChosen?: (method: ConversionMethod) => void;
+  // Directory the converter writes its output to, defaults to ./output
+  outputDir?: string;
+}
+
+/**
+ * A converter module that can be registered with the converter registry
+ */
+export interface Converter {
+  id: string;
+  category: FormatCategory;
+  supportedInputFormats: string[];
+  possibleOutputFormats: string[];
+  optionSchema: OptionSchema;
+  // Optional refinement when not every input can reach every output
+  supportsConversion?: (inputFormat: string, outputFormat: string) => boolean;
+  // Output formats written as animations, which are never used as intermediate formats
+  animatedOutputFormats?: string[];
+  // Options forced when the output feeds another converter, e.g. to get one file instead of an archive
+  intermediateOptions?: Record<string, unknown>;
+  // Optional cross-field checks run after schema validation, returns an error per field
+  validate?: (options: Record<string, unknown>, inputFormat: string, outputFormat: string) => Record<string, string>;
+  convert: (
+    inputPath: string,
+    outputFormat: string,
+    options: Record<string, unknown>,
+    context: ConversionContext
+  ) => Promise<string>;
+}
+
+/**
+ * A single hop of a conversion plan, handled by one converter
+ */
+export interface ConversionStep {
+  converter: Converter;
+  inputFormat: string;
+  outputFormat: string;
+}
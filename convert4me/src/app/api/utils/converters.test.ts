@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { getFormatCapabilities, getPossibleOutputFormats, isConversionSupported, planConversion } from './converters';
+
+/**
+ * Describe a plan as converter:format hops for readable assertions
+ */
+function describePlan(inputFormat: string, outputFormat: string): string[] | null {
+  const plan = planConversion(inputFormat, outputFormat);
+  return plan && plan.map(step => `${step.converter.id}:${step.outputFormat}`);
+}
+
+describe('planConversion', () => {
+  it('uses a single converter when one handles the conversion', () => {
+    expect(describePlan('mp4', 'webm')).toEqual(['video:webm']);
+    expect(describePlan('pdf', 'pdf')).toEqual(['document:pdf']);
+  });
+
+  it('chains converters through intermediate formats', () => {
+    expect(describePlan('docx', 'png')).toEqual(['document:pdf', 'document:png']);
+  });
+
+  it('prefers lossless intermediate formats', () => {
+    expect(describePlan('pdf', 'gif')).toEqual(['document:png', 'image:gif']);
+    expect(describePlan('docx', 'avif')).toEqual(['document:pdf', 'document:png', 'image:avif']);
+  });
+
+  it('never passes an animation on to another converter', () => {
+    expect(describePlan('mp4', 'pdf')).toEqual(['video-image:png', 'image:pdf']);
+    expect(describePlan('mp4', 'srcset')).toEqual(['video-image:png', 'responsive-image:srcset']);
+  });
+
+  it('still writes animations as final outputs', () => {
+    expect(describePlan('mp4', 'gif')).toEqual(['video-image:gif']);
+    expect(getPossibleOutputFormats('mp4')).toEqual(expect.arrayContaining(['gif', 'webp', 'pdf']));
+  });
+
+  it('returns null when the output cannot be reached', () => {
+    expect(planConversion('srt', 'mp4')).toBeNull();
+    expect(isConversionSupported('mp3', 'png')).toBe(false);
+  });
+});
+
+describe('getFormatCapabilities', () => {
+  it('lists the route and the options of each step', () => {
+    const pdf = getFormatCapabilities().find(capability => capability.format === 'pdf');
+    const gif = pdf?.outputs.find(output => output.format === 'gif');
+
+    expect(gif?.route).toEqual(['pdf', 'png', 'gif']);
+    expect(gif?.options).toHaveLength(2);
+    expect(gif?.options[0].density.default).toBe(300);
+    expect(gif?.options[1].density.default).toBeUndefined();
+  });
+});
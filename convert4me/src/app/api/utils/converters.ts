@@ -1,73 +1,256 @@
-// Define supported file formats and conversion options
-const videoConverters = {
-  supportedInputFormats: ['mp4', 'mov', 'avi', 'mkv', 'wmv', 'webm'],
-  possibleOutputFormats: ['mp4', 'mov', 'avi', 'mkv', 'webm']
-};
-
-const imageConverters = {
-  supportedInputFormats: ['jpg', 'jpeg', 'png', 'gif', 'webp', 'tiff', 'avif'],
-  possibleOutputFormats: ['jpg', 'jpeg', 'png', 'webp', 'avif', 'tiff']
-};
-
-// Add document converters
-const documentConverters = {
-  supportedInputFormats: ['pdf', 'docx'],
-  possibleOutputFormats: ['pdf', 'jpg', 'jpeg', 'png', 'webp']
-};
-
-// All converters in one array
-const converters = [
-  videoConverters,
-  imageConverters,
-  documentConverters
-];
+import type { Converter, ConversionStep, FormatCategory, OptionSchema } from './converterTypes';
+import { videoConverter } from './videoConverter';
+import { imageConverter } from './imageConverter';
+import { documentConverter } from './documentConverter';
+import { audioConverter } from './audioConverter';
+import { videoImageConverter } from './videoImageConverter';
+import { subtitleConverter } from './subtitleConverter';
+import { streamingConverter } from './streamingConverter';
+import { responsiveImageConverter } from './responsiveImageConverter';
+import { resolveFileFormat, sniffFileFormat } from './fileSignature';
+import { getFormatCategory, getMimeType } from './formats';
+
+export interface OutputCapability {
+  format: string;
+  mimeType: string;
+  category: FormatCategory | 'archive';
+  // Formats the conversion passes through, from input to output
+  route: string[];
+  // Options of each step of the route; an option is passed to every step that declares and accepts it
+  options: OptionSchema[];
+}
+
+export interface FormatCapability {
+  format: string;
+  mimeType: string;
+  category: FormatCategory | 'archive';
+  outputs: OutputCapability[];
+}
+
+// Registered converters, keyed by converter id
+const registry = new Map<string, Converter>();
+
+// Intermediate formats tried first, since they lose nothing between steps
+const LOSSLESS_INTERMEDIATE_FORMATS = ['png', 'tiff', 'wav', 'flac'];
+
+/**
+ * Register a converter module so its formats become available
+ */
+export function registerConverter(converter: Converter): void {
+  if (registry.has(converter.id)) {
+    throw new Error(`Converter with id ${converter.id} is already registered`);
+  }
+
+  registry.set(converter.id, converter);
+}
+
+/**
+ * Get all registered converters
+ */
+export function getConverters(): Converter[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Check whether a single converter handles the given conversion
+ */
+function converterSupports(converter: Converter, inputFormat: string, outputFormat: string): boolean {
+  if (!converter.supportedInputFormats.includes(inputFormat) ||
+      !converter.possibleOutputFormats.includes(outputFormat)) {
+    return false;
+  }
+
+  return converter.supportsConversion ? converter.supportsConversion(inputFormat, outputFormat) : true;
+}
+
+/**
+ * Find the converter responsible for a conversion
+ */
+export function findConverter(inputFormat: string, outputFormat: string): Converter | undefined {
+  return getConverters().find(converter => converterSupports(converter, inputFormat, outputFormat));
+}
 
 /**
  * Get all supported input formats from all converters
  */
 export function getSupportedInputFormats(): string[] {
   const formats = new Set<string>();
-  
-  converters.forEach(converter => {
+
+  registry.forEach(converter => {
     converter.supportedInputFormats.forEach(format => formats.add(format));
   });
-  
+
   return Array.from(formats);
 }
 
 /**
- * Get possible output formats for a given input format
+ * Get the conversions a single converter can perform directly from a format
+ */
+function getDirectSteps(inputFormat: string): ConversionStep[] {
+  const steps: ConversionStep[] = [];
+
+  registry.forEach(converter => {
+    converter.possibleOutputFormats.forEach(outputFormat => {
+      if (converterSupports(converter, inputFormat, outputFormat)) {
+        steps.push({ converter, inputFormat, outputFormat });
+      }
+    });
+  });
+
+  return steps;
+}
+
+/**
+ * Check whether a step's output can be handed to another converter.
+ * Animations cannot be converted further frame by frame, so they are only ever final outputs.
+ */
+function canContinueFrom(step: ConversionStep): boolean {
+  return !step.converter.animatedOutputFormats?.includes(step.outputFormat);
+}
+
+/**
+ * Find the shortest chain of converters from an input format to an output format,
+ * preferring lossless intermediate formats. Returns null when the output cannot be reached.
+ */
+export function planConversion(inputFormat: string, outputFormat: string): ConversionStep[] | null {
+  // A direct conversion always wins, even for same-format conversions like pdf to pdf
+  const direct = findConverter(inputFormat, outputFormat);
+  if (direct) {
+    return [{ converter: direct, inputFormat, outputFormat }];
+  }
+
+  // Breadth-first search over formats, remembering how each format was reached
+  const reachedBy = new Map<string, ConversionStep>();
+  const visited = new Set<string>([inputFormat]);
+  const queue = [inputFormat];
+
+  while (queue.length > 0) {
+    const format = queue.shift() as string;
+    const steps = getDirectSteps(format).sort((a, b) =>
+      Number(!LOSSLESS_INTERMEDIATE_FORMATS.includes(a.outputFormat)) -
+      Number(!LOSSLESS_INTERMEDIATE_FORMATS.includes(b.outputFormat))
+    );
+
+    for (const step of steps) {
+      if (visited.has(step.outputFormat)) {
+        continue;
+      }
+
+      if (step.outputFormat === outputFormat) {
+        // Walk back to the input format to build the plan
+        const plan: ConversionStep[] = [];
+        let current: ConversionStep | undefined = step;
+        while (current) {
+          plan.unshift(current);
+          current = reachedBy.get(current.inputFormat);
+        }
+        return plan;
+      }
+
+      if (!canContinueFrom(step)) {
+        continue;
+      }
+
+      visited.add(step.outputFormat);
+      reachedBy.set(step.outputFormat, step);
+      queue.push(step.outputFormat);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Get possible output formats for a given input format, including multi-step conversions
  */
 export function getPossibleOutputFormats(inputFormat: string): string[] {
   const formats = new Set<string>();
-  
-  converters.forEach(converter => {
-    if (converter.supportedInputFormats.includes(inputFormat)) {
-      converter.possibleOutputFormats.forEach(format => formats.add(format));
+  const queue = [inputFormat];
+  const visited = new Set<string>(queue);
+
+  while (queue.length > 0) {
+    const format = queue.shift() as string;
+
+    for (const step of getDirectSteps(format)) {
+      formats.add(step.outputFormat);
+
+      if (canContinueFrom(step) && !visited.has(step.outputFormat)) {
+        visited.add(step.outputFormat);
+        queue.push(step.outputFormat);
+      }
     }
-  });
-  
+  }
+
   return Array.from(formats);
 }
 
 /**
- * Check if conversion is supported
+ * Check if conversion is supported, directly or through intermediate formats
  */
 export function isConversionSupported(inputFormat: string, outputFormat: string): boolean {
-  for (const converter of converters) {
-    if (converter.supportedInputFormats.includes(inputFormat) && 
-        converter.possibleOutputFormats.includes(outputFormat)) {
-      return true;
-    }
-  }
-  
-  return false;
+  return planConversion(inputFormat, outputFormat) !== null;
 }
 
 /**
- * Detect file type from file extension
+ * Describe every supported input format and the outputs reachable from it
  */
-export function detectFileType(filePath: string): string {
-  const extension = filePath.substring(filePath.lastIndexOf('.') + 1).toLowerCase();
-  return extension;
-} 
\ No newline at end of file
+export function getFormatCapabilities(): FormatCapability[] {
+  return getSupportedInputFormats().map(inputFormat => {
+    const inputConverter = getConverters().find(converter => converter.supportedInputFormats.includes(inputFormat));
+    const outputs: OutputCapability[] = [];
+
+    getPossibleOutputFormats(inputFormat).forEach(outputFormat => {
+      const plan = planConversion(inputFormat, outputFormat);
+      if (!plan) {
+        return;
+      }
+
+      const lastConverter = plan[plan.length - 1].converter;
+      outputs.push({
+        format: outputFormat,
+        mimeType: getMimeType(outputFormat),
+        category: getFormatCategory(outputFormat, lastConverter.category),
+        route: [inputFormat, ...plan.map(step => step.outputFormat)],
+        options: plan.map(step => step.converter.optionSchema)
+      });
+    });
+
+    return {
+      format: inputFormat,
+      mimeType: getMimeType(inputFormat),
+      category: getFormatCategory(inputFormat, inputConverter?.category || 'document'),
+      outputs
+    };
+  });
+}
+
+/**
+ * Get the lowercase extension of a file path without the dot
+ */
+export function getFileExtension(filePath: string): string {
+  return filePath.substring(filePath.lastIndexOf('.') + 1).toLowerCase();
+}
+
+/**
+ * Detect file type from the file content, falling back to the extension
+ */
+export async function detectFileType(filePath: string): Promise<string> {
+  const extension = getFileExtension(filePath);
+
+  try {
+    return resolveFileFormat(extension, await sniffFileFormat(filePath));
+  } catch (error) {
+    console.warn(`Could not read ${filePath} for type detection:`, error);
+    return extension;
+  }
+}
+
+// Register built-in converters
+registerConverter(videoConverter);
+registerConverter(imageConverter);
+registerConverter(documentConverter);
+registerConverter(audioConverter);
+registerConverter(videoImageConverter);
+registerConverter(subtitleConverter);
+registerConverter(streamingConverter);
+registerConverter(responsiveImageConverter);
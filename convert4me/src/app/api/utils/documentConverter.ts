@@ -1,12 +1,12 @@
 import { join, basename, extname } from 'path';
 import { copyFile, writeFile } from 'fs/promises';
-import { execSync } from 'child_process';
 import * as fs from 'fs';
-import { createWriteStream } from 'fs';
 import { isCommandAvailable } from '../../utils/dependencyCheck';
+import type { Converter } from './converterTypes';
+import { createZipFromImagesUsingCmd } from './imageArchive';
+import { CancellationError, runCommand, throwIfCancelled } from './cancellation';
 
-interface ConversionOptions {
-  [key: string]: unknown;
+export interface DocumentConversionOptions {
   // Image-specific options
   quality?: number;
   density?: number; // For PDF rendering quality (DPI)
@@ -20,15 +20,17 @@ interface ConversionOptions {
 export async function convertDocument(
   inputPath: string,
   outputFormat: string,
-  options: ConversionOptions = {},
-  progressCallback: (progress: number) => void = () => {}
+  options: DocumentConversionOptions = {},
+  progressCallback: (progress: number) => void = () => {},
+  jobId?: string,
+  signal?: AbortSignal,
+  outputDir: string = join(process.cwd(), 'output')
 ): Promise<string> {
   try {
     // Start progress
     progressCallback(10);
     
     const fileBaseName = basename(inputPath, extname(inputPath));
-    const outputDir = join(process.cwd(), 'output');
     
     // Ensure output directory exists
     if (!fs.existsSync(outputDir)) {
@@ -43,6 +45,13 @@ export async function convertDocument(
       return outputPath;
     }
     
+    // Word documents are rendered to PDF with LibreOffice
+    if (outputFormat === 'pdf' && inputPath.toLowerCase().endsWith('.docx')) {
+      const outputPath = await convertDocxToPdf(inputPath, outputDir, jobId, signal);
+      progressCallback(100);
+      return outputPath;
+    }
+    
     // Check if output format is an image format
     const imageFormats = ['jpg', 'jpeg', 'png', 'webp'];
     if (imageFormats.includes(outputFormat) && inputPath.toLowerCase().endsWith('.pdf')) {
@@ -52,6 +61,8 @@ export async function convertDocument(
       const density = options.density || 300; // Default DPI
       // Default to extracting all pages if not specified
       const extractAllPages = options.extractAllPages !== undefined ? options.extractAllPages : true;
+      // Quality for lossy output formats
+      const quality = options.quality || 95;
 
       // Create a temporary directory for the extracted pages
       const tempDir = join(outputDir, 'temp', Date.now().toString());
@@ -70,7 +81,7 @@ export async function convertDocument(
           
           try {
             if (isCommandAvailable('gs')) {
-              pageCount = await getPdfPageCount(inputPath);
+              pageCount = await getPdfPageCount(inputPath, jobId, signal);
               console.log(`PDF has ${pageCount} pages`);
             } else {
               console.log('Ghostscript not available for page counting, assuming single page');
@@ -79,6 +90,7 @@ export async function convertDocument(
             console.warn('Error getting page count:', error);
             // Continue with a default of 1 page
           }
+          throwIfCancelled(signal);
           
           // If multiple pages, handle multi-page extraction and create zip
           if (pageCount > 1) {
@@ -91,7 +103,10 @@ export async function convertDocument(
               outputDir,
               density,
               pageCount,
-              progressCallback
+              progressCallback,
+              quality,
+              jobId,
+              signal
             );
           } else {
             // Single page, use standard conversion
@@ -105,11 +120,14 @@ export async function convertDocument(
               density,
               progressCallback,
               1, // First page
-              1  // Last page
+              1, // Last page
+              quality,
+              jobId,
+              signal
             );
             
             if (!conversionSuccess) {
-              await createFallbackImage(finalOutputPath, outputFormat, fileBaseName);
+              await createFallbackImage(finalOutputPath, outputFormat, fileBaseName, jobId, signal);
             }
           }
         } else {
@@ -124,32 +142,39 @@ export async function convertDocument(
             density,
             progressCallback,
             1, // First page
-            1  // Last page
+            1, // Last page
+            quality,
+            jobId,
+            signal
           );
           
           if (!conversionSuccess) {
-            await createFallbackImage(finalOutputPath, outputFormat, fileBaseName);
+            await createFallbackImage(finalOutputPath, outputFormat, fileBaseName, jobId, signal);
           }
         }
         
         progressCallback(100);
         
-        // Clean up temp directory
-        try {
-          fs.rmSync(tempDir, { recursive: true, force: true });
-        } catch (cleanupError) {
-          console.error("Error cleaning up temp directory:", cleanupError);
-        }
-        
         return finalOutputPath;
       } catch (conversionError) {
+        // A cancelled job must not produce a placeholder image
+        if (conversionError instanceof CancellationError) {
+          throw conversionError;
+        }
         console.error("PDF to image conversion error:", conversionError);
         
         // Create a basic fallback image in case of conversion failure
         const fallbackPath = join(outputDir, `${fileBaseName}.${outputFormat}`);
-        await createFallbackImage(fallbackPath, outputFormat, fileBaseName);
+        await createFallbackImage(fallbackPath, outputFormat, fileBaseName, jobId, signal);
         
         return fallbackPath;
+      } finally {
+        // Clean up temp directory
+        try {
+          fs.rmSync(tempDir, { recursive: true, force: true });
+        } catch (cleanupError) {
+          console.error("Error cleaning up temp directory:", cleanupError);
+        }
       }
     }
     
@@ -161,6 +186,32 @@ export async function convertDocument(
   }
 }
 
+/**
+ * Convert a Word document to PDF using LibreOffice in headless mode
+ */
+async function convertDocxToPdf(
+  inputPath: string,
+  outputDir: string,
+  jobId?: string,
+  signal?: AbortSignal
+): Promise<string> {
+  const officeCommand = ['soffice', 'libreoffice'].find(command => isCommandAvailable(command));
+  
+  if (!officeCommand) {
+    throw new Error('LibreOffice is required to convert DOCX files but was not found');
+  }
+  
+  // LibreOffice names the output after the input file
+  await runCommand(officeCommand, ['--headless', '--convert-to', 'pdf', '--outdir', outputDir, inputPath], jobId, signal);
+  
+  const outputPath = join(outputDir, `${basename(inputPath, extname(inputPath))}.pdf`);
+  if (!fs.existsSync(outputPath)) {
+    throw new Error('LibreOffice did not produce a PDF file');
+  }
+  
+  return outputPath;
+}
+
 /**
  * Process a multi-page PDF by extracting all pages and creating a zip file
  */
@@ -172,7 +223,10 @@ async function processMultiPagePdf(
   outputDir: string,
   density: number,
   pageCount: number,
-  progressCallback: (progress: number) => void
+  progressCallback: (progress: number) => void,
+  quality: number = 95,
+  jobId?: string,
+  signal?: AbortSignal
 ): Promise<string> {
   // Create a directory for extracted images
   const extractDir = join(tempDir, 'pages');
@@ -193,7 +247,18 @@ async function processMultiPagePdf(
     if (isCommandAvailable('pdftoppm')) {
       try {
         // Extract all pages at once
-        execSync(`pdftoppm -${outputFormat === 'jpg' || outputFormat === 'jpeg' ? 'jpeg' : outputFormat} -r ${density} "${inputPath}" "${join(extractDir, fileBaseName)}"`);
+        const isJpeg = outputFormat === 'jpg' || outputFormat === 'jpeg';
+        await runCommand(
+          'pdftoppm',
+          [
+            ...(isJpeg ? ['-jpeg', '-jpegopt', `quality=${quality}`] : [`-${outputFormat}`]),
+            '-r', density.toString(),
+            inputPath,
+            join(extractDir, fileBaseName)
+          ],
+          jobId,
+          signal
+        );
         extractionSuccess = true;
       } catch (error) {
         console.warn("pdftoppm multi-page extraction failed:", error);
@@ -201,6 +266,7 @@ async function processMultiPagePdf(
     } else {
       console.log('pdftoppm not available, trying alternative conversion method');
     }
+    throwIfCancelled(signal);
     
     // If pdftoppm fails or isn't available, try ghostscript page by page
     if (!extractionSuccess && isCommandAvailable('gs')) {
@@ -221,13 +287,18 @@ async function processMultiPagePdf(
             progressCallback(Math.min(Math.round(pageProgress), endProgress));
           },
           pageNum,  // First page to extract
-          pageNum   // Last page to extract
+          pageNum,  // Last page to extract
+          quality,
+          jobId,
+          signal
         ).then(success => {
           if (!success) {
             return createFallbackImage(
               pageFile, 
               outputFormat, 
-              `${fileBaseName} (Page ${pageNum})`
+              `${fileBaseName} (Page ${pageNum})`,
+              jobId,
+              signal
             ).then(() => true);
           }
           return success;
@@ -243,7 +314,7 @@ async function processMultiPagePdf(
       for (let i = 0; i < pageCount; i++) {
         const pageNum = i + 1;
         const pageFile = join(extractDir, `${fileBaseName}-${pageNum.toString().padStart(3, '0')}.${outputFormat}`);
-        await createFallbackImage(pageFile, outputFormat, `${fileBaseName} (Page ${pageNum})`);
+        await createFallbackImage(pageFile, outputFormat, `${fileBaseName} (Page ${pageNum})`, jobId, signal);
         
         const pageProgress = startProgress + (i * progressStep) + progressStep;
         progressCallback(Math.min(Math.round(pageProgress), endProgress));
@@ -257,7 +328,7 @@ async function processMultiPagePdf(
     
     // Create zip file
     const zipFilePath = join(outputDir, `${fileBaseName}.zip`);
-    await createZipFromImagesUsingCmd(extractDir, zipFilePath, fileBaseName, outputFormat);
+    await createZipFromImagesUsingCmd(extractDir, zipFilePath, fileBaseName, outputFormat, signal);
     
     return zipFilePath;
   } catch (error) {
@@ -266,136 +337,18 @@ async function processMultiPagePdf(
   }
 }
 
-/**
- * Create a zip file from extracted images using system commands
- */
-async function createZipFromImagesUsingCmd(
-  imageDir: string,
-  zipFilePath: string,
-  fileBaseName: string,
-  format: string
-): Promise<void> {
-  // Get all image files in the directory
-  const files = fs.readdirSync(imageDir);
-  const imageFiles = files.filter(file => {
-    const ext = extname(file).toLowerCase().substring(1);
-    return file.startsWith(fileBaseName) && (ext === format || (format === 'jpg' && ext === 'jpeg') || (format === 'jpeg' && ext === 'jpg'));
-  });
-  
-  // Sort files by page number
-  imageFiles.sort((a, b) => {
-    // Extract page numbers using regex
-    const aMatch = a.match(/-(\d+)\./);
-    const bMatch = b.match(/-(\d+)\./);
-    
-    if (aMatch && bMatch) {
-      return parseInt(aMatch[1]) - parseInt(bMatch[1]);
-    }
-    return a.localeCompare(b);
-  });
-  
-  if (imageFiles.length === 0) {
-    throw new Error('No image files found to create zip');
-  }
-  
-  // Create a zip file using system zip command if available
-  if (isCommandAvailable('zip')) {
-    try {
-      // Change to the image directory and zip from there
-      const currentDir = process.cwd();
-      process.chdir(imageDir);
-      
-      // Use system zip command
-      execSync(`zip -j "${zipFilePath}" ${imageFiles.map(file => `"${file}"`).join(' ')}`);
-      
-      // Change back to original directory
-      process.chdir(currentDir);
-      return;
-    } catch (error) {
-      console.warn("System zip command failed:", error);
-    }
-  }
-  
-  // Alternative approach - use tar+gzip on unix systems
-  if ((process.platform === 'linux' || process.platform === 'darwin') && 
-      isCommandAvailable('tar') && isCommandAvailable('gzip')) {
-    try {
-      const currentDir = process.cwd();
-      process.chdir(imageDir);
-      
-      const tempTarFile = zipFilePath.replace(/\.zip$/, '.tar');
-      execSync(`tar -cf "${tempTarFile}" ${imageFiles.map(file => `"${file}"`).join(' ')}`);
-      execSync(`gzip -f "${tempTarFile}"`);
-      
-      // Rename to .zip for consistency
-      const gzipFile = `${tempTarFile}.gz`;
-      if (fs.existsSync(gzipFile)) {
-        fs.renameSync(gzipFile, zipFilePath);
-      }
-      
-      // Change back to original directory
-      process.chdir(currentDir);
-      return;
-    } catch (error) {
-      console.warn("tar/gzip archive creation failed:", error);
-    }
-  }
-  
-  // Fallback to manual approach
-  await createSimpleZip(imageDir, zipFilePath, imageFiles);
-}
-
-/**
- * Create a simple zip by combining files (fallback method)
- */
-async function createSimpleZip(
-  imageDir: string,
-  zipFilePath: string,
-  imageFiles: string[]
-): Promise<void> {
-  // This is a very simplistic approach - just concatenate files with a header
-  // This won't create a proper zip, but at least it packages all images together
-  
-  const zipStream = createWriteStream(zipFilePath);
-  
-  try {
-    // Write a simple header
-    const header = Buffer.from(`Multi-page PDF conversion - ${imageFiles.length} pages\n\n`);
-    zipStream.write(header);
-    
-    // Write each file with separator
-    for (const file of imageFiles) {
-      const filePath = join(imageDir, file);
-      const separator = Buffer.from(`\n--- Page ${file} ---\n`);
-      zipStream.write(separator);
-      
-      // Read and write the file content
-      const content = fs.readFileSync(filePath);
-      zipStream.write(content);
-    }
-    
-    // Close the stream
-    zipStream.end();
-    
-    // Wait for stream to finish
-    await new Promise<void>((resolve, reject) => {
-      zipStream.on('finish', resolve);
-      zipStream.on('error', reject);
-    });
-  } catch (error) {
-    console.error("Error creating simple zip:", error);
-    zipStream.end();
-    throw error;
-  }
-}
-
 /**
  * Get the number of pages in a PDF file
  */
-async function getPdfPageCount(pdfPath: string): Promise<number> {
+async function getPdfPageCount(pdfPath: string, jobId?: string, signal?: AbortSignal): Promise<number> {
   try {
     // Try using ghostscript to get page count
-    const output = execSync(`gs -q -dNODISPLAY -c "(${pdfPath}) (r) file runpdfbegin pdfpagecount = quit"`).toString().trim();
+    const output = (await runCommand(
+      'gs',
+      ['-q', '-dNODISPLAY', '-c', `(${pdfPath}) (r) file runpdfbegin pdfpagecount = quit`],
+      jobId,
+      signal
+    )).trim();
     const pageCount = parseInt(output);
     
     if (isNaN(pageCount)) {
@@ -423,7 +376,10 @@ async function tryPdfToImageConversion(
   density: number,
   progressCallback: (progress: number) => void,
   firstPage: number = 1,
-  lastPage: number = 1
+  lastPage: number = 1,
+  quality: number = 95,
+  jobId?: string,
+  signal?: AbortSignal
 ): Promise<boolean> {
   // First try pdftoppm from poppler-utils which is most reliable for PDF to image
   if (isCommandAvailable('pdftoppm')) {
@@ -434,9 +390,14 @@ async function tryPdfToImageConversion(
       const pngOutputBase = join(tempDir, `${fileBaseName}-png`);
       
       // Use pdftoppm with high quality settings
-      execSync(
-        `pdftoppm -png -r ${density} -aa yes -aaVector yes ` +
-        `-f ${firstPage} -l ${lastPage} "${inputPath}" "${pngOutputBase}"`
+      await runCommand(
+        'pdftoppm',
+        [
+          '-png', '-r', density.toString(), '-aa', 'yes', '-aaVector', 'yes',
+          '-f', firstPage.toString(), '-l', lastPage.toString(), inputPath, pngOutputBase
+        ],
+        jobId,
+        signal
       );
       
       // Find the generated PNG file(s)
@@ -455,7 +416,7 @@ async function tryPdfToImageConversion(
         } else if (isCommandAvailable('convert')) {
           try {
             // Use ImageMagick to convert PNG to the desired format
-            execSync(`convert "${firstPng}" -quality 95 "${outputPath}"`);
+            await runCommand('convert', [firstPng, '-quality', quality.toString(), outputPath], jobId, signal);
             
             // Verify output exists and is valid
             if (fs.existsSync(outputPath) && fs.statSync(outputPath).size > 0) {
@@ -487,15 +448,25 @@ async function tryPdfToImageConversion(
       // For JPEG output use jpeg format directly
       if (outputFormat === 'jpg' || outputFormat === 'jpeg') {
         // Use pdftoppm with direct JPEG output
-        execSync(
-          `pdftoppm -jpeg -r ${density} -aa yes -aaVector yes ` +
-          `-jpegopt quality=95 -f ${firstPage} -l ${lastPage} "${inputPath}" "${join(tempDir, fileBaseName)}"`
+        await runCommand(
+          'pdftoppm',
+          [
+            '-jpeg', '-r', density.toString(), '-aa', 'yes', '-aaVector', 'yes', '-jpegopt', `quality=${quality}`,
+            '-f', firstPage.toString(), '-l', lastPage.toString(), inputPath, join(tempDir, fileBaseName)
+          ],
+          jobId,
+          signal
         );
       } else {
         // For other formats, try using PNG
-        execSync(
-          `pdftoppm -png -r ${density} -aa yes -aaVector yes ` + 
-          `-f ${firstPage} -l ${lastPage} "${inputPath}" "${join(tempDir, fileBaseName)}"`
+        await runCommand(
+          'pdftoppm',
+          [
+            '-png', '-r', density.toString(), '-aa', 'yes', '-aaVector', 'yes',
+            '-f', firstPage.toString(), '-l', lastPage.toString(), inputPath, join(tempDir, fileBaseName)
+          ],
+          jobId,
+          signal
         );
       }
       
@@ -519,7 +490,7 @@ async function tryPdfToImageConversion(
         } else if (isCommandAvailable('convert')) {
           // Try to convert to desired format
           try {
-            execSync(`convert "${generatedFile}" "${outputPath}"`);
+            await runCommand('convert', [generatedFile, outputPath], jobId, signal);
             return true;
           } catch (error) {
             console.warn("Format conversion failed:", error);
@@ -544,29 +515,31 @@ async function tryPdfToImageConversion(
     try {
       progressCallback(50);
       
+      // Renders the page range to a file with one of Ghostscript's output devices
+      const renderWithGs = (device: string[], renderPath: string) => runCommand(
+        'gs',
+        [
+          '-dSAFER', '-dBATCH', '-dNOPAUSE', ...device, '-dTextAlphaBits=4', '-dGraphicsAlphaBits=4',
+          `-dFirstPage=${firstPage}`, `-dLastPage=${lastPage}`, `-r${density}`, `-sOutputFile=${renderPath}`, inputPath
+        ],
+        jobId,
+        signal
+      );
+      
       if (outputFormat === 'jpg' || outputFormat === 'jpeg') {
-        execSync(
-          `gs -dSAFER -dBATCH -dNOPAUSE -sDEVICE=jpeg -dJPEGQ=95 -dTextAlphaBits=4 -dGraphicsAlphaBits=4 ` +
-          `-dFirstPage=${firstPage} -dLastPage=${lastPage} -r${density} -sOutputFile="${outputPath}" "${inputPath}"`
-        );
+        await renderWithGs(['-sDEVICE=jpeg', `-dJPEGQ=${quality}`], outputPath);
         return true;
       } else if (outputFormat === 'png') {
-        execSync(
-          `gs -dSAFER -dBATCH -dNOPAUSE -sDEVICE=png16m -dTextAlphaBits=4 -dGraphicsAlphaBits=4 ` +
-          `-dFirstPage=${firstPage} -dLastPage=${lastPage} -r${density} -sOutputFile="${outputPath}" "${inputPath}"`
-        );
+        await renderWithGs(['-sDEVICE=png16m'], outputPath);
         return true;
       } else if (outputFormat === 'webp' && isCommandAvailable('convert')) {
         // For WebP, we'll generate a PNG first with Ghostscript, then convert using ImageMagick
         const tempPngPath = join(tempDir, `${fileBaseName}-gs.png`);
-        execSync(
-          `gs -dSAFER -dBATCH -dNOPAUSE -sDEVICE=png16m -dTextAlphaBits=4 -dGraphicsAlphaBits=4 ` +
-          `-dFirstPage=${firstPage} -dLastPage=${lastPage} -r${density} -sOutputFile="${tempPngPath}" "${inputPath}"`
-        );
+        await renderWithGs(['-sDEVICE=png16m'], tempPngPath);
         
         // Then convert to WebP
         try {
-          execSync(`convert "${tempPngPath}" "${outputPath}"`);
+          await runCommand('convert', [tempPngPath, outputPath], jobId, signal);
           return true;
         } catch (error) {
           console.warn("WebP conversion via ImageMagick failed:", error);
@@ -594,7 +567,12 @@ async function tryPdfToImageConversion(
       }
       
       // Extract images from specific pages
-      execSync(`pdfimages -png -f ${firstPage} -l ${lastPage} "${inputPath}" "${join(pdfImagesDir, 'img')}"`);
+      await runCommand(
+        'pdfimages',
+        ['-png', '-f', firstPage.toString(), '-l', lastPage.toString(), inputPath, join(pdfImagesDir, 'img')],
+        jobId,
+        signal
+      );
       
       // Check for extracted images
       const extractedFiles = fs.readdirSync(pdfImagesDir);
@@ -620,7 +598,7 @@ async function tryPdfToImageConversion(
           return true;
         } else if (isCommandAvailable('convert')) {
           try {
-            execSync(`convert "${largestImagePath}" "${outputPath}"`);
+            await runCommand('convert', [largestImagePath, outputPath], jobId, signal);
             return true;
           } catch (error) {
             console.warn("Image conversion failed:", error);
@@ -640,6 +618,9 @@ async function tryPdfToImageConversion(
     }
   }
   
+  // Every attempt fails once the job is cancelled, which is not a reason to fall back
+  throwIfCancelled(signal);
+  
   // All conversion attempts failed
   return false;
 }
@@ -647,7 +628,14 @@ async function tryPdfToImageConversion(
 /**
  * Create a fallback image with a basic message if all conversion methods fail
  */
-async function createFallbackImage(outputPath: string, outputFormat: string, fileBaseName: string): Promise<void> {
+async function createFallbackImage(
+  outputPath: string,
+  outputFormat: string,
+  fileBaseName: string,
+  jobId?: string,
+  signal?: AbortSignal
+): Promise<void> {
+  throwIfCancelled(signal);
   let success = false;
   
   // 1. Try using wkhtmltoimage if available
@@ -722,7 +710,7 @@ async function createFallbackImage(outputPath: string, outputFormat: string, fil
       const htmlPath = outputPath.replace(/\.[^.]+$/, '.html');
       await writeFile(htmlPath, htmlContent);
       
-      execSync(`wkhtmltoimage --quality 90 "${htmlPath}" "${outputPath}"`);
+      await runCommand('wkhtmltoimage', ['--quality', '90', htmlPath, outputPath], jobId, signal);
       
       // Verify file was created and is valid
       if (fs.existsSync(outputPath) && fs.statSync(outputPath).size > 0) {
@@ -744,7 +732,7 @@ async function createFallbackImage(outputPath: string, outputFormat: string, fil
   if (!success && isCommandAvailable('convert')) {
     try {
       // Create a visually appealing gradient image
-      execSync(`convert -size 800x1000 gradient:white-skyblue "${outputPath}"`);
+      await runCommand('convert', ['-size', '800x1000', 'gradient:white-skyblue', outputPath], jobId, signal);
       
       // Verify file was created and is valid
       if (fs.existsSync(outputPath) && fs.statSync(outputPath).size > 0) {
@@ -756,7 +744,7 @@ async function createFallbackImage(outputPath: string, outputFormat: string, fil
       // Try with an even simpler command
       try {
         // Create a solid color image as absolute fallback
-        execSync(`convert -size 800x1000 xc:white "${outputPath}"`);
+        await runCommand('convert', ['-size', '800x1000', 'xc:white', outputPath], jobId, signal);
         if (fs.existsSync(outputPath) && fs.statSync(outputPath).size > 0) {
           success = true;
         }
@@ -767,6 +755,7 @@ async function createFallbackImage(outputPath: string, outputFormat: string, fil
   }
   
   // 3. Final fallback: Create a minimal valid image file based on format
+  throwIfCancelled(signal);
   if (!success) {
     try {
       const minimalImageBytes = getMinimalValidImageBytes(outputFormat);
@@ -812,4 +801,35 @@ function getMinimalValidImageBytes(format: string): Buffer {
     // Default to PNG if format is not recognized
     return getMinimalValidImageBytes('png');
   }
-} 
\ No newline at end of file
+}
+
+export const documentConverter: Converter = {
+  id: 'document',
+  category: 'document',
+  supportedInputFormats: ['pdf', 'docx'],
+  possibleOutputFormats: ['pdf', 'jpg', 'jpeg', 'png', 'webp'],
+  // DOCX can only be rendered to PDF, images are reached through the PDF
+  supportsConversion: (inputFormat, outputFormat) => inputFormat !== 'docx' || outputFormat === 'pdf',
+  // A zip of pages cannot be converted further, so only the first page is passed on
+  intermediateOptions: { extractAllPages: false },
+  // Rendered pages hold no image metadata to keep, so there is no metadata option
+  optionSchema: {
+    quality: { type: 'integer', min: 1, max: 100, description: 'Output quality for lossy formats' },
+    density: { type: 'integer', min: 36, max: 1200, default: 300, description: 'PDF rendering density in DPI' },
+    extractAllPages: {
+      type: 'boolean',
+      default: true,
+      description: 'Extract every page as a zip instead of only the first page'
+    }
+  },
+  convert: (inputPath, outputFormat, options, context) =>
+    convertDocument(
+      inputPath,
+      outputFormat,
+      options as DocumentConversionOptions,
+      context.onProgress,
+      context.jobId,
+      context.signal,
+      context.outputDir
+    )
+};
@@ -0,0 +1,60 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import sharp from 'sharp';
+import { encodeBmp } from './bitmapCodecs';
+import { probeFile } from './fileProbe';
+import { buildPdfFromImages } from './pdfWriter';
+
+describe('probeFile', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'file-probe-'));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('reads the dimensions and color of an image', async () => {
+    const imagePath = join(dir, 'image.png');
+    await sharp({ create: { width: 40, height: 30, channels: 4, background: '#ff000080' } }).png().toFile(imagePath);
+
+    const probe = await probeFile(imagePath, 'png');
+
+    expect(probe.category).toBe('image');
+    expect(probe.image).toMatchObject({ format: 'png', width: 40, height: 30, channels: 4, hasAlpha: true, hasExif: false });
+  });
+
+  it('decodes formats sharp cannot read and reports the original format', async () => {
+    const bmpPath = join(dir, 'image.bmp');
+    await writeFile(bmpPath, encodeBmp({ data: Buffer.alloc(12 * 10 * 4, 0xff), width: 12, height: 10 }));
+
+    const probe = await probeFile(bmpPath, 'bmp');
+
+    expect(probe.image).toMatchObject({ format: 'bmp', width: 12, height: 10 });
+  });
+
+  it('reads the page count and version of a PDF', async () => {
+    const jpeg = await sharp({ create: { width: 8, height: 8, channels: 3, background: '#3366cc' } }).jpeg().toBuffer();
+    const pdfPath = join(dir, 'document.pdf');
+    await writeFile(pdfPath, buildPdfFromImages([
+      { jpeg, width: 8, height: 8 },
+      { jpeg, width: 8, height: 8 }
+    ]));
+
+    const probe = await probeFile(pdfPath, 'pdf');
+
+    expect(probe.category).toBe('document');
+    expect(probe.document).toMatchObject({ pageCount: 2, version: '1.4', encrypted: false });
+  });
+
+  it('leaves details out for formats it cannot describe', async () => {
+    const textPath = join(dir, 'notes.txt');
+    await writeFile(textPath, 'plain text');
+
+    expect(await probeFile(textPath, 'txt')).toEqual({ format: 'txt', category: 'document' });
+  });
+});
@@ -0,0 +1,244 @@
+import { open, rm } from 'fs/promises';
+import { join } from 'path';
+import { inflateSync } from 'zlib';
+import sharp from 'sharp';
+import { v4 as uuidv4 } from 'uuid';
+import type { FormatCategory } from './converterTypes';
+import { getFormatCategory } from './formats';
+import { runCommand } from './cancellation';
+import { MediaDetails, probeMediaDetails } from './mediaProbe';
+import { decodeInput } from './imageConverter';
+import { readContainerMetadata } from './imageMetadata';
+import { isCommandAvailable } from '../../utils/dependencyCheck';
+
+export interface ImageDetails {
+  format?: string;
+  width?: number;
+  height?: number;
+  // Color space as reported by libvips, e.g. srgb, cmyk or b-w
+  colorSpace?: string;
+  channels?: number;
+  // Bit depth of each channel, e.g. uchar or ushort
+  bitDepth?: string;
+  // Pixels per inch
+  density?: number;
+  hasAlpha?: boolean;
+  isProgressive?: boolean;
+  // EXIF orientation, 1-8
+  orientation?: number;
+  // Frames of an animated image
+  pages?: number;
+  // Embedded metadata blocks
+  hasIccProfile: boolean;
+  hasExif: boolean;
+  hasXmp: boolean;
+  hasIptc: boolean;
+}
+
+export interface DocumentDetails {
+  pageCount?: number;
+  version?: string;
+  pageSize?: string;
+  encrypted?: boolean;
+  // Document information such as Title, Author, Producer or CreationDate
+  metadata: Record<string, string>;
+}
+
+export interface FileProbe {
+  format: string;
+  category: FormatCategory | 'archive';
+  media?: MediaDetails;
+  image?: ImageDetails;
+  document?: DocumentDetails;
+}
+
+// Document information dictionary keys read from PDFs
+const PDF_INFO_KEYS = ['Title', 'Author', 'Subject', 'Keywords', 'Creator', 'Producer', 'CreationDate', 'ModDate'];
+
+// Bytes read from each end of a PDF without pdfinfo, where the header, trailer and information dictionary sit
+const PDF_SCAN_LENGTH = 2 * 1024 * 1024;
+
+/**
+ * Read the dimensions, color space and embedded metadata of an image
+ */
+async function probeImage(filePath: string, format: string): Promise<ImageDetails> {
+  // Formats sharp cannot read are decoded the same way as for conversions
+  const workDir = join(process.cwd(), 'output', 'temp', `probe-${uuidv4()}`);
+  try {
+    const sourcePath = await decodeInput(filePath, workDir);
+    // Decoding drops the embedded metadata, which is read from the original file instead
+    const container = sourcePath === filePath ? {} : await readContainerMetadata(filePath);
+    const metadata = { ...(await sharp(sourcePath).metadata()), ...container };
+
+    return {
+      format: sourcePath === filePath ? metadata.format : format,
+      width: metadata.width,
+      height: metadata.height,
+      colorSpace: metadata.space,
+      channels: metadata.channels,
+      bitDepth: metadata.depth,
+      density: metadata.density,
+      hasAlpha: metadata.hasAlpha,
+      isProgressive: metadata.isProgressive,
+      orientation: metadata.orientation,
+      pages: metadata.pages,
+      hasIccProfile: !!metadata.icc,
+      hasExif: !!metadata.exif,
+      hasXmp: !!metadata.xmp,
+      hasIptc: !!metadata.iptc
+    };
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Read PDF details with pdfinfo from poppler-utils
+ */
+async function probePdfWithPdfinfo(filePath: string): Promise<DocumentDetails> {
+  const output = await runCommand('pdfinfo', [filePath]);
+  const fields: Record<string, string> = {};
+
+  // Lines look like "Pages:          12"
+  for (const line of output.split('\n')) {
+    const separator = line.indexOf(':');
+    if (separator > 0) {
+      fields[line.slice(0, separator).trim()] = line.slice(separator + 1).trim();
+    }
+  }
+
+  const metadata: Record<string, string> = {};
+  PDF_INFO_KEYS.forEach(key => {
+    if (fields[key]) {
+      metadata[key] = fields[key];
+    }
+  });
+
+  return {
+    pageCount: fields.Pages ? parseInt(fields.Pages, 10) : undefined,
+    version: fields['PDF version'],
+    pageSize: fields['Page size'],
+    encrypted: fields.Encrypted ? fields.Encrypted.startsWith('yes') : undefined,
+    metadata
+  };
+}
+
+/**
+ * Decompress the object streams of a PDF, where newer writers keep most of their objects
+ */
+function inflateObjectStreams(source: string): string[] {
+  const contents: string[] = [];
+  const streamPattern = /[^d]stream\r?\n/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = streamPattern.exec(source)) !== null) {
+    // The stream dictionary sits between the object header and the stream keyword
+    const dictionary = source.slice(source.lastIndexOf(' obj', match.index), match.index);
+    if (!/\/Type\s*\/ObjStm/.test(dictionary) || !/\/FlateDecode/.test(dictionary)) {
+      continue;
+    }
+
+    const start = match.index + match[0].length;
+    const end = source.indexOf('endstream', start);
+    if (end === -1) {
+      break;
+    }
+
+    try {
+      contents.push(inflateSync(Buffer.from(source.slice(start, end), 'latin1')).toString('latin1'));
+    } catch {
+      // Damaged or differently encoded streams are skipped
+    }
+    streamPattern.lastIndex = end;
+  }
+
+  return contents;
+}
+
+/**
+ * Read the start and end of a file, or all of it when it is small
+ */
+async function readHeadAndTail(filePath: string, length: number): Promise<{ content: string; complete: boolean }> {
+  const file = await open(filePath, 'r');
+
+  try {
+    const { size } = await file.stat();
+    const complete = size <= 2 * length;
+    const head = Buffer.alloc(complete ? size : length);
+    await file.read(head, 0, head.length, 0);
+    if (complete) {
+      return { content: head.toString('latin1'), complete };
+    }
+
+    const tail = Buffer.alloc(length);
+    await file.read(tail, 0, length, size - length);
+    return { content: `${head.toString('latin1')}\n${tail.toString('latin1')}`, complete };
+  } finally {
+    await file.close();
+  }
+}
+
+/**
+ * Read PDF details straight from the file when pdfinfo is not installed.
+ * This is best effort: encrypted files and unusual encodings may leave fields empty,
+ * and only the ends of large files are read.
+ */
+async function probePdfFromSource(filePath: string): Promise<DocumentDetails> {
+  const { content: raw, complete } = await readHeadAndTail(filePath, PDF_SCAN_LENGTH);
+  const source = [raw, ...inflateObjectStreams(raw)].join('\n');
+  const metadata: Record<string, string> = {};
+
+  PDF_INFO_KEYS.forEach(key => {
+    const match = source.match(new RegExp(`/${key}\\s*\\(((?:\\\\.|[^\\\\)])*)\\)`));
+    if (match && match[1]) {
+      metadata[key] = match[1].replace(/\\(.)/g, '$1');
+    }
+  });
+
+  // The root of the page tree counts every page; without one, count the page objects if the whole file was read
+  const treeCounts = Array.from(source.matchAll(/\/Type\s*\/Pages\b[^>]*?\/Count\s+(\d+)|\/Count\s+(\d+)[^>]*?\/Type\s*\/Pages\b/g))
+    .map(match => parseInt(match[1] || match[2], 10));
+  const pageObjects = (source.match(/\/Type\s*\/Page(?![a-zA-Z])/g) || []).length;
+  const pageCount = treeCounts.length > 0 ? Math.max(...treeCounts) : complete ? pageObjects : 0;
+
+  return {
+    pageCount: pageCount > 0 ? pageCount : undefined,
+    version: raw.match(/^%PDF-(\d\.\d)/)?.[1],
+    encrypted: /\/Encrypt\b/.test(raw),
+    metadata
+  };
+}
+
+/**
+ * Read the page count and document information of a PDF
+ */
+async function probePdf(filePath: string): Promise<DocumentDetails> {
+  if (isCommandAvailable('pdfinfo')) {
+    try {
+      return await probePdfWithPdfinfo(filePath);
+    } catch (error) {
+      console.warn('pdfinfo failed, reading the PDF directly:', error);
+    }
+  }
+
+  return probePdfFromSource(filePath);
+}
+
+/**
+ * Describe an uploaded file: streams and codecs for audio and video, dimensions and color for images,
+ * pages and document information for PDFs
+ */
+export async function probeFile(filePath: string, format: string): Promise<FileProbe> {
+  const category = getFormatCategory(format, 'document');
+  const probe: FileProbe = { format, category };
+
+  if (category === 'video' || category === 'audio' || category === 'subtitle') {
+    probe.media = await probeMediaDetails(filePath);
+  } else if (category === 'image') {
+    probe.image = await probeImage(filePath, format);
+  } else if (format === 'pdf') {
+    probe.document = await probePdf(filePath);
+  }
+
+  return probe;
+}
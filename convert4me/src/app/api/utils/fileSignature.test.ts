@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { detectFormatFromBuffer, isMissingSignature, isSameFormatFamily, resolveFileFormat } from './fileSignature';
+
+/**
+ * Build an ftyp box followed by a handler box for each track type
+ */
+function isoMedia(majorBrand: string, compatibleBrands: string[], handlers: string[] = []): Buffer {
+  const brands = Buffer.from(`${majorBrand}\0\0\0\0${compatibleBrands.join('')}`, 'latin1');
+  const ftyp = Buffer.concat([Buffer.alloc(4), Buffer.from('ftyp', 'latin1'), brands]);
+  ftyp.writeUInt32BE(ftyp.length, 0);
+
+  const hdlrBoxes = handlers.map(handler => {
+    const box = Buffer.alloc(32);
+    box.writeUInt32BE(box.length, 0);
+    box.write('hdlr', 4, 'latin1');
+    box.write(handler, 16, 'latin1');
+    return box;
+  });
+
+  return Buffer.concat([ftyp, ...hdlrBoxes]);
+}
+
+describe('detectFormatFromBuffer', () => {
+  it('detects images from their magic bytes', () => {
+    expect(detectFormatFromBuffer(Buffer.from([0xFF, 0xD8, 0xFF, 0xE0]))).toBe('jpg');
+    expect(detectFormatFromBuffer(Buffer.from([0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A]))).toBe('png');
+    expect(detectFormatFromBuffer(Buffer.from('GIF89a\0\0', 'latin1'))).toBe('gif');
+    expect(detectFormatFromBuffer(Buffer.from('RIFF\0\0\0\0WEBPVP8 ', 'latin1'))).toBe('webp');
+    expect(detectFormatFromBuffer(Buffer.concat([Buffer.from('BM', 'latin1'), Buffer.alloc(12)]))).toBe('bmp');
+  });
+
+  it('detects icons without mistaking small boxes for them', () => {
+    expect(detectFormatFromBuffer(Buffer.from([0x00, 0x00, 0x01, 0x00, 0x01, 0x00]))).toBe('ico');
+    expect(detectFormatFromBuffer(Buffer.from([0x00, 0x00, 0x01, 0x00, 0x00, 0x00]))).toBeNull();
+  });
+
+  it('tells ISO base media files apart by brand', () => {
+    expect(detectFormatFromBuffer(isoMedia('qt  ', ['qt  ']))).toBe('mov');
+    expect(detectFormatFromBuffer(isoMedia('M4A ', ['M4A ', 'isom']))).toBe('m4a');
+    expect(detectFormatFromBuffer(isoMedia('mif1', ['mif1', 'avif']))).toBe('avif');
+    expect(detectFormatFromBuffer(isoMedia('mif1', ['mif1', 'heic']))).toBe('heic');
+  });
+
+  it('tells audio-only MP4 files apart from videos by their tracks', () => {
+    expect(detectFormatFromBuffer(isoMedia('isom', ['isom', 'mp42'], ['soun']))).toBe('m4a');
+    expect(detectFormatFromBuffer(isoMedia('mp42', ['isom', 'mp42'], ['vide', 'soun']))).toBe('mp4');
+    expect(detectFormatFromBuffer(isoMedia('isom', ['isom']))).toBe('mp4');
+  });
+
+  it('detects documents and office archives', () => {
+    expect(detectFormatFromBuffer(Buffer.from('%PDF-1.4\n', 'latin1'))).toBe('pdf');
+    expect(detectFormatFromBuffer(Buffer.from('PK\x03\x04....word/document.xml', 'latin1'))).toBe('docx');
+    expect(detectFormatFromBuffer(Buffer.from('PK\x03\x04....readme.txt', 'latin1'))).toBe('zip');
+  });
+
+  it('detects subtitles, including ones with a byte order mark', () => {
+    expect(detectFormatFromBuffer(Buffer.from('\uFEFFWEBVTT\n\n'))).toBe('vtt');
+    expect(detectFormatFromBuffer(Buffer.from('1\n00:00:01,000 --> 00:00:02,000\nHello\n'))).toBe('srt');
+    expect(detectFormatFromBuffer(Buffer.from('[Script Info]\nTitle: x\n'))).toBe('ass');
+  });
+
+  it('returns null for unknown content', () => {
+    expect(detectFormatFromBuffer(Buffer.from('just some text'))).toBeNull();
+    expect(detectFormatFromBuffer(Buffer.from('ab'))).toBeNull();
+  });
+});
+
+describe('resolveFileFormat', () => {
+  it('keeps the extension when it matches the content family', () => {
+    expect(resolveFileFormat('jpeg', 'jpg')).toBe('jpeg');
+    expect(resolveFileFormat('m4a', 'mp4')).toBe('m4a');
+    expect(isSameFormatFamily('mkv', 'webm')).toBe(true);
+  });
+
+  it('prefers the content when the extension is wrong or the content unknown', () => {
+    expect(resolveFileFormat('jpg', 'png')).toBe('png');
+    expect(resolveFileFormat('mp3', null)).toBe('mp3');
+  });
+});
+
+describe('isMissingSignature', () => {
+  it('flags unrecognized content named as a format with a signature', () => {
+    expect(isMissingSignature('png', null)).toBe(true);
+    expect(isMissingSignature('mp4', null)).toBe(true);
+  });
+
+  it('accepts formats without a reliable signature and recognized content', () => {
+    expect(isMissingSignature('mp3', null)).toBe(false);
+    expect(isMissingSignature('srt', null)).toBe(false);
+    expect(isMissingSignature('png', 'jpg')).toBe(false);
+  });
+});
@@ -0,0 +1,276 @@
+import { open } from 'fs/promises';
+
+// Number of bytes read from the start of a file for content sniffing.
+// Large enough to find the OOXML part names and the Matroska DocType.
+const SNIFF_LENGTH = 64 * 1024;
+
+// Formats that share a container, so an extension from the same group is not a mismatch
+const FORMAT_FAMILIES = [
+  ['jpg', 'jpeg'],
+  ['tif', 'tiff'],
+  ['mp4', 'mov', 'm4v', 'm4a'],
+  ['mkv', 'webm'],
+  ['wmv', 'wma'],
+  ['heic', 'heif'],
+  ['ass', 'ssa']
+];
+
+// Formats whose files always start with a signature detectFormatFromBuffer knows.
+// MPEG audio and text formats are left out, as they may start with padding, comments or other text.
+const SIGNED_FORMATS = [
+  'jpg', 'jpeg', 'png', 'gif', 'tif', 'tiff', 'bmp', 'ico', 'webp', 'avif', 'heic', 'heif',
+  'wav', 'avi', 'mp4', 'mov', 'm4v', 'm4a', 'mkv', 'webm', 'wmv', 'wma', 'flac', 'ogg', 'opus',
+  'pdf', 'docx', 'xlsx', 'pptx', 'zip'
+];
+
+// ISO base media brands, checked against the major brand at offset 8
+const FTYP_BRANDS: Record<string, string> = {
+  avif: 'avif',
+  avis: 'avif',
+  heic: 'heic',
+  heix: 'heic',
+  heim: 'heic',
+  heis: 'heic',
+  hevc: 'heic',
+  hevx: 'heic',
+  mif1: 'heif',
+  msf1: 'heif',
+  'qt  ': 'mov',
+  'M4A ': 'm4a',
+  'M4B ': 'm4a',
+  'M4V ': 'm4v'
+};
+
+/**
+ * Check whether the buffer starts with the given bytes at an offset
+ */
+function startsWith(buffer: Buffer, bytes: number[], offset = 0): boolean {
+  if (buffer.length < offset + bytes.length) {
+    return false;
+  }
+
+  return bytes.every((byte, index) => buffer[offset + index] === byte);
+}
+
+/**
+ * Read an ASCII string from the buffer
+ */
+function ascii(buffer: Buffer, start: number, end: number): string {
+  return buffer.toString('latin1', start, Math.min(end, buffer.length));
+}
+
+/**
+ * Read the handler types of the tracks found in the buffer, e.g. vide or soun
+ */
+function findTrackHandlers(buffer: Buffer): string[] {
+  const handlers: string[] = [];
+  let index = buffer.indexOf('hdlr');
+
+  // The handler type follows the box version, flags and a reserved field
+  while (index !== -1 && index + 16 <= buffer.length) {
+    handlers.push(ascii(buffer, index + 12, index + 16));
+    index = buffer.indexOf('hdlr', index + 4);
+  }
+
+  return handlers;
+}
+
+/**
+ * Identify an ISO base media file (MP4, MOV, AVIF, HEIC...) from its ftyp box
+ */
+function detectFtyp(buffer: Buffer): string {
+  const majorBrand = ascii(buffer, 8, 12);
+  const boxSize = buffer.readUInt32BE(0);
+  const compatibleBrands = ascii(buffer, 16, Math.max(16, boxSize));
+
+  // Generic image brands are refined by the compatible brands list
+  if (majorBrand === 'mif1' || majorBrand === 'msf1') {
+    if (compatibleBrands.includes('avif') || compatibleBrands.includes('avis')) {
+      return 'avif';
+    }
+    if (compatibleBrands.includes('heic') || compatibleBrands.includes('heix')) {
+      return 'heic';
+    }
+  }
+
+  if (FTYP_BRANDS[majorBrand]) {
+    return FTYP_BRANDS[majorBrand];
+  }
+
+  // Generic brands such as isom and mp42 are used for audio-only files too.
+  // Their tracks tell them apart when the movie box is near the start; otherwise the m4a extension is kept.
+  const handlers = findTrackHandlers(buffer);
+  return handlers.includes('soun') && !handlers.includes('vide') ? 'm4a' : 'mp4';
+}
+
+/**
+ * Identify a ZIP archive, telling OOXML documents apart from plain archives
+ */
+function detectZip(buffer: Buffer): string {
+  const content = ascii(buffer, 0, buffer.length);
+
+  if (content.includes('word/')) {
+    return 'docx';
+  }
+  if (content.includes('xl/')) {
+    return 'xlsx';
+  }
+  if (content.includes('ppt/')) {
+    return 'pptx';
+  }
+
+  return 'zip';
+}
+
+/**
+ * Detect a file format from the leading bytes of its content
+ */
+export function detectFormatFromBuffer(buffer: Buffer): string | null {
+  if (buffer.length < 4) {
+    return null;
+  }
+
+  // Images
+  if (startsWith(buffer, [0xFF, 0xD8, 0xFF])) {
+    return 'jpg';
+  }
+  if (startsWith(buffer, [0x89, 0x50, 0x4E, 0x47, 0x0D, 0x0A, 0x1A, 0x0A])) {
+    return 'png';
+  }
+  if (ascii(buffer, 0, 6) === 'GIF87a' || ascii(buffer, 0, 6) === 'GIF89a') {
+    return 'gif';
+  }
+  if (startsWith(buffer, [0x49, 0x49, 0x2A, 0x00]) || startsWith(buffer, [0x4D, 0x4D, 0x00, 0x2A])) {
+    return 'tiff';
+  }
+  if (ascii(buffer, 0, 2) === 'BM' && buffer.length >= 14) {
+    return 'bmp';
+  }
+
+  // RIFF containers
+  if (ascii(buffer, 0, 4) === 'RIFF') {
+    const riffType = ascii(buffer, 8, 12);
+    if (riffType === 'WEBP') {
+      return 'webp';
+    }
+    if (riffType === 'WAVE') {
+      return 'wav';
+    }
+    if (riffType === 'AVI ') {
+      return 'avi';
+    }
+    return null;
+  }
+
+  // ISO base media (MP4, MOV, M4A, AVIF, HEIC)
+  if (ascii(buffer, 4, 8) === 'ftyp') {
+    return detectFtyp(buffer);
+  }
+
+  // Matroska and WebM share the EBML header, the DocType tells them apart
+  if (startsWith(buffer, [0x1A, 0x45, 0xDF, 0xA3])) {
+    return ascii(buffer, 0, 64).includes('webm') ? 'webm' : 'mkv';
+  }
+
+  // ASF container (WMV/WMA), the extension decides between audio and video
+  if (startsWith(buffer, [0x30, 0x26, 0xB2, 0x75, 0x8E, 0x66, 0xCF, 0x11])) {
+    return 'wmv';
+  }
+
+  // ICO directory header, checked after ftyp since small boxes share the prefix
+  if (startsWith(buffer, [0x00, 0x00, 0x01, 0x00]) && buffer.length >= 6 && buffer.readUInt16LE(4) > 0) {
+    return 'ico';
+  }
+
+  // Documents
+  if (ascii(buffer, 0, 1024).includes('%PDF-')) {
+    return 'pdf';
+  }
+  if (startsWith(buffer, [0x50, 0x4B, 0x03, 0x04])) {
+    return detectZip(buffer);
+  }
+
+  // Audio
+  if (ascii(buffer, 0, 4) === 'fLaC') {
+    return 'flac';
+  }
+  if (ascii(buffer, 0, 4) === 'OggS') {
+    return ascii(buffer, 0, 64).includes('OpusHead') ? 'opus' : 'ogg';
+  }
+  if (ascii(buffer, 0, 3) === 'ID3') {
+    return 'mp3';
+  }
+  if (buffer[0] === 0xFF && (buffer[1] & 0xF6) === 0xF0) {
+    // ADTS frame header
+    return 'aac';
+  }
+  if (buffer[0] === 0xFF && (buffer[1] & 0xE0) === 0xE0 && (buffer[1] & 0x06) !== 0) {
+    // MPEG audio frame header
+    return 'mp3';
+  }
+
+  // Text based formats
+  const text = ascii(buffer, 0, 1024).trimStart();
+  if (text.startsWith('<svg') || (text.startsWith('<?xml') && text.includes('<svg'))) {
+    return 'svg';
+  }
+
+  // Subtitles, which may start with a UTF-8 byte order mark
+  const subtitle = buffer.toString('utf8', 0, 1024).replace(/^\uFEFF/, '').trimStart();
+  if (subtitle.startsWith('WEBVTT')) {
+    return 'vtt';
+  }
+  if (subtitle.startsWith('[Script Info]')) {
+    return 'ass';
+  }
+  if (/^\d+\s*\r?\n\d{1,2}:\d{2}:\d{2}[,.]\d{3}\s*-->/.test(subtitle)) {
+    return 'srt';
+  }
+
+  return null;
+}
+
+/**
+ * Detect a file format by reading the file's leading bytes
+ */
+export async function sniffFileFormat(filePath: string): Promise<string | null> {
+  const handle = await open(filePath, 'r');
+
+  try {
+    const buffer = Buffer.alloc(SNIFF_LENGTH);
+    const { bytesRead } = await handle.read(buffer, 0, SNIFF_LENGTH, 0);
+    return detectFormatFromBuffer(buffer.subarray(0, bytesRead));
+  } finally {
+    await handle.close();
+  }
+}
+
+/**
+ * Check whether two format names describe the same container
+ */
+export function isSameFormatFamily(a: string, b: string): boolean {
+  if (a === b) {
+    return true;
+  }
+
+  return FORMAT_FAMILIES.some(family => family.includes(a) && family.includes(b));
+}
+
+/**
+ * Check whether content that matched no signature contradicts the declared extension
+ */
+export function isMissingSignature(extension: string, detectedFormat: string | null): boolean {
+  return !detectedFormat && SIGNED_FORMATS.includes(extension);
+}
+
+/**
+ * Decide which format to use given the declared extension and the sniffed content.
+ * The extension is kept when it agrees with the content, otherwise the content wins.
+ */
+export function resolveFileFormat(extension: string, detectedFormat: string | null): string {
+  if (!detectedFormat || isSameFormatFamily(extension, detectedFormat)) {
+    return extension;
+  }
+
+  return detectedFormat;
+}
@@ -0,0 +1,73 @@
+import type { FormatCategory } from './converterTypes';
+
+export interface FormatInfo {
+  mimeType: string;
+  category: FormatCategory | 'archive';
+}
+
+// MIME type and category for every format the converters read or write
+const FORMAT_INFO: Record<string, FormatInfo> = {
+  // Video formats
+  mp4: { mimeType: 'video/mp4', category: 'video' },
+  avi: { mimeType: 'video/x-msvideo', category: 'video' },
+  mov: { mimeType: 'video/quicktime', category: 'video' },
+  webm: { mimeType: 'video/webm', category: 'video' },
+  mkv: { mimeType: 'video/x-matroska', category: 'video' },
+  wmv: { mimeType: 'video/x-ms-wmv', category: 'video' },
+
+  // Image formats
+  jpg: { mimeType: 'image/jpeg', category: 'image' },
+  jpeg: { mimeType: 'image/jpeg', category: 'image' },
+  png: { mimeType: 'image/png', category: 'image' },
+  gif: { mimeType: 'image/gif', category: 'image' },
+  webp: { mimeType: 'image/webp', category: 'image' },
+  tiff: { mimeType: 'image/tiff', category: 'image' },
+  avif: { mimeType: 'image/avif', category: 'image' },
+  heic: { mimeType: 'image/heic', category: 'image' },
+  heif: { mimeType: 'image/heif', category: 'image' },
+  svg: { mimeType: 'image/svg+xml', category: 'image' },
+  bmp: { mimeType: 'image/bmp', category: 'image' },
+  ico: { mimeType: 'image/x-icon', category: 'image' },
+
+  // Document formats
+  pdf: { mimeType: 'application/pdf', category: 'document' },
+  docx: { mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document', category: 'document' },
+
+  // Audio formats
+  mp3: { mimeType: 'audio/mpeg', category: 'audio' },
+  wav: { mimeType: 'audio/wav', category: 'audio' },
+  flac: { mimeType: 'audio/flac', category: 'audio' },
+  ogg: { mimeType: 'audio/ogg', category: 'audio' },
+  opus: { mimeType: 'audio/opus', category: 'audio' },
+  aac: { mimeType: 'audio/aac', category: 'audio' },
+  m4a: { mimeType: 'audio/mp4', category: 'audio' },
+  wma: { mimeType: 'audio/x-ms-wma', category: 'audio' },
+
+  // Subtitle formats
+  srt: { mimeType: 'application/x-subrip', category: 'subtitle' },
+  vtt: { mimeType: 'text/vtt', category: 'subtitle' },
+  ass: { mimeType: 'text/x-ssa', category: 'subtitle' },
+  ssa: { mimeType: 'text/x-ssa', category: 'subtitle' },
+
+  // Archives produced by multi-file conversions
+  zip: { mimeType: 'application/zip', category: 'archive' },
+  // Streaming packages are zips of playlists and segments
+  hls: { mimeType: 'application/zip', category: 'archive' },
+  dash: { mimeType: 'application/zip', category: 'archive' },
+  // Responsive image sets are zips of images with a manifest and HTML snippet
+  srcset: { mimeType: 'application/zip', category: 'archive' }
+};
+
+/**
+ * Get the MIME type for a format
+ */
+export function getMimeType(format: string): string {
+  return FORMAT_INFO[format]?.mimeType || 'application/octet-stream';
+}
+
+/**
+ * Get the category for a format, falling back to the category of the converter handling it
+ */
+export function getFormatCategory(format: string, fallback: FormatCategory): FormatCategory | 'archive' {
+  return FORMAT_INFO[format]?.category || fallback;
+}
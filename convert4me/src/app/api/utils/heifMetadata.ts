@@ -0,0 +1,280 @@
+// Reading the EXIF, XMP and ICC metadata of HEIF files (HEIC, AVIF), which are lost when the pixels are decoded
+
+/**
+ * Metadata blocks of a HEIF file, in the form sharp reports them for other formats
+ */
+export interface HeifMetadata {
+  // EXIF data starting with the Exif\0\0 header
+  exif?: Buffer;
+  xmp?: Buffer;
+  icc?: Buffer;
+}
+
+interface Box {
+  type: string;
+  // Start and end of the box's content, after its header
+  start: number;
+  end: number;
+}
+
+interface ItemLocation {
+  // 0 reads the extents from the file, 1 from the idat box
+  constructionMethod: number;
+  baseOffset: number;
+  extents: { offset: number; length: number }[];
+}
+
+const EXIF_HEADER = Buffer.from('Exif\0\0', 'latin1');
+
+// Content type of items holding an XMP packet
+const XMP_CONTENT_TYPE = 'application/rdf+xml';
+
+/**
+ * Read an unsigned big-endian integer of 0, 4 or 8 bytes, as iloc stores its offsets and lengths
+ */
+function readSized(buffer: Buffer, offset: number, size: number): number {
+  if (size === 0) {
+    return 0;
+  }
+  return size === 8 ? Number(buffer.readBigUInt64BE(offset)) : buffer.readUIntBE(offset, size);
+}
+
+/**
+ * List the boxes between two offsets: a 4 byte size, a type, and a 64 bit size when the first one is 1
+ */
+function readBoxes(buffer: Buffer, start: number, end: number): Box[] {
+  const boxes: Box[] = [];
+  let offset = start;
+
+  while (offset + 8 <= end) {
+    let size = buffer.readUInt32BE(offset);
+    const type = buffer.toString('latin1', offset + 4, offset + 8);
+    let headerSize = 8;
+
+    if (size === 1 && offset + 16 <= end) {
+      size = Number(buffer.readBigUInt64BE(offset + 8));
+      headerSize = 16;
+    } else if (size === 0) {
+      // The last box runs to the end
+      size = end - offset;
+    }
+    if (size < headerSize || offset + size > end) {
+      break;
+    }
+
+    boxes.push({ type, start: offset + headerSize, end: offset + size });
+    offset += size;
+  }
+
+  return boxes;
+}
+
+/**
+ * Read a null-terminated string, returning it with the offset after the terminator
+ */
+function readString(buffer: Buffer, offset: number, end: number): [string, number] {
+  const terminator = buffer.indexOf(0, offset);
+  const stop = terminator === -1 || terminator > end ? end : terminator;
+  return [buffer.toString('utf8', offset, stop), stop + 1];
+}
+
+/**
+ * Read the item types and MIME content types of the item information box
+ */
+function readItemInfo(buffer: Buffer, box: Box): Map<number, { type: string; contentType?: string }> {
+  const items = new Map<number, { type: string; contentType?: string }>();
+  const version = buffer[box.start];
+  const entriesStart = box.start + 4 + (version === 0 ? 2 : 4);
+
+  for (const entry of readBoxes(buffer, entriesStart, box.end)) {
+    const entryVersion = buffer[entry.start];
+    // Versions 0 and 1 carry no item type
+    if (entry.type !== 'infe' || entryVersion < 2) {
+      continue;
+    }
+
+    let offset = entry.start + 4;
+    const id = entryVersion === 2 ? buffer.readUInt16BE(offset) : buffer.readUInt32BE(offset);
+    offset += (entryVersion === 2 ? 2 : 4) + 2;
+    const type = buffer.toString('latin1', offset, offset + 4);
+    offset += 4;
+
+    const [, afterName] = readString(buffer, offset, entry.end);
+    const contentType = type === 'mime' && afterName < entry.end ? readString(buffer, afterName, entry.end)[0] : undefined;
+    items.set(id, { type, contentType });
+  }
+
+  return items;
+}
+
+/**
+ * Read where each item's data lies
+ */
+function readItemLocations(buffer: Buffer, box: Box): Map<number, ItemLocation> {
+  const locations = new Map<number, ItemLocation>();
+  const version = buffer[box.start];
+  let offset = box.start + 4;
+
+  const offsetSize = buffer[offset] >> 4;
+  const lengthSize = buffer[offset] & 0x0f;
+  const baseOffsetSize = buffer[offset + 1] >> 4;
+  const indexSize = version > 0 ? buffer[offset + 1] & 0x0f : 0;
+  offset += 2;
+
+  const itemCount = version < 2 ? buffer.readUInt16BE(offset) : buffer.readUInt32BE(offset);
+  offset += version < 2 ? 2 : 4;
+
+  for (let index = 0; index < itemCount && offset < box.end; index++) {
+    const id = version < 2 ? buffer.readUInt16BE(offset) : buffer.readUInt32BE(offset);
+    offset += version < 2 ? 2 : 4;
+    const constructionMethod = version > 0 ? buffer.readUInt16BE(offset) & 0x0f : 0;
+    offset += (version > 0 ? 2 : 0) + 2;
+    const baseOffset = readSized(buffer, offset, baseOffsetSize);
+    offset += baseOffsetSize;
+
+    const extentCount = buffer.readUInt16BE(offset);
+    offset += 2;
+    const extents: { offset: number; length: number }[] = [];
+    for (let extent = 0; extent < extentCount; extent++) {
+      offset += indexSize;
+      extents.push({
+        offset: readSized(buffer, offset, offsetSize),
+        length: readSized(buffer, offset + offsetSize, lengthSize)
+      });
+      offset += offsetSize + lengthSize;
+    }
+
+    locations.set(id, { constructionMethod, baseOffset, extents });
+  }
+
+  return locations;
+}
+
+/**
+ * Join the extents of an item. A zero length extent runs to the end of the file or idat box.
+ */
+function readItemData(buffer: Buffer, location: ItemLocation, idat?: Box): Buffer | undefined {
+  // Method 2 points into other items, which metadata items do not use
+  if (location.constructionMethod > 1 || (location.constructionMethod === 1 && !idat)) {
+    return undefined;
+  }
+  const [sourceStart, sourceEnd] = location.constructionMethod === 1 && idat
+    ? [idat.start, idat.end]
+    : [0, buffer.length];
+
+  const parts: Buffer[] = [];
+  for (const extent of location.extents) {
+    const start = sourceStart + location.baseOffset + extent.offset;
+    const end = extent.length ? start + extent.length : sourceEnd;
+    if (end > sourceEnd) {
+      return undefined;
+    }
+    parts.push(buffer.subarray(start, end));
+  }
+
+  return Buffer.concat(parts);
+}
+
+/**
+ * Find the ICC profile among the properties associated with the primary item, or any profile when the
+ * associations cannot be read
+ */
+function readIccProfile(buffer: Buffer, properties: Box | undefined, primaryItem?: number): Buffer | undefined {
+  if (!properties) {
+    return undefined;
+  }
+
+  const children = readBoxes(buffer, properties.start, properties.end);
+  const container = children.find(child => child.type === 'ipco');
+  if (!container) {
+    return undefined;
+  }
+
+  // Profiles are colr boxes of type prof or rICC; nclx boxes only name a color space
+  const propertyBoxes = readBoxes(buffer, container.start, container.end);
+  const isProfile = (box?: Box) => box?.type === 'colr' &&
+    ['prof', 'rICC'].includes(buffer.toString('latin1', box.start, box.start + 4));
+
+  const associations = children.find(child => child.type === 'ipma');
+  let candidates = propertyBoxes;
+  if (associations && primaryItem !== undefined) {
+    const version = buffer[associations.start];
+    const largeIndexes = (buffer[associations.start + 3] & 1) === 1;
+    let offset = associations.start + 4;
+    const entryCount = buffer.readUInt32BE(offset);
+    offset += 4;
+
+    for (let entry = 0; entry < entryCount && offset < associations.end; entry++) {
+      const id = version < 1 ? buffer.readUInt16BE(offset) : buffer.readUInt32BE(offset);
+      offset += version < 1 ? 2 : 4;
+      const count = buffer[offset];
+      offset += 1;
+
+      // Indexes count from 1, the top bit marks the property as essential
+      const indexes: number[] = [];
+      for (let association = 0; association < count; association++) {
+        indexes.push(largeIndexes ? buffer.readUInt16BE(offset) & 0x7fff : buffer[offset] & 0x7f);
+        offset += largeIndexes ? 2 : 1;
+      }
+      if (id === primaryItem) {
+        candidates = indexes.map(index => propertyBoxes[index - 1]).filter(Boolean);
+        break;
+      }
+    }
+  }
+
+  const profile = candidates.find(isProfile);
+  return profile ? Buffer.from(buffer.subarray(profile.start + 4, profile.end)) : undefined;
+}
+
+/**
+ * Read the EXIF and XMP items and the ICC profile of a HEIF file.
+ * Damaged or unusual files give whatever could be read rather than an error.
+ */
+export function readHeifMetadata(buffer: Buffer): HeifMetadata {
+  const meta = readBoxes(buffer, 0, buffer.length).find(box => box.type === 'meta');
+  if (!meta) {
+    return {};
+  }
+
+  try {
+    // meta is a full box: its children follow the version and flags
+    const children = readBoxes(buffer, meta.start + 4, meta.end);
+    const find = (type: string) => children.find(child => child.type === type);
+
+    const primary = find('pitm');
+    const primaryItem = primary
+      ? (buffer[primary.start] === 0 ? buffer.readUInt16BE(primary.start + 4) : buffer.readUInt32BE(primary.start + 4))
+      : undefined;
+    const itemInfo = find('iinf');
+    const itemLocations = find('iloc');
+    const items = itemInfo ? readItemInfo(buffer, itemInfo) : new Map<number, { type: string; contentType?: string }>();
+    const locations = itemLocations ? readItemLocations(buffer, itemLocations) : new Map<number, ItemLocation>();
+
+    const metadata: HeifMetadata = { icc: readIccProfile(buffer, find('iprp'), primaryItem) };
+
+    for (const [id, item] of items) {
+      const location = locations.get(id);
+      const data = location ? readItemData(buffer, location, find('idat')) : undefined;
+      if (!data) {
+        continue;
+      }
+
+      if (item.type === 'Exif' && !metadata.exif && data.length > 4) {
+        // The data starts with the offset of the TIFF header, which usually follows an Exif\0\0 header
+        const tiffStart = 4 + data.readUInt32BE(0);
+        if (tiffStart < data.length) {
+          metadata.exif = Buffer.concat([EXIF_HEADER, data.subarray(tiffStart)]);
+        }
+      } else if (item.type === 'mime' && item.contentType === XMP_CONTENT_TYPE && !metadata.xmp) {
+        metadata.xmp = data;
+      }
+    }
+
+    return metadata;
+  } catch (error) {
+    // Reads past the end of a truncated box
+    console.warn('Could not read HEIF metadata:', error);
+    return {};
+  }
+}
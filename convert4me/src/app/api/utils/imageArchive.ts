@@ -0,0 +1,157 @@
+import { join, extname } from 'path';
+import * as fs from 'fs';
+import { createWriteStream } from 'fs';
+import { isCommandAvailable } from '../../utils/dependencyCheck';
+import { runCommand, throwIfCancelled } from './cancellation';
+
+/**
+ * Create a zip file from numbered images (e.g. name-001.png) using system commands
+ */
+export async function createZipFromImagesUsingCmd(
+  imageDir: string,
+  zipFilePath: string,
+  fileBaseName: string,
+  format: string,
+  signal?: AbortSignal
+): Promise<void> {
+  // Get all image files in the directory
+  const files = fs.readdirSync(imageDir);
+  const imageFiles = files.filter(file => {
+    const ext = extname(file).toLowerCase().substring(1);
+    return file.startsWith(fileBaseName) && (ext === format || (format === 'jpg' && ext === 'jpeg') || (format === 'jpeg' && ext === 'jpg'));
+  });
+  
+  // Sort files by page or frame number
+  imageFiles.sort((a, b) => {
+    // Extract page numbers using regex
+    const aMatch = a.match(/-(\d+)\./);
+    const bMatch = b.match(/-(\d+)\./);
+    
+    if (aMatch && bMatch) {
+      return parseInt(aMatch[1]) - parseInt(bMatch[1]);
+    }
+    return a.localeCompare(b);
+  });
+  
+  if (imageFiles.length === 0) {
+    throw new Error('No image files found to create zip');
+  }
+  
+  // Create a zip file using system zip command if available
+  if (isCommandAvailable('zip')) {
+    try {
+      // Zip from the image directory so the archive holds plain file names
+      await runCommand('zip', ['-j', zipFilePath, ...imageFiles], undefined, signal, imageDir);
+      return;
+    } catch (error) {
+      console.warn("System zip command failed:", error);
+    }
+  }
+  
+  // Alternative approach - use tar+gzip on unix systems
+  if ((process.platform === 'linux' || process.platform === 'darwin') && 
+      isCommandAvailable('tar') && isCommandAvailable('gzip')) {
+    try {
+      const tempTarFile = zipFilePath.replace(/\.zip$/, '.tar');
+      await runCommand('tar', ['-cf', tempTarFile, ...imageFiles], undefined, signal, imageDir);
+      await runCommand('gzip', ['-f', tempTarFile], undefined, signal);
+      
+      // Rename to .zip for consistency
+      const gzipFile = `${tempTarFile}.gz`;
+      if (fs.existsSync(gzipFile)) {
+        fs.renameSync(gzipFile, zipFilePath);
+      }
+      return;
+    } catch (error) {
+      console.warn("tar/gzip archive creation failed:", error);
+    }
+  }
+  
+  // Fallback to manual approach
+  throwIfCancelled(signal);
+  await createSimpleZip(imageDir, zipFilePath, imageFiles);
+}
+
+/**
+ * Create a zip of a directory and all its subdirectories, with paths relative to the directory
+ */
+export async function createZipFromDirectory(sourceDir: string, zipFilePath: string, signal?: AbortSignal): Promise<void> {
+  // zip adds to an existing archive instead of replacing it
+  if (fs.existsSync(zipFilePath)) {
+    fs.unlinkSync(zipFilePath);
+  }
+
+  if (isCommandAvailable('zip')) {
+    try {
+      await runCommand('zip', ['-r', '-q', zipFilePath, '.'], undefined, signal, sourceDir);
+      return;
+    } catch (error) {
+      console.warn("System zip command failed:", error);
+    }
+  }
+
+  // Alternative approach - use tar+gzip on unix systems
+  if ((process.platform === 'linux' || process.platform === 'darwin') &&
+      isCommandAvailable('tar') && isCommandAvailable('gzip')) {
+    try {
+      const tempTarFile = zipFilePath.replace(/\.zip$/, '.tar');
+      await runCommand('tar', ['-cf', tempTarFile, '.'], undefined, signal, sourceDir);
+      await runCommand('gzip', ['-f', tempTarFile], undefined, signal);
+
+      // Rename to .zip for consistency
+      fs.renameSync(`${tempTarFile}.gz`, zipFilePath);
+      return;
+    } catch (error) {
+      console.warn("tar/gzip archive creation failed:", error);
+    }
+  }
+
+  throwIfCancelled(signal);
+
+  // Nested folders cannot be flattened like numbered images, so there is no manual fallback
+  throw new Error('No archiving tool (zip or tar) is available to package the output');
+}
+
+/**
+ * Create a simple zip by combining files (fallback method)
+ */
+async function createSimpleZip(
+  imageDir: string,
+  zipFilePath: string,
+  imageFiles: string[]
+): Promise<void> {
+  // This is a very simplistic approach - just concatenate files with a header
+  // This won't create a proper zip, but at least it packages all images together
+  
+  const zipStream = createWriteStream(zipFilePath);
+  
+  try {
+    // Write a simple header
+    const header = Buffer.from(`${imageFiles.length} images\n\n`);
+    zipStream.write(header);
+    
+    // Write each file with separator
+    for (const file of imageFiles) {
+      const filePath = join(imageDir, file);
+      const separator = Buffer.from(`\n--- ${file} ---\n`);
+      zipStream.write(separator);
+      
+      // Read and write the file content
+      const content = fs.readFileSync(filePath);
+      zipStream.write(content);
+    }
+    
+    // Close the stream
+    zipStream.end();
+    
+    // Wait for stream to finish
+    await new Promise<void>((resolve, reject) => {
+      zipStream.on('finish', resolve);
+      zipStream.on('error', reject);
+    });
+  } catch (error) {
+    console.error("Error creating simple zip:", error);
+    zipStream.end();
+    throw error;
+  }
+}
@@ -0,0 +1,53 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { mkdtemp, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import sharp from 'sharp';
+import { convertImage, imageConverter } from './imageConverter';
+
+describe('imageConverter.validate', () => {
+  const validate = (options: Record<string, unknown>, inputFormat: string, outputFormat: string) =>
+    imageConverter.validate?.(options, inputFormat, outputFormat);
+
+  it('keeps animations only for formats that can hold them', () => {
+    expect(validate({ mode: 'animation' }, 'gif', 'webp')).toEqual({});
+    expect(validate({ mode: 'animation' }, 'gif', 'png')).toEqual({ mode: 'Animations can only be written as gif or webp' });
+    expect(validate({ mode: 'frames' }, 'gif', 'pdf')).toEqual({ mode: 'Does not apply to PDF output, which keeps every page' });
+  });
+
+  it('only takes a frame index in frame mode', () => {
+    expect(validate({ frameIndex: 2 }, 'gif', 'png')).toEqual({});
+    expect(validate({ frameIndex: 2, mode: 'frame' }, 'gif', 'webp')).toEqual({});
+    expect(validate({ frameIndex: 2 }, 'gif', 'webp')).toEqual({ frameIndex: 'Only applies in frame mode' });
+  });
+});
+
+describe('convertImage', () => {
+  let dir: string;
+  let inputPath: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'image-converter-'));
+    inputPath = join(dir, 'still.png');
+    await sharp({ create: { width: 16, height: 12, channels: 3, background: '#3366cc' } }).png().toFile(inputPath);
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('writes a still image to an animated format as a single frame', async () => {
+    const outputPath = await convertImage(inputPath, 'gif', {}, () => {}, undefined, dir);
+
+    expect(outputPath).toBe(join(dir, 'still.gif'));
+    expect(await sharp(outputPath).metadata()).toMatchObject({ format: 'gif', width: 16, height: 12, pages: 1 });
+  });
+
+  it('rejects a frame the image does not have', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(convertImage(inputPath, 'png', { frameIndex: 1 }, () => {}, undefined, dir))
+      .rejects.toThrow('Frame 1 does not exist, the image has 1 frame');
+    vi.restoreAllMocks();
+  });
+});
@@ -1,12 +1,79 @@
 import { join, basename, extname } from 'path';
-import sharp from 'sharp';
+import { mkdir, readFile, rm, writeFile } from 'fs/promises';
+import sharp, { Metadata, Sharp, SharpOptions } from 'sharp';
+import heicDecode from 'heic-decode';
+import type { Converter } from './converterTypes';
+import { abortable, settleAbandonedWork, throwIfCancelled } from './cancellation';
+import { RgbaImage, decodeBmp, decodeIco, encodeBmp, encodeIco } from './bitmapCodecs';
+import { createZipFromImagesUsingCmd } from './imageArchive';
+import {
+  IMAGE_OPERATION_OPTION_SCHEMA,
+  ImageOperationOptions,
+  applyImageOperations,
+  parseImageOperations,
+  validateImageOperationOptions
+} from './imageOperations';
+import {
+  ContainerMetadata,
+  METADATA_OPTION_SCHEMA,
+  MetadataOptions,
+  MetadataSource,
+  applyMetadataPolicy,
+  readContainerMetadata
+} from './imageMetadata';
+import { writePdfFromImages, PdfImagePage } from './pdfWriter';
+import { WATERMARK_OPTION_SCHEMA, WatermarkOptions, applyImageWatermark, hasWatermark, validateWatermarkOptions } from './watermark';
 
-interface ConversionOptions {
+// Keep the animation, take a single frame, or a zip of every frame
+export type ImageMode = 'animation' | 'frame' | 'frames';
+
+export interface ImageConversionOptions extends ImageOperationOptions, WatermarkOptions, MetadataOptions {
   width?: number;
   height?: number;
   fit?: 'cover' | 'contain' | 'fill' | 'inside' | 'outside';
   quality?: number;
-  [key: string]: unknown;
+  mode?: ImageMode;
+  // Frame to take in frame mode, counting from 0
+  frameIndex?: number;
+  // Resolution in DPI used to rasterize SVG input
+  density?: number;
+  // Comma separated square sizes stored in ICO output, e.g. 16,32,48
+  iconSizes?: string;
+}
+
+export const IMAGE_INPUT_FORMATS = ['jpg', 'jpeg', 'png', 'gif', 'webp', 'tiff', 'avif', 'heic', 'heif', 'svg', 'bmp', 'ico'];
+
+// Formats sharp can read and write as animations; AVIF output only keeps a single frame
+const ANIMATED_FORMATS = ['gif', 'webp'];
+
+// Formats sharp cannot read, which are decoded to a PNG first
+const DECODED_FORMATS = ['heic', 'heif', 'bmp', 'ico'];
+
+// Formats written from the rendered pixels rather than by sharp, without metadata
+const BITMAP_FORMATS = ['bmp', 'ico'];
+
+const DEFAULT_ICON_SIZES = [16, 32, 48, 64, 128, 256];
+const MAX_ICON_SIZE = 256;
+
+// SVG is drawn at 72 DPI unless a density is given; larger sizes raise it up to this limit
+const SVG_DENSITY = 72;
+const MAX_SVG_DENSITY = 2400;
+
+/**
+ * Pick the mode, defaulting to an animation for animated formats and a single frame otherwise
+ */
+function getMode(options: ImageConversionOptions, outputFormat: string): ImageMode {
+  return options.mode || (ANIMATED_FORMATS.includes(outputFormat) ? 'animation' : 'frame');
+}
+
+/**
+ * Parse the icon sizes option into distinct sizes, smallest first
+ */
+function parseIconSizes(list?: string): number[] {
+  if (!list) {
+    return DEFAULT_ICON_SIZES;
+  }
+  return [...new Set(list.split(',').map(Number))].sort((a, b) => a - b);
 }
 
 /**
@@ -15,66 +82,461 @@ interface ConversionOptions {
 export async function convertImage(
   inputPath: string,
   outputFormat: string,
-  options: ConversionOptions = {},
-  progressCallback: (progress: number) => void = () => {}
+  options: ImageConversionOptions = {},
+  progressCallback: (progress: number) => void = () => {},
+  signal?: AbortSignal,
+  outputDir: string = join(process.cwd(), 'output')
 ): Promise<string> {
   try {
     // Set starting progress
     progressCallback(10);
     
-    const outputFilename = `${basename(inputPath, extname(inputPath))}.${outputFormat}`;
-    const outputDir = join(process.cwd(), 'output');
-    const outputPath = join(outputDir, outputFilename);
+    const fileBaseName = basename(inputPath, extname(inputPath));
+    const outputPath = join(outputDir, `${fileBaseName}.${outputFormat}`);
+    
+    // Holds the decoded input and the source's color profile while it is attached again
+    const workDir = join(outputDir, 'temp', `${fileBaseName}-image-${Date.now()}`);
+    
+    try {
+      const sourcePath = await decodeInput(inputPath, workDir, signal);
+      const inputOptions = await getInputOptions(sourcePath, options);
+      
+      // PDF output embeds every page of the input as an image
+      if (outputFormat === 'pdf') {
+        await convertImageToPdf(sourcePath, outputPath, options, inputOptions, progressCallback, signal);
+        progressCallback(100);
+        return outputPath;
+      }
+      
+      // Multi-page TIFFs are documents rather than animations, so only GIF and WebP frames count
+      const metadata = await sharp(sourcePath, inputOptions).metadata();
+      const frameCount = ANIMATED_FORMATS.includes(metadata.format || '') ? metadata.pages || 1 : 1;
+      const mode = getMode(options, outputFormat);
+      
+      // Decoded pixels carry none of the source's metadata, which is read from the original file instead
+      const container = sourcePath === inputPath ? undefined : await readContainerMetadata(inputPath);
+      
+      if (mode === 'frames') {
+        const zipFilePath = await convertFrames(
+          sourcePath,
+          outputDir,
+          outputFormat,
+          metadata,
+          container,
+          frameCount,
+          options,
+          inputOptions,
+          progressCallback,
+          signal
+        );
+        progressCallback(100);
+        return zipFilePath;
+      }
+      
+      const frameIndex = options.frameIndex || 0;
+      if (frameIndex >= frameCount) {
+        throw new Error(`Frame ${frameIndex} does not exist, the image has ${frameCount} frame${frameCount === 1 ? '' : 's'}`);
+      }
+      
+      const animated = mode === 'animation' && frameCount > 1;
+      if (animated && (options.operations || hasWatermark(options))) {
+        throw new Error('Operations and watermarks can only be applied to still images, use the frame or frames mode');
+      }
+      
+      // Create image processor
+      let image = await transformImage(
+        sharp(sourcePath, animated ? { ...inputOptions, animated: true } : { ...inputOptions, page: frameIndex }),
+        options,
+        signal
+      );
+      
+      // Update progress
+      progressCallback(50);
+      
+      image = await applyMetadataPolicy(image, options.metadata || 'strip', getMetadataSource(metadata, options, container), workDir);
+      
+      // Frame delays and loop count are passed on explicitly so every encoder keeps the original timing
+      await writeImage(
+        image,
+        outputPath,
+        outputFormat,
+        options,
+        animated ? { loop: metadata.loop, delay: metadata.delay } : {},
+        signal
+      );
+    } finally {
+      await settleAbandonedWork(signal);
+      await rm(workDir, { recursive: true, force: true });
+    }
+    
+    // Complete progress
+    progressCallback(100);
+    
+    return outputPath;
+  } catch (error) {
+    console.error('Error during image conversion:', error);
+    throw error;
+  }
+}
+
+/**
+ * Decode HEIC, BMP and ICO input to a PNG in workDir, returning the path sharp should read
+ */
+export async function decodeInput(inputPath: string, workDir: string, signal?: AbortSignal): Promise<string> {
+  const format = extname(inputPath).slice(1).toLowerCase();
+  if (!DECODED_FORMATS.includes(format)) {
+    return inputPath;
+  }
+  
+  const buffer = await readFile(inputPath);
+  let decoded: RgbaImage | Buffer;
+  
+  if (format === 'bmp') {
+    decoded = decodeBmp(buffer);
+  } else if (format === 'ico') {
+    // Icons may hold their largest image as a PNG already
+    const icon = decodeIco(buffer);
+    decoded = 'png' in icon ? icon.png : icon.image;
+  } else {
+    const { data, width, height } = await abortable(heicDecode({ buffer }), signal);
+    decoded = { data: Buffer.from(data.buffer, data.byteOffset, data.byteLength), width, height };
+  }
+  
+  const image = Buffer.isBuffer(decoded)
+    ? sharp(decoded)
+    : sharp(decoded.data, { raw: { width: decoded.width, height: decoded.height, channels: 4 } });
+  
+  // Only read back once, so it is compressed lightly
+  await mkdir(workDir, { recursive: true });
+  const decodedPath = join(workDir, `${basename(inputPath, extname(inputPath))}.png`);
+  await abortable(image.png({ compressionLevel: 1 }).toFile(decodedPath), signal);
+  return decodedPath;
+}
+
+/**
+ * Options for reading the input. SVG is rasterized at the requested density,
+ * or at one that draws it at least at the requested size so it stays sharp.
+ */
+export async function getInputOptions(sourcePath: string, options: ImageConversionOptions): Promise<SharpOptions> {
+  if (extname(sourcePath).slice(1).toLowerCase() !== 'svg') {
+    return {};
+  }
+  if (options.density) {
+    return { density: options.density };
+  }
+  
+  const { width, height } = await sharp(sourcePath).metadata();
+  const scale = Math.max(
+    options.width && width ? options.width / width : 1,
+    options.height && height ? options.height / height : 1
+  );
+  return { density: Math.min(MAX_SVG_DENSITY, SVG_DENSITY * scale) };
+}
+
+/**
+ * Apply the operations list, then resize and watermark an image
+ */
+async function transformImage(image: Sharp, options: ImageConversionOptions, signal?: AbortSignal): Promise<Sharp> {
+  if (options.operations) {
+    image = await applyImageOperations(image, options.operations, signal);
+  }
+  
+  if (options.width || options.height) {
+    image = image.resize({
+      width: options.width,
+      height: options.height,
+      fit: options.fit || 'contain'
+    });
+  }
+  
+  if (hasWatermark(options)) {
+    image = await abortable(applyImageWatermark(image, options), signal);
+  }
+  
+  return image;
+}
+
+/**
+ * Describe what the transformed pixels still need from the source's metadata
+ */
+function getMetadataSource(
+  metadata: Metadata,
+  options: ImageConversionOptions,
+  container?: ContainerMetadata
+): MetadataSource {
+  const operations = options.operations ? parseImageOperations(options.operations) : [];
+  
+  // Decoders turn the pixels upright, so the EXIF orientation no longer applies to them
+  if (container) {
+    return { metadata: { ...metadata, ...container }, detached: true };
+  }
+  
+  return {
+    metadata,
+    // Operations and watermarks re-render the pixels from raw data
+    detached: operations.length > 0 || hasWatermark(options),
+    // autoOrient can only be the first step
+    orientation: operations[0]?.type === 'autoOrient' ? undefined : metadata.orientation
+  };
+}
+
+/**
+ * Set the output encoder, with animation timing for GIF and WebP output
+ */
+export function encodeImage(
+  image: Sharp,
+  outputFormat: string,
+  options: ImageConversionOptions,
+  animation: { loop?: number; delay?: number[] }
+): Sharp {
+  // Apply quality settings if specified
+  const formatOptions: { quality?: number } = {};
+  if (options.quality && ['jpg', 'jpeg', 'webp', 'avif'].includes(outputFormat)) {
+    formatOptions.quality = options.quality;
+  }
+  
+  switch (outputFormat) {
+    case 'jpg':
+    case 'jpeg':
+      return image.jpeg(formatOptions);
+    case 'png':
+      return image.png(formatOptions);
+    case 'webp':
+      return image.webp({ ...formatOptions, ...animation });
+    case 'gif':
+      return image.gif(animation);
+    case 'avif':
+      return image.avif(formatOptions);
+    case 'tiff':
+      return image.tiff(formatOptions);
+    default:
+      throw new Error(`Unsupported output format: ${outputFormat}`);
+  }
+}
+
+/**
+ * Encode and write the output file. BMP and ICO are encoded here from the rendered pixels.
+ */
+async function writeImage(
+  image: Sharp,
+  outputPath: string,
+  outputFormat: string,
+  options: ImageConversionOptions,
+  animation: { loop?: number; delay?: number[] },
+  signal?: AbortSignal
+): Promise<void> {
+  if (outputFormat === 'bmp') {
+    const { data, info } = await abortable(
+      image.toColourspace('srgb').ensureAlpha().raw().toBuffer({ resolveWithObject: true }),
+      signal
+    );
+    await writeFile(outputPath, encodeBmp({ data, width: info.width, height: info.height }));
+    return;
+  }
+  
+  if (outputFormat === 'ico') {
+    // Every size is scaled from one rendering, padded to a square with transparency
+    const rendered = await abortable(image.png().toBuffer(), signal);
+    const icons = [];
+    for (const size of parseIconSizes(options.iconSizes)) {
+      const png = await abortable(
+        sharp(rendered)
+          .resize(size, size, { fit: 'contain', background: { r: 0, g: 0, b: 0, alpha: 0 } })
+          .png()
+          .toBuffer(),
+        signal
+      );
+      icons.push({ width: size, height: size, png });
+    }
+    await writeFile(outputPath, encodeIco(icons));
+    return;
+  }
+  
+  // sharp cannot be interrupted, so a cancelled job stops waiting for it instead
+  await abortable(encodeImage(image, outputFormat, options, animation).toFile(outputPath), signal);
+}
+
+/**
+ * Converts every frame of an animation to a separate image and packages them as a zip
+ */
+async function convertFrames(
+  inputPath: string,
+  outputDir: string,
+  outputFormat: string,
+  metadata: Metadata,
+  container: ContainerMetadata | undefined,
+  frameCount: number,
+  options: ImageConversionOptions,
+  inputOptions: SharpOptions,
+  progressCallback: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<string> {
+  const fileBaseName = basename(inputPath, extname(inputPath));
+  const framesDir = join(outputDir, 'temp', `${fileBaseName}-frames-${Date.now()}`);
+  await mkdir(framesDir, { recursive: true });
+  
+  try {
+    for (let page = 0; page < frameCount; page++) {
+      throwIfCancelled(signal);
+      const framePath = join(framesDir, `${fileBaseName}-${(page + 1).toString().padStart(3, '0')}.${outputFormat}`);
+      let image = await transformImage(sharp(inputPath, { ...inputOptions, page }), options, signal);
+      image = await applyMetadataPolicy(image, options.metadata || 'strip', getMetadataSource(metadata, options, container), framesDir);
+      await writeImage(image, framePath, outputFormat, options, {}, signal);
+      progressCallback(10 + Math.round(((page + 1) / frameCount) * 80));
+    }
+    
+    // Package the frames the same way as multi-page PDF exports
+    const zipFilePath = join(outputDir, `${fileBaseName}.zip`);
+    await createZipFromImagesUsingCmd(framesDir, zipFilePath, fileBaseName, outputFormat, signal);
+    return zipFilePath;
+  } finally {
+    await settleAbandonedWork(signal);
+    await rm(framesDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Converts an image (including every page of a multi-page TIFF) to a PDF document
+ */
+async function convertImageToPdf(
+  inputPath: string,
+  outputPath: string,
+  options: ImageConversionOptions,
+  inputOptions: SharpOptions,
+  progressCallback: (progress: number) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const metadata = await sharp(inputPath, inputOptions).metadata();
+  const pageCount = metadata.pages || 1;
+  const pages: PdfImagePage[] = [];
+  
+  for (let page = 0; page < pageCount; page++) {
+    throwIfCancelled(signal);
+    let image = sharp(inputPath, { ...inputOptions, page });
     
-    // Create image processor
-    let image = sharp(inputPath);
+    if (options.operations) {
+      image = await applyImageOperations(image, options.operations, signal);
+    }
+    
+    image = image.flatten({ background: '#ffffff' });
     
-    // Apply transformations if needed
     if (options.width || options.height) {
       image = image.resize({
         width: options.width,
         height: options.height,
-        fit: options.fit || 'contain'
+        fit: options.fit || 'contain',
+        background: '#ffffff'
       });
     }
     
-    // Apply quality settings if specified
-    const formatOptions: { quality?: number } = {};
-    if (options.quality && ['jpg', 'jpeg', 'webp', 'avif'].includes(outputFormat)) {
-      formatOptions.quality = options.quality;
+    if (hasWatermark(options)) {
+      image = await abortable(applyImageWatermark(image, options), signal);
     }
     
-    // Update progress
-    progressCallback(50);
+    const { data, info } = await abortable(
+      image.jpeg({ quality: options.quality || 90 }).toBuffer({ resolveWithObject: true }),
+      signal
+    );
     
-    // Convert to the desired format
-    switch (outputFormat) {
-      case 'jpg':
-      case 'jpeg':
-        await image.jpeg(formatOptions).toFile(outputPath);
-        break;
-      case 'png':
-        await image.png(formatOptions).toFile(outputPath);
-        break;
-      case 'webp':
-        await image.webp(formatOptions).toFile(outputPath);
-        break;
-      case 'avif':
-        await image.avif(formatOptions).toFile(outputPath);
-        break;
-      case 'tiff':
-        await image.tiff(formatOptions).toFile(outputPath);
-        break;
-      default:
-        throw new Error(`Unsupported output format: ${outputFormat}`);
-    }
+    pages.push({
+      jpeg: data,
+      width: info.width,
+      height: info.height,
+      density: metadata.density,
+      channels: info.channels
+    });
     
-    // Complete progress
-    progressCallback(100);
-    
-    return outputPath;
-  } catch (error) {
-    console.error('Error during image conversion:', error);
-    throw error;
+    progressCallback(10 + Math.round(((page + 1) / pageCount) * 80));
   }
-} 
\ No newline at end of file
+  
+  throwIfCancelled(signal);
+  await writePdfFromImages(pages, outputPath);
+}
+
+export const imageConverter: Converter = {
+  id: 'image',
+  category: 'image',
+  supportedInputFormats: IMAGE_INPUT_FORMATS,
+  possibleOutputFormats: ['jpg', 'jpeg', 'png', 'webp', 'gif', 'avif', 'tiff', 'bmp', 'ico', 'pdf'],
+  optionSchema: {
+    width: { type: 'integer', min: 1, max: 16384, description: 'Output width in pixels' },
+    height: { type: 'integer', min: 1, max: 16384, description: 'Output height in pixels' },
+    fit: {
+      type: 'enum',
+      values: ['cover', 'contain', 'fill', 'inside', 'outside'],
+      default: 'contain',
+      description: 'How the image should fit the requested size'
+    },
+    quality: { type: 'integer', min: 1, max: 100, description: 'Output quality for lossy formats' },
+    mode: {
+      type: 'enum',
+      values: ['animation', 'frame', 'frames'],
+      description: 'Keep the animation (gif and webp default), take a single frame (other formats default), or a zip of every frame'
+    },
+    frameIndex: { type: 'integer', min: 0, max: 9999, description: 'Frame to take in frame mode, counting from 0' },
+    density: {
+      type: 'number',
+      min: 1,
+      max: MAX_SVG_DENSITY,
+      description: 'Resolution in DPI used to rasterize SVG input, defaults to 72 or enough for the requested size'
+    },
+    iconSizes: {
+      type: 'string',
+      pattern: '^\\d+(,\\d+)*$',
+      patternDescription: 'Must be a comma separated list of sizes, e.g. 16,32,48',
+      description: `Comma separated square sizes stored in ICO output, up to ${MAX_ICON_SIZE}, defaults to ${DEFAULT_ICON_SIZES.join(',')}`
+    },
+    ...IMAGE_OPERATION_OPTION_SCHEMA,
+    ...WATERMARK_OPTION_SCHEMA,
+    ...METADATA_OPTION_SCHEMA
+  },
+  validate: (options, inputFormat, outputFormat) => {
+    const imageOptions = options as ImageConversionOptions;
+    const errors = {
+      ...validateImageOperationOptions(imageOptions),
+      ...validateWatermarkOptions(imageOptions)
+    };
+
+    if (outputFormat === 'pdf') {
+      if (imageOptions.mode !== undefined) {
+        errors.mode = 'Does not apply to PDF output, which keeps every page';
+      }
+      if (imageOptions.metadata && imageOptions.metadata !== 'strip') {
+        errors.metadata = 'PDF output does not carry image metadata';
+      }
+    } else if (imageOptions.mode === 'animation' && !ANIMATED_FORMATS.includes(outputFormat)) {
+      errors.mode = `Animations can only be written as ${ANIMATED_FORMATS.join(' or ')}`;
+    }
+
+    if (imageOptions.frameIndex !== undefined && (outputFormat === 'pdf' || getMode(imageOptions, outputFormat) !== 'frame')) {
+      errors.frameIndex = 'Only applies in frame mode';
+    }
+
+    if (BITMAP_FORMATS.includes(outputFormat) && imageOptions.metadata && imageOptions.metadata !== 'strip') {
+      errors.metadata = 'BMP and ICO output do not carry image metadata';
+    }
+
+    if (imageOptions.density !== undefined && inputFormat !== 'svg') {
+      errors.density = 'Only applies to SVG input';
+    }
+
+    if (imageOptions.iconSizes !== undefined) {
+      if (outputFormat !== 'ico') {
+        errors.iconSizes = 'Only applies to ICO output';
+      } else if (parseIconSizes(imageOptions.iconSizes).some(size => size < 1 || size > MAX_ICON_SIZE)) {
+        errors.iconSizes = `Sizes must be between 1 and ${MAX_ICON_SIZE}`;
+      }
+    }
+
+    return errors;
+  },
+  convert: (inputPath, outputFormat, options, context) =>
+    convertImage(
+      inputPath,
+      outputFormat,
+      options as ImageConversionOptions,
+      context.onProgress,
+      context.signal,
+      context.outputDir
+    )
+};
@@ -0,0 +1,155 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import sharp from 'sharp';
+import { applyMetadataPolicy, parseIccProfile, readContainerMetadata, readImageMetadata } from './imageMetadata';
+
+describe('image metadata', () => {
+  let dir: string;
+  let photoPath: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'image-metadata-'));
+    photoPath = join(dir, 'photo.jpg');
+    await sharp({ create: { width: 16, height: 12, channels: 3, background: '#3366cc' } })
+      .withIccProfile('p3')
+      .withExif({
+        IFD0: { Make: 'Example', Model: 'Camera 1' },
+        IFD3: { GPSLatitudeRef: 'N', GPSLongitudeRef: 'E' }
+      })
+      .jpeg()
+      .toFile(photoPath);
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  /**
+   * Write the photo with a metadata policy and read back what the output kept
+   */
+  async function convertWithPolicy(policy: 'strip' | 'stripLocation' | 'keep' | 'iccOnly', detached: boolean) {
+    const outputPath = join(dir, `${policy}-${detached}.jpg`);
+    const image = sharp(photoPath);
+    const source = { metadata: await sharp(photoPath).metadata(), detached };
+    await (await applyMetadataPolicy(image, policy, source, join(dir, 'work'))).jpeg().toFile(outputPath);
+    return readImageMetadata(outputPath);
+  }
+
+  it('reads EXIF tags, the location and the color profile', async () => {
+    const report = await readImageMetadata(photoPath);
+
+    expect(report.format).toBe('jpeg');
+    expect(report.exif?.Image).toMatchObject({ Make: 'Example', Model: 'Camera 1' });
+    expect(report.hasLocation).toBe(true);
+    expect(report.icc).toMatchObject({ colorSpace: 'RGB', connectionSpace: 'XYZ', deviceClass: 'mntr' });
+  });
+
+  it('strips everything by default', async () => {
+    const report = await convertWithPolicy('strip', false);
+
+    expect(report.exif).toBeUndefined();
+    expect(report.icc).toBeUndefined();
+  });
+
+  it('keeps the camera details but not the location', async () => {
+    for (const detached of [false, true]) {
+      const report = await convertWithPolicy('stripLocation', detached);
+
+      expect(report.exif?.Image).toMatchObject({ Make: 'Example' });
+      expect(report.hasLocation).toBe(false);
+      expect(report.icc?.colorSpace).toBe('RGB');
+    }
+  });
+
+  it('keeps only the color profile', async () => {
+    for (const detached of [false, true]) {
+      const report = await convertWithPolicy('iccOnly', detached);
+
+      expect(report.exif).toBeUndefined();
+      expect(report.icc?.size).toBe((await readImageMetadata(photoPath)).icc?.size);
+    }
+  });
+
+  it('keeps the location when asked to keep everything', async () => {
+    expect((await convertWithPolicy('keep', false)).hasLocation).toBe(true);
+    expect((await convertWithPolicy('keep', true)).hasLocation).toBe(true);
+  });
+
+  it('reads the metadata of a HEIC photo from its container, since decoding drops it', async () => {
+    // sharp only writes AVIF, which uses the same container; branding it as HEIC gives the file iPhones write
+    const file = await sharp(photoPath).keepMetadata().avif().toBuffer();
+    for (let offset = 8; offset < file.readUInt32BE(0); offset += 4) {
+      if (file.toString('latin1', offset, offset + 4) === 'avif') {
+        file.write('heic', offset, 'latin1');
+      }
+    }
+    const heicPath = join(dir, 'photo.heic');
+    await writeFile(heicPath, file);
+
+    // Stands in for the decoded pixels, which carry no metadata
+    const decodedPath = join(dir, 'decoded.png');
+    await sharp({ create: { width: 16, height: 12, channels: 3, background: '#3366cc' } }).png().toFile(decodedPath);
+
+    const container = await readContainerMetadata(heicPath);
+    const report = await readImageMetadata(decodedPath, container);
+    expect(report.exif?.Image).toMatchObject({ Make: 'Example', Model: 'Camera 1' });
+    expect(report.hasLocation).toBe(true);
+    expect(report.icc?.size).toBe((await readImageMetadata(photoPath)).icc?.size);
+
+    for (const [policy, hasLocation] of [['keep', true], ['stripLocation', false]] as const) {
+      const outputPath = join(dir, `heic-${policy}.jpg`);
+      const source = { metadata: { ...(await sharp(decodedPath).metadata()), ...container }, detached: true };
+      await (await applyMetadataPolicy(sharp(decodedPath), policy, source, join(dir, 'work'))).jpeg().toFile(outputPath);
+
+      const output = await readImageMetadata(outputPath);
+      expect(output.exif?.Image).toMatchObject({ Make: 'Example' });
+      expect(output.hasLocation).toBe(hasLocation);
+      expect(output.icc?.colorSpace).toBe('RGB');
+    }
+  });
+});
+
+describe('parseIccProfile', () => {
+  /**
+   * Build an ICC profile with only a header and a multi-localized description tag
+   */
+  function iccWithDescription(description: string, extraLength = 0): Buffer {
+    const text = Buffer.from(description, 'utf16le').swap16();
+    const tag = Buffer.alloc(28 + text.length + extraLength);
+    tag.write('mluc', 0, 'latin1');
+    tag.writeUInt32BE(1, 8);
+    tag.writeUInt32BE(12, 12);
+    tag.write('enUS', 16, 'latin1');
+    tag.writeUInt32BE(text.length + extraLength, 20);
+    tag.writeUInt32BE(28, 24);
+    text.copy(tag, 28);
+
+    const header = Buffer.alloc(144);
+    header.writeUInt32BE(header.length + tag.length, 0);
+    header[8] = 4;
+    header[9] = 0x30;
+    header.write('mntrRGB XYZ ', 12, 'latin1');
+    header.writeUInt32BE(1, 128);
+    header.write('desc', 132, 'latin1');
+    header.writeUInt32BE(header.length, 136);
+    header.writeUInt32BE(tag.length, 140);
+    return Buffer.concat([header, tag]);
+  }
+
+  it('reads the header and the description', () => {
+    expect(parseIccProfile(iccWithDescription('Display P3'))).toEqual({
+      description: 'Display P3',
+      deviceClass: 'mntr',
+      colorSpace: 'RGB',
+      connectionSpace: 'XYZ',
+      version: '4.3',
+      size: 144 + 28 + 20
+    });
+  });
+
+  it('drops a stray byte at the end of the description', () => {
+    expect(parseIccProfile(iccWithDescription('sRGB', 1)).description).toBe('sRGB');
+  });
+});
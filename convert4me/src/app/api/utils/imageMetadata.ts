@@ -0,0 +1,413 @@
+import { extname, join } from 'path';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import sharp, { Metadata, Sharp } from 'sharp';
+import exifReader from 'exif-reader';
+import type { OptionSchema } from './converterTypes';
+import { decodeIco, readBmpIccProfile } from './bitmapCodecs';
+import { readHeifMetadata } from './heifMetadata';
+
+// Which of the source's metadata an output image keeps
+export type MetadataPolicy = 'strip' | 'stripLocation' | 'keep' | 'iccOnly';
+
+export interface MetadataOptions {
+  metadata?: MetadataPolicy;
+}
+
+export interface IccProfileDetails {
+  description?: string;
+  // Device class, e.g. mntr for displays or prtr for printers
+  deviceClass: string;
+  // Color space of the data, e.g. RGB or CMYK
+  colorSpace: string;
+  // Profile connection space, XYZ or Lab
+  connectionSpace: string;
+  version: string;
+  size: number;
+}
+
+export interface ImageMetadataReport {
+  format?: string;
+  // EXIF tags grouped by directory: Image, Photo, GPSInfo, Iop and Thumbnail
+  exif?: Record<string, Record<string, unknown>>;
+  // Whether the EXIF data holds GPS coordinates
+  hasLocation: boolean;
+  // IPTC fields such as Caption, Keywords, City or CopyrightNotice
+  iptc?: Record<string, string | string[]>;
+  // XMP packet as XML
+  xmp?: string;
+  icc?: IccProfileDetails;
+}
+
+/**
+ * Metadata blocks of an input sharp cannot read, which its decoded pixels no longer carry
+ */
+export type ContainerMetadata = Pick<Metadata, 'exif' | 'icc' | 'xmp' | 'iptc'>;
+
+/**
+ * The source a rendered image came from, and what its pixels still need from it
+ */
+export interface MetadataSource {
+  metadata: Metadata;
+  // The pixels went through raw data (operations, watermarks) and no longer carry the source's metadata
+  detached: boolean;
+  // Orientation the pixels still need, unset once they were turned upright
+  orientation?: number;
+}
+
+// Directories of exif-reader output and the names sharp uses for them
+const EXIF_DIRECTORIES: Record<string, string> = {
+  Image: 'IFD0',
+  Photo: 'IFD2',
+  GPSInfo: 'IFD3',
+  Iop: 'IFD4'
+};
+
+// Offsets of the other directories, which libvips writes itself
+const EXIF_POINTER_TAGS = ['ExifTag', 'GPSTag', 'InteroperabilityTag'];
+
+// IPTC application record datasets, by number
+const IPTC_DATASETS: Record<number, string> = {
+  5: 'ObjectName',
+  25: 'Keywords',
+  40: 'SpecialInstructions',
+  55: 'DateCreated',
+  60: 'TimeCreated',
+  80: 'Byline',
+  85: 'BylineTitle',
+  90: 'City',
+  92: 'Sublocation',
+  95: 'ProvinceState',
+  100: 'CountryCode',
+  101: 'Country',
+  105: 'Headline',
+  110: 'Credit',
+  115: 'Source',
+  116: 'CopyrightNotice',
+  120: 'Caption',
+  122: 'CaptionWriter'
+};
+
+// IPTC datasets that may appear more than once
+const REPEATABLE_IPTC_DATASETS = [25];
+
+// Photoshop image resource holding the IPTC records in JPEG files
+const IPTC_RESOURCE_ID = 0x0404;
+
+export const METADATA_OPTION_SCHEMA: OptionSchema = {
+  metadata: {
+    type: 'enum',
+    values: ['strip', 'stripLocation', 'keep', 'iccOnly'],
+    default: 'strip',
+    description: 'Metadata kept in image output: none, everything except location (GPS, XMP and IPTC are removed), ' +
+      'everything, or only the color profile'
+  }
+};
+
+/**
+ * Format an EXIF date the way EXIF stores it; exif-reader reads the camera's local time as UTC
+ */
+function formatExifDate(date: Date): string {
+  const pad = (value: number) => value.toString().padStart(2, '0');
+  return `${date.getUTCFullYear()}:${pad(date.getUTCMonth() + 1)}:${pad(date.getUTCDate())} ` +
+    `${pad(date.getUTCHours())}:${pad(date.getUTCMinutes())}:${pad(date.getUTCSeconds())}`;
+}
+
+/**
+ * Parse EXIF data, treating damaged data as absent
+ */
+function readExif(data: Buffer): exifReader.Exif | undefined {
+  try {
+    return exifReader(data);
+  } catch (error) {
+    console.warn('Could not read EXIF data:', error);
+    return undefined;
+  }
+}
+
+/**
+ * Turn EXIF data into the text fields sharp writes, optionally leaving out the GPS directory.
+ * Binary tags such as maker notes cannot be written this way and are left out.
+ */
+function toSharpExif(
+  data: Buffer,
+  withoutLocation: boolean,
+  withoutOrientation = false
+): Record<string, Record<string, string>> {
+  const parsed = readExif(data);
+  const exif: Record<string, Record<string, string>> = {};
+
+  for (const [directory, ifd] of Object.entries(EXIF_DIRECTORIES)) {
+    const tags = parsed?.[directory as 'Image' | 'Photo' | 'GPSInfo' | 'Iop'];
+    if (!tags || typeof tags !== 'object' || (withoutLocation && directory === 'GPSInfo')) {
+      continue;
+    }
+
+    const fields: Record<string, string> = {};
+    for (const [name, value] of Object.entries(tags)) {
+      // Unknown tags are only numbered, and sharp can only set tags by name
+      if (EXIF_POINTER_TAGS.includes(name) || /^\d+$/.test(name) || value === null || value === undefined || Buffer.isBuffer(value)) {
+        continue;
+      }
+      if (withoutOrientation && name === 'Orientation') {
+        continue;
+      }
+      if (value instanceof Date) {
+        if (!isNaN(value.getTime())) {
+          fields[name] = formatExifDate(value);
+        }
+      } else {
+        fields[name] = Array.isArray(value) ? value.join(' ') : String(value);
+      }
+    }
+    exif[ifd] = fields;
+  }
+
+  return exif;
+}
+
+/**
+ * Write the source's ICC profile to a file, since sharp only attaches profiles from files
+ */
+async function writeIccProfile(icc: Buffer, workDir: string): Promise<string> {
+  await mkdir(workDir, { recursive: true });
+  const profilePath = join(workDir, 'profile.icc');
+  await writeFile(profilePath, icc);
+  return profilePath;
+}
+
+/**
+ * Set which of the source's metadata the output keeps.
+ * Detached pixels carry none of it, so EXIF data and the ICC profile are attached again from the source;
+ * sharp cannot write XMP or IPTC, which only survive when the pixels were not re-rendered.
+ */
+export async function applyMetadataPolicy(
+  image: Sharp,
+  policy: MetadataPolicy,
+  source: MetadataSource,
+  workDir: string
+): Promise<Sharp> {
+  const { metadata, detached, orientation } = source;
+
+  if (policy === 'strip') {
+    return image;
+  }
+
+  if (!detached) {
+    switch (policy) {
+      case 'keep':
+        return image.keepMetadata();
+      case 'iccOnly':
+        return image.keepIccProfile();
+      case 'stripLocation':
+        // Replacing the EXIF data drops the GPS tags; XMP and IPTC can repeat the location and are not kept
+        image = image.keepIccProfile();
+        return metadata.exif ? image.withExif(toSharpExif(metadata.exif, true)) : image;
+    }
+  }
+
+  const iccPath = metadata.icc ? await writeIccProfile(metadata.icc, workDir) : undefined;
+  if (policy === 'iccOnly') {
+    return iccPath ? image.withIccProfile(iccPath) : image;
+  }
+
+  // The orientation can only be set through withMetadata, which tags sRGB when there is no profile to attach.
+  // It is left out of the EXIF data, which would otherwise turn pixels that were already turned upright again.
+  image = image.withMetadata({
+    orientation: orientation && orientation > 1 ? orientation : undefined,
+    icc: iccPath
+  });
+  return metadata.exif ? image.withExif(toSharpExif(metadata.exif, policy === 'stripLocation', true)) : image;
+}
+
+/**
+ * Make EXIF values readable as JSON: dates as EXIF writes them and binary tags as text when they hold text
+ */
+function describeExif(parsed: exifReader.Exif): Record<string, Record<string, unknown>> {
+  const exif: Record<string, Record<string, unknown>> = {};
+
+  for (const [directory, tags] of Object.entries(parsed)) {
+    if (!tags || typeof tags !== 'object') {
+      continue;
+    }
+
+    const fields: Record<string, unknown> = {};
+    for (const [name, value] of Object.entries(tags as Record<string, unknown>)) {
+      if (EXIF_POINTER_TAGS.includes(name)) {
+        continue;
+      }
+      if (value instanceof Date) {
+        fields[name] = isNaN(value.getTime()) ? null : formatExifDate(value);
+      } else if (Buffer.isBuffer(value)) {
+        const text = value.toString('latin1').replace(/\0+$/, '');
+        fields[name] = /^[\x20-\x7e]*$/.test(text) ? text : `${value.length} bytes of binary data`;
+      } else {
+        fields[name] = value;
+      }
+    }
+    exif[directory] = fields;
+  }
+
+  return exif;
+}
+
+/**
+ * Find where the IPTC records start: at the beginning, or inside a Photoshop resource block in JPEG files
+ */
+function findIptcRecords(data: Buffer): number {
+  if (data[0] === 0x1c) {
+    return 0;
+  }
+
+  // Resources are 8BIM, a 2 byte id, a Pascal name padded to an even length, a 4 byte size and the padded data
+  let offset = data.indexOf('8BIM');
+  while (offset !== -1 && offset + 12 <= data.length) {
+    const id = data.readUInt16BE(offset + 4);
+    const nameLength = data[offset + 6];
+    const sizeOffset = offset + 6 + nameLength + 1 + ((nameLength + 1) % 2);
+    if (sizeOffset + 4 > data.length) {
+      break;
+    }
+    const size = data.readUInt32BE(sizeOffset);
+
+    if (id === IPTC_RESOURCE_ID) {
+      return sizeOffset + 4;
+    }
+    offset = data.indexOf('8BIM', sizeOffset + 4 + size + (size % 2));
+  }
+
+  return -1;
+}
+
+/**
+ * Read the common IPTC application record fields
+ */
+function parseIptc(data: Buffer): Record<string, string | string[]> {
+  const fields: Record<string, string | string[]> = {};
+  let offset = findIptcRecords(data);
+
+  // Records are 0x1C, the record and dataset numbers, a 2 byte length and the value
+  while (offset >= 0 && offset + 5 <= data.length && data[offset] === 0x1c) {
+    const record = data[offset + 1];
+    const dataset = data[offset + 2];
+    let length = data.readUInt16BE(offset + 3);
+    offset += 5;
+
+    // The top bit marks an extended length, stored in as many bytes as the rest says
+    if (length & 0x8000) {
+      const lengthSize = length & 0x7fff;
+      if (lengthSize < 1 || lengthSize > 4 || offset + lengthSize > data.length) {
+        break;
+      }
+      length = data.readUIntBE(offset, lengthSize);
+      offset += lengthSize;
+    }
+
+    const name = record === 2 ? IPTC_DATASETS[dataset] : undefined;
+    if (name) {
+      const value = data.toString('utf8', offset, Math.min(offset + length, data.length));
+      if (REPEATABLE_IPTC_DATASETS.includes(dataset)) {
+        fields[name] = [...((fields[name] as string[] | undefined) || []), value];
+      } else {
+        fields[name] = value;
+      }
+    }
+    offset += length;
+  }
+
+  return fields;
+}
+
+/**
+ * Read an ICC profile's description, first in the v2 desc and then the v4 mluc encoding
+ */
+function readIccDescription(data: Buffer, offset: number, size: number): string | undefined {
+  const end = Math.min(offset + size, data.length);
+  const type = data.toString('latin1', offset, offset + 4);
+
+  if (type === 'desc' && offset + 12 <= end) {
+    const length = data.readUInt32BE(offset + 8);
+    return data.toString('latin1', offset + 12, Math.min(offset + 12 + length, end)).replace(/\0+$/, '');
+  }
+
+  // Multi-localized text: the first record's UTF-16BE string, at an offset from the start of the tag.
+  // A stray odd byte cannot be part of a character, so it is dropped.
+  if (type === 'mluc' && offset + 28 <= end) {
+    const length = data.readUInt32BE(offset + 20) & ~1;
+    const start = offset + data.readUInt32BE(offset + 24);
+    if (start + length <= end) {
+      return Buffer.from(data.subarray(start, start + length)).swap16().toString('utf16le');
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Read the header fields and description of an ICC profile
+ */
+export function parseIccProfile(data: Buffer): IccProfileDetails {
+  const details: IccProfileDetails = {
+    deviceClass: data.toString('latin1', 12, 16).trim(),
+    colorSpace: data.toString('latin1', 16, 20).trim(),
+    connectionSpace: data.toString('latin1', 20, 24).trim(),
+    version: `${data[8]}.${data[9] >> 4}`,
+    size: data.length
+  };
+
+  // The tag table follows the 128 byte header: a count, then a signature, offset and size per tag
+  if (data.length >= 132) {
+    const tagCount = data.readUInt32BE(128);
+    for (let index = 0; index < tagCount && 132 + (index + 1) * 12 <= data.length; index++) {
+      const entry = 132 + index * 12;
+      if (data.toString('latin1', entry, entry + 4) === 'desc') {
+        details.description = readIccDescription(data, data.readUInt32BE(entry + 4), data.readUInt32BE(entry + 8));
+        break;
+      }
+    }
+  }
+
+  return details;
+}
+
+/**
+ * Read the metadata HEIC and HEIF files, BMP files with a V5 header, and PNG icons embed.
+ * Other formats give none.
+ */
+export async function readContainerMetadata(filePath: string): Promise<ContainerMetadata> {
+  const format = extname(filePath).slice(1).toLowerCase();
+
+  if (format === 'heic' || format === 'heif') {
+    return readHeifMetadata(await readFile(filePath));
+  }
+  if (format === 'bmp') {
+    return { icc: readBmpIccProfile(await readFile(filePath)) };
+  }
+  if (format === 'ico') {
+    // The largest image is the one that gets decoded
+    const icon = decodeIco(await readFile(filePath));
+    if ('png' in icon) {
+      const { exif, icc, xmp, iptc } = await sharp(icon.png).metadata();
+      return { exif, icc, xmp, iptc };
+    }
+  }
+
+  return {};
+}
+
+/**
+ * Read the EXIF, IPTC, XMP and ICC metadata embedded in an image.
+ * Decoded inputs pass the metadata of their original file, which takes the place of the decoded file's.
+ */
+export async function readImageMetadata(filePath: string, container?: ContainerMetadata): Promise<ImageMetadataReport> {
+  const metadata = { ...(await sharp(filePath).metadata()), ...container };
+  const exif = metadata.exif ? readExif(metadata.exif) : undefined;
+
+  return {
+    format: metadata.format,
+    exif: exif ? describeExif(exif) : undefined,
+    hasLocation: !!exif?.GPSInfo && Object.keys(exif.GPSInfo).length > 0,
+    iptc: metadata.iptc ? parseIptc(metadata.iptc) : undefined,
+    xmp: metadata.xmp?.toString('utf8'),
+    icc: metadata.icc ? parseIccProfile(metadata.icc) : undefined
+  };
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import sharp from 'sharp';
+import { applyImageOperations, parseImageOperations, validateImageOperationOptions } from './imageOperations';
+
+describe('parseImageOperations', () => {
+  it('parses every kind of step in order', () => {
+    expect(parseImageOperations('autoOrient, crop:80:60:center, crop:10:20:5:6, rotate:90:#ff0000, flip, grayscale')).toEqual([
+      { type: 'autoOrient' },
+      { type: 'crop', width: 80, height: 60, gravity: 'center' },
+      { type: 'crop', width: 10, height: 20, left: 5, top: 6 },
+      { type: 'rotate', angle: 90, background: '#ff0000' },
+      { type: 'flip' },
+      { type: 'grayscale' }
+    ]);
+  });
+
+  it('fills in optional arguments', () => {
+    expect(parseImageOperations('blur,sharpen:2,trim,rotate:45')).toEqual([
+      { type: 'blur', sigma: undefined },
+      { type: 'sharpen', sigma: 2 },
+      { type: 'trim', threshold: 10 },
+      { type: 'rotate', angle: 45, background: 'black' }
+    ]);
+  });
+
+  it('extends by one size or by one size per side', () => {
+    expect(parseImageOperations('extend:10:white,extend:1:2:3:4')).toEqual([
+      { type: 'extend', top: 10, right: 10, bottom: 10, left: 10, background: 'white' },
+      { type: 'extend', top: 1, right: 2, bottom: 3, left: 4, background: 'black' }
+    ]);
+  });
+
+  it('names the first invalid step', () => {
+    expect(() => parseImageOperations('flip,crop:10:10')).toThrow('Step 2 (crop:10:10): Takes 3 to 4 arguments');
+    expect(() => parseImageOperations('crop:10:10:middle')).toThrow('Step 1 (crop:10:10:middle): The gravity must be one of');
+    expect(() => parseImageOperations('brightness:11')).toThrow('The factor must be between 0 and 10');
+    expect(() => parseImageOperations('flip:1')).toThrow('Takes no arguments');
+    expect(() => parseImageOperations('rotate:90:rgb(0,0,0)')).toThrow();
+    expect(() => parseImageOperations('sepia')).toThrow('Step 1 (sepia): Is not a known operation');
+  });
+
+  it('only allows autoOrient as the first step', () => {
+    expect(() => parseImageOperations('flip,autoOrient')).toThrow('Step 2 (autoOrient): Must be the first step');
+  });
+
+  it('limits the number of steps', () => {
+    expect(() => parseImageOperations(Array(21).fill('flip').join(','))).toThrow('Must have at most 20 steps');
+  });
+});
+
+describe('validateImageOperationOptions', () => {
+  it('reports parse errors on the operations option', () => {
+    expect(validateImageOperationOptions({ operations: 'flip' })).toEqual({});
+    expect(validateImageOperationOptions({ operations: 'crop:0:10:center' })).toEqual({
+      operations: 'Step 1 (crop:0:10:center): The width must be between 1 and 16384'
+    });
+  });
+});
+
+describe('applyImageOperations', () => {
+  const source = () => sharp({ create: { width: 100, height: 50, channels: 3, background: '#808080' } });
+
+  it('applies the steps in the given order', async () => {
+    // The top left crop only starts on the black border because the border was added first
+    const image = await applyImageOperations(source(), 'extend:5,crop:20:10:northwest');
+    const { data, info } = await image.raw().toBuffer({ resolveWithObject: true });
+
+    expect([info.width, info.height]).toEqual([20, 10]);
+    expect(data[0]).toBe(0);
+  });
+
+  it('rejects a crop larger than the picture it receives', async () => {
+    await expect(applyImageOperations(source(), 'crop:60:40:center,crop:80:10:center')).rejects.toThrow(
+      'The crop area 80x10 is larger than the 60x40 image'
+    );
+  });
+});
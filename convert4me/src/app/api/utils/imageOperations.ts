@@ -0,0 +1,294 @@
+import sharp, { Sharp } from 'sharp';
+import type { OptionSchema } from './converterTypes';
+import { abortable, throwIfCancelled } from './cancellation';
+
+// Where a crop by gravity keeps its area, as compass points
+type Gravity = 'center' | 'north' | 'northeast' | 'east' | 'southeast' | 'south' | 'southwest' | 'west' | 'northwest';
+
+// One step of an image operations list
+export type ImageOperation =
+  | { type: 'autoOrient' | 'flip' | 'flop' | 'grayscale' }
+  | { type: 'crop'; width: number; height: number; left?: number; top?: number; gravity?: Gravity }
+  | { type: 'rotate'; angle: number; background: string }
+  | { type: 'blur' | 'sharpen'; sigma?: number }
+  | { type: 'brightness' | 'contrast'; factor: number }
+  | { type: 'trim'; threshold: number }
+  | { type: 'extend'; top: number; right: number; bottom: number; left: number; background: string };
+
+export interface ImageOperationOptions {
+  // Steps applied in order, e.g. autoOrient,crop:800:600:center,grayscale
+  operations?: string;
+}
+
+const MAX_OPERATIONS = 20;
+
+const DEFAULT_BACKGROUND = 'black';
+const DEFAULT_TRIM_THRESHOLD = 10;
+
+const COLOR_PATTERN = /^(#[0-9a-fA-F]{6}|[a-zA-Z]+)$/;
+
+// Horizontal and vertical alignment of each gravity, from 0 at the top left to 1 at the bottom right
+const GRAVITY_ALIGNMENTS: Record<Gravity, [number, number]> = {
+  northwest: [0, 0],
+  north: [0.5, 0],
+  northeast: [1, 0],
+  west: [0, 0.5],
+  center: [0.5, 0.5],
+  east: [1, 0.5],
+  southwest: [0, 1],
+  south: [0.5, 1],
+  southeast: [1, 1]
+};
+
+export const IMAGE_OPERATION_OPTION_SCHEMA: OptionSchema = {
+  operations: {
+    type: 'string',
+    description: 'Comma separated steps applied in order: autoOrient, crop:W:H:X:Y or crop:W:H:GRAVITY, ' +
+      'rotate:DEGREES[:COLOR], flip, flop, grayscale, blur[:SIGMA], sharpen[:SIGMA], brightness:FACTOR, ' +
+      'contrast:FACTOR, trim[:THRESHOLD], extend:PIXELS[:COLOR] or extend:TOP:RIGHT:BOTTOM:LEFT[:COLOR]'
+  }
+};
+
+/**
+ * Parse one numeric argument of a step, throwing when it is missing or out of range
+ */
+function parseArgument(value: string | undefined, name: string, min: number, max: number, integer = false): number {
+  const number = value === undefined || value.trim() === '' ? NaN : Number(value);
+  if (!Number.isFinite(number)) {
+    throw new Error(`${name} must be a number`);
+  }
+  if (integer && !Number.isInteger(number)) {
+    throw new Error(`${name} must be a whole number`);
+  }
+  if (number < min || number > max) {
+    throw new Error(`${name} must be between ${min} and ${max}`);
+  }
+  return number;
+}
+
+/**
+ * Parse an optional color argument
+ */
+function parseColor(value: string | undefined): string {
+  if (value === undefined) {
+    return DEFAULT_BACKGROUND;
+  }
+  if (!COLOR_PATTERN.test(value)) {
+    throw new Error('The color must be a color name or #RRGGBB');
+  }
+  return value;
+}
+
+/**
+ * Parse a single step such as crop:800:600:center
+ */
+function parseOperation(step: string): ImageOperation {
+  const [type, ...args] = step.trim().split(':');
+  const expectArguments = (min: number, max: number) => {
+    if (args.length < min || args.length > max) {
+      if (max === 0) {
+        throw new Error('Takes no arguments');
+      }
+      throw new Error(min === max ? `Takes ${min} argument${min === 1 ? '' : 's'}` : `Takes ${min} to ${max} arguments`);
+    }
+  };
+
+  switch (type) {
+    case 'autoOrient':
+    case 'flip':
+    case 'flop':
+    case 'grayscale':
+      expectArguments(0, 0);
+      return { type };
+
+    case 'crop': {
+      expectArguments(3, 4);
+      const width = parseArgument(args[0], 'The width', 1, 16384, true);
+      const height = parseArgument(args[1], 'The height', 1, 16384, true);
+      if (args.length === 3) {
+        if (!(args[2] in GRAVITY_ALIGNMENTS)) {
+          throw new Error(`The gravity must be one of: ${Object.keys(GRAVITY_ALIGNMENTS).join(', ')}`);
+        }
+        return { type, width, height, gravity: args[2] as Gravity };
+      }
+      return {
+        type,
+        width,
+        height,
+        left: parseArgument(args[2], 'X', 0, 16384, true),
+        top: parseArgument(args[3], 'Y', 0, 16384, true)
+      };
+    }
+
+    case 'rotate':
+      expectArguments(1, 2);
+      return { type, angle: parseArgument(args[0], 'The angle', -360, 360), background: parseColor(args[1]) };
+
+    case 'blur':
+      expectArguments(0, 1);
+      return { type, sigma: args.length ? parseArgument(args[0], 'The sigma', 0.3, 1000) : undefined };
+
+    case 'sharpen':
+      expectArguments(0, 1);
+      return { type, sigma: args.length ? parseArgument(args[0], 'The sigma', 0.01, 10) : undefined };
+
+    case 'brightness':
+    case 'contrast':
+      expectArguments(1, 1);
+      return { type, factor: parseArgument(args[0], 'The factor', 0, 10) };
+
+    case 'trim':
+      expectArguments(0, 1);
+      return { type, threshold: args.length ? parseArgument(args[0], 'The threshold', 0, 255) : DEFAULT_TRIM_THRESHOLD };
+
+    case 'extend': {
+      // One size for every side or one per side, each optionally followed by a color
+      const hasColor = args.length === 2 || args.length === 5;
+      const sizes = hasColor ? args.slice(0, -1) : args;
+      if (sizes.length !== 1 && sizes.length !== 4) {
+        throw new Error('Takes one size or four sizes (top, right, bottom, left), then an optional color');
+      }
+      const [top, right = top, bottom = top, left = right] = sizes.map(size => parseArgument(size, 'The size', 0, 4096, true));
+      return { type, top, right, bottom, left, background: parseColor(hasColor ? args[args.length - 1] : undefined) };
+    }
+
+    default:
+      throw new Error('Is not a known operation');
+  }
+}
+
+/**
+ * Parse an operations list, throwing an error that names the first invalid step
+ */
+export function parseImageOperations(list: string): ImageOperation[] {
+  const steps = list.split(',');
+  if (steps.length > MAX_OPERATIONS) {
+    throw new Error(`Must have at most ${MAX_OPERATIONS} steps`);
+  }
+
+  const operations = steps.map((step, index) => {
+    try {
+      return parseOperation(step);
+    } catch (error) {
+      throw new Error(`Step ${index + 1} (${step.trim()}): ${(error as Error).message}`);
+    }
+  });
+
+  // Pixels are passed between steps without their EXIF orientation, so it can only be read first
+  const orientIndex = operations.findIndex(operation => operation.type === 'autoOrient');
+  if (orientIndex > 0) {
+    throw new Error(`Step ${orientIndex + 1} (autoOrient): Must be the first step`);
+  }
+
+  return operations;
+}
+
+/**
+ * Check that the operations list can be parsed
+ */
+export function validateImageOperationOptions(options: ImageOperationOptions): Record<string, string> {
+  const errors: Record<string, string> = {};
+
+  if (options.operations !== undefined) {
+    try {
+      parseImageOperations(options.operations);
+    } catch (error) {
+      errors.operations = (error as Error).message;
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * Add a single step to a pipeline, given the size and channel count of the picture it receives
+ */
+function applyOperation(
+  image: Sharp,
+  operation: ImageOperation,
+  width: number,
+  height: number,
+  channels: number
+): Sharp {
+  switch (operation.type) {
+    case 'autoOrient':
+      return image.rotate();
+    case 'flip':
+      return image.flip();
+    case 'flop':
+      return image.flop();
+    case 'grayscale':
+      return image.grayscale();
+
+    case 'crop': {
+      if (operation.width > width || operation.height > height) {
+        throw new Error(`The crop area ${operation.width}x${operation.height} is larger than the ${width}x${height} image`);
+      }
+      let { left = 0, top = 0 } = operation;
+      if (operation.gravity) {
+        const [alignX, alignY] = GRAVITY_ALIGNMENTS[operation.gravity];
+        left = Math.round((width - operation.width) * alignX);
+        top = Math.round((height - operation.height) * alignY);
+      } else if (left + operation.width > width || top + operation.height > height) {
+        throw new Error(`The crop area at ${left},${top} does not fit inside the ${width}x${height} image`);
+      }
+      return image.extract({ left, top, width: operation.width, height: operation.height });
+    }
+
+    case 'rotate':
+      return image.rotate(operation.angle, { background: operation.background });
+    case 'blur':
+      return operation.sigma === undefined ? image.blur() : image.blur(operation.sigma);
+    case 'sharpen':
+      return operation.sigma === undefined ? image.sharpen() : image.sharpen({ sigma: operation.sigma });
+    case 'brightness':
+      return image.modulate({ brightness: operation.factor });
+
+    case 'contrast': {
+      // Stretch the colors around mid-grey, leaving any alpha channel alone
+      const hasAlpha = channels === 2 || channels === 4;
+      const colorChannels = hasAlpha ? channels - 1 : channels;
+      const multipliers = Array(colorChannels).fill(operation.factor);
+      const offsets = Array(colorChannels).fill(128 * (1 - operation.factor));
+      return hasAlpha
+        ? image.linear([...multipliers, 1], [...offsets, 0])
+        : image.linear(multipliers, offsets);
+    }
+
+    case 'trim':
+      return image.trim({ threshold: operation.threshold });
+    case 'extend':
+      return image.extend({
+        top: operation.top,
+        right: operation.right,
+        bottom: operation.bottom,
+        left: operation.left,
+        background: operation.background
+      });
+  }
+}
+
+/**
+ * Apply an operations list to an image, one step at a time
+ */
+export async function applyImageOperations(image: Sharp, list: string, signal?: AbortSignal): Promise<Sharp> {
+  const operations = parseImageOperations(list);
+  const metadata = await image.metadata();
+  let width = metadata.width || 0;
+  let height = metadata.height || 0;
+  let channels: 1 | 2 | 3 | 4 = metadata.channels || 3;
+
+  for (const operation of operations) {
+    throwIfCancelled(signal);
+
+    // sharp runs the operations of one pipeline in its own fixed order, so each step is rendered before the next
+    const step: Sharp = applyOperation(image, operation, width, height, channels);
+    const { data, info } = await abortable(step.raw().toBuffer({ resolveWithObject: true }), signal);
+    width = info.width;
+    height = info.height;
+    channels = info.channels;
+    image = sharp(data, { raw: { width, height, channels } });
+  }
+
+  return image;
+}
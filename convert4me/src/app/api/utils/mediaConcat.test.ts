@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import type { MediaInfo } from './mediaProbe';
+import { buildConcatGraph } from './mediaConcat';
+
+/**
+ * Describe a probed clip, by default a 10 second 1280x720 video with sound
+ */
+function clip(info: Partial<MediaInfo> = {}): MediaInfo {
+  return { duration: 10, hasVideo: true, hasAudio: true, width: 1280, height: 720, frameRate: 25, subtitleTracks: [], ...info };
+}
+
+describe('buildConcatGraph', () => {
+  it('scales, pads and retimes every video clip to the first one', () => {
+    const { inputArgs, filterGraph } = buildConcatGraph([clip(), clip({ width: 640, height: 480, frameRate: 30 })], true);
+
+    expect(inputArgs).toEqual([]);
+    expect(filterGraph.split(';')).toEqual([
+      '[0:v]scale=1280:720:force_original_aspect_ratio=decrease,pad=1280:720:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=25,format=yuv420p[v0]',
+      '[0:a]aresample=48000,aformat=sample_fmts=fltp:channel_layouts=stereo[a0]',
+      '[1:v]scale=1280:720:force_original_aspect_ratio=decrease,pad=1280:720:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=25,format=yuv420p[v1]',
+      '[1:a]aresample=48000,aformat=sample_fmts=fltp:channel_layouts=stereo[a1]',
+      '[v0][a0][v1][a1]concat=n=2:v=1:a=1[v][a]'
+    ]);
+  });
+
+  it('uses the requested size and frame rate, rounding the first clip to even dimensions otherwise', () => {
+    expect(buildConcatGraph([clip(), clip()], true, { resolution: '640x360', frameRate: 24 }).filterGraph)
+      .toContain('[0:v]scale=640:360:force_original_aspect_ratio=decrease,pad=640:360:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=24,');
+    expect(buildConcatGraph([clip({ width: 641, height: 361 }), clip()], true).filterGraph)
+      .toContain('pad=642:362:');
+  });
+
+  it('fills video clips without sound with silence from an extra input', () => {
+    const { inputArgs, filterGraph } = buildConcatGraph([clip(), clip({ hasAudio: false, duration: 4.5 }), clip()], true);
+
+    expect(inputArgs).toEqual(['-f', 'lavfi', '-t', '4.5', '-i', 'anullsrc=r=48000:cl=stereo']);
+    expect(filterGraph).toContain('[3:a]anull[a1]');
+    expect(filterGraph).toContain('[v0][a0][v1][a1][v2][a2]concat=n=3:v=1:a=1[v][a]');
+  });
+
+  it('rejects a silent clip whose length is unknown, since the sound would drift from the picture', () => {
+    expect(() => buildConcatGraph([clip(), clip({ hasAudio: false, duration: 0 })], true))
+      .toThrow('Clip 2 has no audio track and no known duration to fill with silence');
+  });
+
+  it('joins only the audio of clips for audio output', () => {
+    const { filterGraph } = buildConcatGraph([clip({ hasVideo: false }), clip()], false);
+
+    expect(filterGraph).not.toContain(':v]');
+    expect(filterGraph).toContain('[a0][a1]concat=n=2:v=0:a=1[a]');
+  });
+
+  it('rejects clips missing the tracks the output needs', () => {
+    expect(() => buildConcatGraph([clip(), clip({ hasVideo: false })], true)).toThrow('Clip 2 has no video track');
+    expect(() => buildConcatGraph([clip(), clip({ hasAudio: false })], false)).toThrow('Clip 2 has no audio track');
+  });
+});
@@ -0,0 +1,172 @@
+import { join, basename, extname } from 'path';
+import type { OptionSchema, ProgressDetails } from './converterTypes';
+import { MediaInfo, probeMedia } from './mediaProbe';
+import { AUDIO_OUTPUT_CODECS } from './audioConverter';
+import { BITRATE_PATTERN, getVideoCodecArgs, runFfmpeg } from './videoConverter';
+
+export interface ConcatOptions {
+  resolution?: string;
+  frameRate?: number;
+  videoBitrate?: string;
+  audioBitrate?: string;
+}
+
+// Containers a joined video can be written to
+export const CONCAT_VIDEO_FORMATS = ['mp4', 'mov', 'avi', 'mkv', 'webm'];
+
+// Joined audio can be written to any audio output format
+export const CONCAT_AUDIO_FORMATS = Object.keys(AUDIO_OUTPUT_CODECS);
+
+export const CONCAT_OPTION_SCHEMA: OptionSchema = {
+  resolution: {
+    type: 'string',
+    pattern: '^\\d{2,5}x\\d{2,5}$',
+    patternDescription: 'Must be WIDTHxHEIGHT, e.g. 1280x720',
+    description: 'Resolution every clip is scaled and padded to, defaults to the first clip'
+  },
+  frameRate: { type: 'number', min: 1, max: 240, description: 'Frame rate every clip is converted to, defaults to the first clip' },
+  videoBitrate: {
+    type: 'string',
+    pattern: BITRATE_PATTERN,
+    patternDescription: 'Must be a bitrate such as 2M or 800k',
+    description: 'Video bitrate, e.g. 2M'
+  },
+  audioBitrate: {
+    type: 'string',
+    pattern: BITRATE_PATTERN,
+    patternDescription: 'Must be a bitrate such as 128k',
+    description: 'Audio bitrate, e.g. 128k'
+  }
+};
+
+// Audio every clip is resampled to so the tracks can be joined
+const CONCAT_SAMPLE_RATE = 48000;
+const CONCAT_CHANNEL_LAYOUT = 'stereo';
+
+/**
+ * Pick the output size, defaulting to the first clip and keeping dimensions even for the encoders
+ */
+function getTargetSize(clips: MediaInfo[], resolution?: string): { width: number; height: number } {
+  if (resolution) {
+    const [width, height] = resolution.split('x').map(Number);
+    return { width, height };
+  }
+
+  const first = clips.find(clip => clip.hasVideo && clip.width && clip.height);
+  if (!first?.width || !first.height) {
+    throw new Error('None of the clips contains a video track');
+  }
+
+  return {
+    width: Math.round(first.width / 2) * 2,
+    height: Math.round(first.height / 2) * 2
+  };
+}
+
+/**
+ * Build the filter graph that joins the clips into [a], and [v] for video output.
+ * Video clips without sound read silence from extra inputs, numbered after the clips.
+ */
+export function buildConcatGraph(
+  clips: MediaInfo[],
+  isVideo: boolean,
+  options: ConcatOptions = {}
+): { inputArgs: string[]; filterGraph: string } {
+  const filters: string[] = [];
+  const segments: string[] = [];
+  const inputArgs: string[] = [];
+  let extraInputs = clips.length;
+
+  const { width, height } = isVideo ? getTargetSize(clips, options.resolution) : { width: 0, height: 0 };
+  const frameRate = options.frameRate || clips.find(clip => clip.frameRate)?.frameRate || 30;
+
+  clips.forEach((clip, index) => {
+    if (isVideo) {
+      if (!clip.hasVideo) {
+        throw new Error(`Clip ${index + 1} has no video track`);
+      }
+
+      // Fit inside the target size and letterbox the rest
+      filters.push(
+        `[${index}:v]scale=${width}:${height}:force_original_aspect_ratio=decrease,` +
+        `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2,setsar=1,fps=${frameRate},format=yuv420p[v${index}]`
+      );
+      segments.push(`[v${index}]`);
+    }
+
+    if (clip.hasAudio) {
+      filters.push(
+        `[${index}:a]aresample=${CONCAT_SAMPLE_RATE},` +
+        `aformat=sample_fmts=fltp:channel_layouts=${CONCAT_CHANNEL_LAYOUT}[a${index}]`
+      );
+    } else if (isVideo) {
+      // Fill clips without sound with silence of the same length, so the sound stays in step with the picture
+      if (!clip.duration) {
+        throw new Error(`Clip ${index + 1} has no audio track and no known duration to fill with silence`);
+      }
+      inputArgs.push('-f', 'lavfi', '-t', clip.duration.toString(), '-i', `anullsrc=r=${CONCAT_SAMPLE_RATE}:cl=${CONCAT_CHANNEL_LAYOUT}`);
+      filters.push(`[${extraInputs}:a]anull[a${index}]`);
+      extraInputs++;
+    } else {
+      throw new Error(`Clip ${index + 1} has no audio track`);
+    }
+    segments.push(`[a${index}]`);
+  });
+
+  filters.push(`${segments.join('')}concat=n=${clips.length}:v=${isVideo ? 1 : 0}:a=1${isVideo ? '[v]' : ''}[a]`);
+
+  return { inputArgs, filterGraph: filters.join(';') };
+}
+
+/**
+ * Join several audio or video clips, one after another, into a single file.
+ * Video clips are scaled, padded and retimed to match; clips without audio get silence.
+ */
+export async function concatMedia(
+  inputPaths: string[],
+  outputFormat: string,
+  options: ConcatOptions = {},
+  progressCallback: (progress: number, details?: ProgressDetails) => void = () => {},
+  jobId?: string,
+  signal?: AbortSignal,
+  outputDir: string = join(process.cwd(), 'output')
+): Promise<string> {
+  const isVideo = CONCAT_VIDEO_FORMATS.includes(outputFormat);
+  if (!isVideo && !CONCAT_AUDIO_FORMATS.includes(outputFormat)) {
+    throw new Error(`Unsupported output format: ${outputFormat}`);
+  }
+  if (inputPaths.length < 2) {
+    throw new Error('At least two clips are required');
+  }
+
+  const clips = await Promise.all(inputPaths.map(inputPath => probeMedia(inputPath)));
+  const totalDuration = clips.reduce((total, clip) => total + clip.duration, 0);
+
+  const outputFilename = `${basename(inputPaths[0], extname(inputPaths[0]))}-joined.${outputFormat}`;
+  const outputPath = join(outputDir, outputFilename);
+
+  const args: string[] = [];
+  for (const inputPath of inputPaths) {
+    args.push('-i', inputPath);
+  }
+
+  const { inputArgs, filterGraph } = buildConcatGraph(clips, isVideo, options);
+  args.push(...inputArgs, '-filter_complex', filterGraph);
+
+  if (isVideo) {
+    args.push('-map', '[v]', '-map', '[a]', ...await getVideoCodecArgs(outputFormat));
+    if (options.videoBitrate) {
+      args.push('-b:v', options.videoBitrate);
+    }
+  } else {
+    args.push('-map', '[a]', ...AUDIO_OUTPUT_CODECS[outputFormat].args);
+  }
+  if (options.audioBitrate && (isVideo || !AUDIO_OUTPUT_CODECS[outputFormat].lossless)) {
+    args.push('-b:a', options.audioBitrate);
+  }
+
+  args.push('-y', outputPath);
+
+  await runFfmpeg(args, progressCallback, jobId, signal, totalDuration);
+  return outputPath;
+}
@@ -0,0 +1,253 @@
+import { spawn } from 'child_process';
+import { existsSync } from 'fs';
+import ffprobeStatic from 'ffprobe-static';
+
+export interface SubtitleTrack {
+  // Position among the file's subtitle streams, as used by -map 0:s:N
+  index: number;
+  codec: string;
+  language?: string;
+  title?: string;
+}
+
+export interface MediaInfo {
+  // Duration in seconds, 0 when unknown
+  duration: number;
+  hasVideo: boolean;
+  hasAudio: boolean;
+  width?: number;
+  height?: number;
+  frameRate?: number;
+  // Codecs of the main video and audio tracks as named by FFprobe, e.g. h264 or aac
+  videoCodec?: string;
+  audioCodec?: string;
+  // Sample rate of the main audio track in Hz
+  sampleRate?: number;
+  subtitleTracks: SubtitleTrack[];
+}
+
+export interface StreamDetails {
+  // Position among all of the file's streams
+  index: number;
+  type: string;
+  codec: string;
+  codecLongName?: string;
+  profile?: string;
+  // Bits per second
+  bitrate?: number;
+  duration?: number;
+  language?: string;
+  title?: string;
+  // Video streams
+  width?: number;
+  height?: number;
+  frameRate?: number;
+  pixelFormat?: string;
+  colorSpace?: string;
+  colorPrimaries?: string;
+  colorTransfer?: string;
+  // Audio streams
+  sampleRate?: number;
+  channels?: number;
+  channelLayout?: string;
+}
+
+export interface MediaDetails {
+  // Container as named by FFprobe, e.g. mov,mp4,m4a,3gp,3g2,mj2
+  container: string;
+  containerLongName?: string;
+  duration: number;
+  bitrate?: number;
+  streams: StreamDetails[];
+  // Container level metadata such as title, artist or encoder
+  tags: Record<string, string>;
+}
+
+// Known system paths for FFprobe
+const FFPROBE_SYSTEM_PATHS = [
+  '/usr/bin/ffprobe',
+  '/usr/local/bin/ffprobe',
+  '/opt/homebrew/bin/ffprobe',
+  'C:\\ffmpeg\\bin\\ffprobe.exe'
+];
+
+interface FfprobeStream {
+  index: number;
+  codec_type?: string;
+  codec_name?: string;
+  codec_long_name?: string;
+  profile?: string;
+  tags?: Record<string, string>;
+  width?: number;
+  height?: number;
+  avg_frame_rate?: string;
+  r_frame_rate?: string;
+  pix_fmt?: string;
+  color_space?: string;
+  color_primaries?: string;
+  color_transfer?: string;
+  sample_rate?: string;
+  channels?: number;
+  channel_layout?: string;
+  bit_rate?: string;
+  duration?: string;
+}
+
+interface FfprobeOutput {
+  streams?: FfprobeStream[];
+  format?: {
+    format_name?: string;
+    format_long_name?: string;
+    duration?: string;
+    bit_rate?: string;
+    tags?: Record<string, string>;
+  };
+}
+
+/**
+ * Find a working ffprobe command - try multiple possible locations
+ */
+export function getFfprobeCommand(): string {
+  // First try the ffprobe-static path
+  if (ffprobeStatic.path && existsSync(ffprobeStatic.path)) {
+    return ffprobeStatic.path;
+  }
+
+  // Then try common system paths
+  for (const path of FFPROBE_SYSTEM_PATHS) {
+    if (existsSync(path)) {
+      return path;
+    }
+  }
+
+  // If still not found, try the simple command (might be in PATH)
+  return 'ffprobe';
+}
+
+/**
+ * Convert an FFprobe frame rate fraction such as 30000/1001 to a number
+ */
+function parseFrameRate(rate?: string): number | undefined {
+  if (!rate) {
+    return undefined;
+  }
+
+  const [numerator, denominator = '1'] = rate.split('/');
+  const value = parseFloat(numerator) / parseFloat(denominator);
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+/**
+ * Parse an FFprobe number field, which is a string and may be "N/A"
+ */
+function parseNumber(value?: string): number | undefined {
+  const number = parseFloat(value || '');
+  return Number.isFinite(number) ? number : undefined;
+}
+
+/**
+ * Run FFprobe on a file and parse its JSON description of the container and streams
+ */
+function runFfprobe(filePath: string): Promise<FfprobeOutput> {
+  return new Promise((resolve, reject) => {
+    const args = ['-v', 'error', '-print_format', 'json', '-show_format', '-show_streams', filePath];
+    const ffprobe = spawn(getFfprobeCommand(), args);
+    let stdout = '';
+    let stderr = '';
+
+    ffprobe.stdout.on('data', (data) => {
+      stdout += data.toString();
+    });
+    ffprobe.stderr.on('data', (data) => {
+      stderr += data.toString();
+    });
+
+    ffprobe.on('close', (code) => {
+      if (code !== 0) {
+        reject(new Error(`FFprobe exited with code ${code}: ${stderr}`));
+        return;
+      }
+
+      try {
+        resolve(JSON.parse(stdout));
+      } catch (error) {
+        reject(new Error(`Could not parse FFprobe output: ${error instanceof Error ? error.message : error}`));
+      }
+    });
+
+    ffprobe.on('error', (err) => {
+      reject(new Error(`FFprobe process error: ${err.message}`));
+    });
+  });
+}
+
+/**
+ * Read the duration and main stream properties of an audio or video file
+ */
+export async function probeMedia(filePath: string): Promise<MediaInfo> {
+  const output = await runFfprobe(filePath);
+  const streams = output.streams || [];
+  const video = streams.find(stream => stream.codec_type === 'video');
+  const audio = streams.find(stream => stream.codec_type === 'audio');
+
+  // Fall back to the stream durations for containers without one
+  const duration = parseNumber(output.format?.duration) ?? parseNumber(video?.duration) ?? parseNumber(audio?.duration) ?? 0;
+
+  return {
+    duration,
+    hasVideo: !!video,
+    hasAudio: !!audio,
+    width: video?.width,
+    height: video?.height,
+    frameRate: parseFrameRate(video?.avg_frame_rate) || parseFrameRate(video?.r_frame_rate),
+    videoCodec: video?.codec_name,
+    audioCodec: audio?.codec_name,
+    sampleRate: parseNumber(audio?.sample_rate),
+    subtitleTracks: streams
+      .filter(stream => stream.codec_type === 'subtitle')
+      .map((stream, index) => ({
+        index,
+        codec: stream.codec_name || 'unknown',
+        language: stream.tags?.language,
+        title: stream.tags?.title
+      }))
+  };
+}
+
+/**
+ * Describe the container and every stream of an audio, video or subtitle file
+ */
+export async function probeMediaDetails(filePath: string): Promise<MediaDetails> {
+  const output = await runFfprobe(filePath);
+
+  return {
+    container: output.format?.format_name || 'unknown',
+    containerLongName: output.format?.format_long_name,
+    duration: parseNumber(output.format?.duration) ?? 0,
+    bitrate: parseNumber(output.format?.bit_rate),
+    tags: output.format?.tags || {},
+    streams: (output.streams || []).map(stream => ({
+      index: stream.index,
+      type: stream.codec_type || 'unknown',
+      codec: stream.codec_name || 'unknown',
+      codecLongName: stream.codec_long_name,
+      profile: stream.profile,
+      bitrate: parseNumber(stream.bit_rate),
+      duration: parseNumber(stream.duration),
+      language: stream.tags?.language,
+      title: stream.tags?.title,
+      width: stream.width,
+      height: stream.height,
+      frameRate: stream.codec_type === 'video'
+        ? parseFrameRate(stream.avg_frame_rate) || parseFrameRate(stream.r_frame_rate)
+        : undefined,
+      pixelFormat: stream.pix_fmt,
+      colorSpace: stream.color_space,
+      colorPrimaries: stream.color_primaries,
+      colorTransfer: stream.color_transfer,
+      sampleRate: parseNumber(stream.sample_rate),
+      channels: stream.channels,
+      channelLayout: stream.channel_layout
+    }))
+  };
+}
@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+import type { Converter, ConversionStep, OptionSchema } from './converterTypes';
+import { pickOptions, validateOptions, validatePlanOptions } from './optionValidation';
+import { planConversion } from './converters';
+
+/**
+ * Build a plan step for a converter that only declares options
+ */
+function step(
+  id: string,
+  optionSchema: OptionSchema,
+  extra: Partial<Converter> = {},
+  inputFormat = 'a',
+  outputFormat = 'b'
+): ConversionStep {
+  const converter: Converter = {
+    id,
+    category: 'image',
+    supportedInputFormats: [inputFormat],
+    possibleOutputFormats: [outputFormat],
+    optionSchema,
+    convert: async () => '',
+    ...extra
+  };
+  return { converter, inputFormat, outputFormat };
+}
+
+describe('validateOptions', () => {
+  const schema: OptionSchema = {
+    width: { type: 'integer', min: 1, max: 100 },
+    scale: { type: 'number', default: 1 },
+    flip: { type: 'boolean' },
+    fit: { type: 'enum', values: ['cover', 'contain'], default: 'contain' },
+    color: { type: 'string', pattern: '^#[0-9a-f]{6}$', patternDescription: 'Must be a hex color' }
+  };
+
+  it('normalizes form strings and applies defaults', () => {
+    const { options, errors } = validateOptions(schema, { width: '50', flip: 'true', color: '#00ff00', scale: '' });
+
+    expect(errors).toEqual({});
+    expect(options).toEqual({ width: 50, scale: 1, flip: true, fit: 'contain', color: '#00ff00' });
+  });
+
+  it('reports an error per invalid field', () => {
+    const { errors } = validateOptions(schema, { width: 2.5, scale: 'big', flip: 'yes', fit: 'fill', color: 'red', size: 1 });
+
+    expect(errors).toEqual({
+      width: 'Must be a whole number',
+      scale: 'Must be a number',
+      flip: 'Must be true or false',
+      fit: 'Must be one of: cover, contain',
+      color: 'Must be a hex color',
+      size: 'Unknown option for this conversion'
+    });
+    expect(validateOptions(schema, { width: 0 }).errors).toEqual({ width: 'Must be at least 1' });
+  });
+
+  it('rejects options that are not an object', () => {
+    expect(validateOptions(schema, [1]).errors).toEqual({ options: 'Options must be an object' });
+    expect(validateOptions(schema, null).errors).toEqual({});
+  });
+});
+
+describe('pickOptions', () => {
+  it('picks the options a converter declares', () => {
+    const schema: OptionSchema = { quality: { type: 'integer' }, width: { type: 'integer' } };
+
+    expect(pickOptions(schema, { quality: 60, density: 150, width: undefined })).toEqual({ quality: 60 });
+  });
+});
+
+describe('validatePlanOptions', () => {
+  it('gives each step only the options it declares', () => {
+    const plan = [
+      step('first', { quality: { type: 'integer', default: 80 } }),
+      step('second', { width: { type: 'integer' } })
+    ];
+    const { stepOptions, options, errors } = validatePlanOptions(plan, { quality: 60, width: 10 });
+
+    expect(errors).toEqual({});
+    expect(stepOptions).toEqual([{ quality: 60 }, { width: 10 }]);
+    expect(options).toEqual({ quality: 60, width: 10 });
+  });
+
+  it('validates a shared option against each step that declares it', () => {
+    const plan = [
+      step('video', { mode: { type: 'enum', values: ['frame', 'contactSheet'] } }),
+      step('image', { mode: { type: 'enum', values: ['frame', 'frames'] } })
+    ];
+
+    const shared = validatePlanOptions(plan, { mode: 'frame' });
+    expect(shared.stepOptions).toEqual([{ mode: 'frame' }, { mode: 'frame' }]);
+
+    const firstOnly = validatePlanOptions(plan, { mode: 'contactSheet' });
+    expect(firstOnly.errors).toEqual({});
+    expect(firstOnly.stepOptions).toEqual([{ mode: 'contactSheet' }, {}]);
+
+    const none = validatePlanOptions(plan, { mode: 'animation' });
+    expect(none.errors).toEqual({ mode: 'Must be one of: frame, frames' });
+  });
+
+  it('falls back to the default for steps whose own checks reject an option', () => {
+    const plan = [
+      step('document', { density: { type: 'integer', default: 300 } }),
+      step('image', { density: { type: 'number' } }, {
+        validate: (options): Record<string, string> =>
+          options.density !== undefined ? { density: 'Only applies to SVG input' } : {}
+      })
+    ];
+    const { stepOptions, errors } = validatePlanOptions(plan, { density: 150 });
+
+    expect(errors).toEqual({});
+    expect(stepOptions).toEqual([{ density: 150 }, {}]);
+  });
+
+  it('forces intermediate options on steps whose output is converted further', () => {
+    const pages = step('document', { extractAllPages: { type: 'boolean', default: true } }, {
+      intermediateOptions: { extractAllPages: false }
+    });
+    const plan = [pages, step('image', {})];
+
+    expect(validatePlanOptions(plan, {}).stepOptions[0]).toEqual({ extractAllPages: false });
+    expect(validatePlanOptions(plan, { extractAllPages: true }).errors).toEqual({
+      extractAllPages: 'Cannot be changed when the output is converted further'
+    });
+    expect(validatePlanOptions([pages], {}).stepOptions[0]).toEqual({ extractAllPages: true });
+  });
+
+  it('keeps cross-field errors of a single converter', () => {
+    const plan = [
+      step('audio', { fadeOut: { type: 'number' }, trimSilence: { type: 'boolean' } }, {
+        validate: (options): Record<string, string> =>
+          options.fadeOut && options.trimSilence ? { fadeOut: 'Cannot be combined with trimSilence' } : {}
+      })
+    ];
+
+    expect(validatePlanOptions(plan, { fadeOut: 2, trimSilence: true }).errors).toEqual({
+      fadeOut: 'Cannot be combined with trimSilence'
+    });
+  });
+
+  it('rejects unknown options and options that are not an object', () => {
+    const plan = [step('image', { width: { type: 'integer' } })];
+
+    expect(validatePlanOptions(plan, { height: 5 }).errors).toEqual({ height: 'Unknown option for this conversion' });
+    expect(validatePlanOptions(plan, 'width=5').errors).toEqual({ options: 'Options must be an object' });
+  });
+
+  it('accepts the options of every step of a registered multi-step conversion', () => {
+    const videoToPdf = validatePlanOptions(planConversion('mp4', 'pdf') || [], { mode: 'contactSheet', frameCount: 4 });
+    expect(videoToPdf.errors).toEqual({});
+    expect(videoToPdf.stepOptions[0]).toMatchObject({ mode: 'contactSheet', frameCount: 4 });
+    expect(videoToPdf.stepOptions[1].mode).toBeUndefined();
+
+    const pdfToGif = validatePlanOptions(planConversion('pdf', 'gif') || [], { density: 150 });
+    expect(pdfToGif.errors).toEqual({});
+    expect(pdfToGif.stepOptions[0]).toEqual({ density: 150, extractAllPages: false });
+  });
+});
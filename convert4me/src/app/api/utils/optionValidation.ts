@@ -0,0 +1,228 @@
+import type { ConversionStep, OptionDefinition, OptionSchema } from './converterTypes';
+
+export interface OptionValidationResult {
+  // Options normalized to their declared types, with defaults applied
+  options: Record<string, unknown>;
+  // Error message per invalid field, empty when the options are valid
+  errors: Record<string, string>;
+}
+
+export interface PlanOptionValidationResult extends OptionValidationResult {
+  // Options of each step of the plan, in plan order
+  stepOptions: Record<string, unknown>[];
+}
+
+/**
+ * Normalize a single option value, returning an error message when it is invalid
+ */
+function normalizeOption(definition: OptionDefinition, value: unknown): { value?: unknown; error?: string } {
+  switch (definition.type) {
+    case 'number':
+    case 'integer': {
+      // Numeric strings are accepted since form fields submit strings
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof number !== 'number' || !Number.isFinite(number)) {
+        return { error: 'Must be a number' };
+      }
+      if (definition.type === 'integer' && !Number.isInteger(number)) {
+        return { error: 'Must be a whole number' };
+      }
+      if (definition.min !== undefined && number < definition.min) {
+        return { error: `Must be at least ${definition.min}` };
+      }
+      if (definition.max !== undefined && number > definition.max) {
+        return { error: `Must be at most ${definition.max}` };
+      }
+      return { value: number };
+    }
+
+    case 'boolean': {
+      if (typeof value === 'boolean') {
+        return { value };
+      }
+      if (value === 'true' || value === 'false') {
+        return { value: value === 'true' };
+      }
+      return { error: 'Must be true or false' };
+    }
+
+    case 'enum': {
+      if (typeof value !== 'string' || !definition.values?.includes(value)) {
+        return { error: `Must be one of: ${(definition.values || []).join(', ')}` };
+      }
+      return { value };
+    }
+
+    case 'string': {
+      if (typeof value !== 'string') {
+        return { error: 'Must be a string' };
+      }
+      if (definition.pattern && !new RegExp(definition.pattern).test(value)) {
+        return { error: definition.patternDescription || 'Has an invalid format' };
+      }
+      return { value };
+    }
+
+    default:
+      return { error: 'Has an unsupported option type' };
+  }
+}
+
+/**
+ * Validate raw conversion options against a schema
+ */
+export function validateOptions(schema: OptionSchema, rawOptions: unknown): OptionValidationResult {
+  const options: Record<string, unknown> = {};
+  const errors: Record<string, string> = {};
+
+  if (rawOptions === undefined || rawOptions === null) {
+    rawOptions = {};
+  }
+
+  if (typeof rawOptions !== 'object' || Array.isArray(rawOptions)) {
+    return { options, errors: { options: 'Options must be an object' } };
+  }
+
+  const raw = rawOptions as Record<string, unknown>;
+
+  // Reject options no converter in the plan understands
+  for (const key of Object.keys(raw)) {
+    if (!schema[key]) {
+      errors[key] = 'Unknown option for this conversion';
+    }
+  }
+
+  for (const [key, definition] of Object.entries(schema)) {
+    const value = raw[key];
+
+    // Empty values fall back to the default
+    if (value === undefined || value === null || value === '') {
+      if (definition.default !== undefined) {
+        options[key] = definition.default;
+      }
+      continue;
+    }
+
+    const result = normalizeOption(definition, value);
+    if (result.error) {
+      errors[key] = result.error;
+    } else {
+      options[key] = result.value;
+    }
+  }
+
+  return { options, errors };
+}
+
+/**
+ * Pick the options a single converter declares from a set of validated options
+ */
+export function pickOptions(schema: OptionSchema, options: Record<string, unknown>): Record<string, unknown> {
+  const picked: Record<string, unknown> = {};
+
+  for (const key of Object.keys(schema)) {
+    if (options[key] !== undefined) {
+      picked[key] = options[key];
+    }
+  }
+
+  return picked;
+}
+
+/**
+ * Validate the options a single step declares, including the converter's own checks.
+ * Options the step rejects fall back to its defaults, since another step of the plan may accept them.
+ */
+function validateStepOptions(
+  step: ConversionStep,
+  raw: Record<string, unknown>
+): OptionValidationResult & { rejected: Record<string, string> } {
+  const given = pickOptions(step.converter.optionSchema, raw);
+  const rejected: Record<string, string> = {};
+
+  for (;;) {
+    const result = validateOptions(step.converter.optionSchema, given);
+    if (Object.keys(result.errors).length === 0 && step.converter.validate) {
+      result.errors = step.converter.validate(result.options, step.inputFormat, step.outputFormat);
+    }
+
+    // Errors about options nobody gave, e.g. a missing companion option, cannot be resolved by dropping one
+    const droppable = Object.keys(result.errors).filter(key => key in given);
+    if (droppable.length === 0) {
+      return { ...result, rejected };
+    }
+
+    for (const key of droppable) {
+      rejected[key] = result.errors[key];
+      delete given[key];
+    }
+  }
+}
+
+/**
+ * Validate raw options for every converter in a conversion plan.
+ * An option is passed to every step that declares and accepts it, and is only invalid when no step accepts it.
+ */
+export function validatePlanOptions(plan: ConversionStep[], rawOptions: unknown): PlanOptionValidationResult {
+  const options: Record<string, unknown> = {};
+  const stepOptions: Record<string, unknown>[] = [];
+  const errors: Record<string, string> = {};
+
+  if (rawOptions === undefined || rawOptions === null) {
+    rawOptions = {};
+  }
+
+  if (typeof rawOptions !== 'object' || Array.isArray(rawOptions)) {
+    return { options, stepOptions, errors: { options: 'Options must be an object' } };
+  }
+
+  const raw = rawOptions as Record<string, unknown>;
+  // Value of each option, as normalized by the first step accepting it
+  const accepted: Record<string, unknown> = {};
+  // Why an option was rejected, by the last step declaring it
+  const rejections: Record<string, string> = {};
+
+  plan.forEach((step, index) => {
+    const result = validateStepOptions(step, raw);
+    const isLastStep = index === plan.length - 1;
+    const forced = isLastStep ? {} : step.converter.intermediateOptions || {};
+
+    for (const key of Object.keys(pickOptions(step.converter.optionSchema, raw))) {
+      if (key in forced && result.options[key] !== forced[key]) {
+        result.rejected[key] = 'Cannot be changed when the output is converted further';
+      }
+      if (key in result.rejected) {
+        rejections[key] = result.rejected[key];
+      } else if (!(key in accepted)) {
+        accepted[key] = result.options[key];
+      }
+    }
+
+    Object.assign(errors, result.errors);
+    stepOptions.push({ ...result.options, ...forced });
+  });
+
+  for (const key of Object.keys(raw)) {
+    if (!plan.some(step => step.converter.optionSchema[key])) {
+      errors[key] = 'Unknown option for this conversion';
+    } else if (!(key in accepted)) {
+      errors[key] = rejections[key];
+    }
+  }
+
+  // The options of the whole conversion: every default, overridden by the values the user gave
+  stepOptions.forEach(stepOption => {
+    for (const [key, value] of Object.entries(stepOption)) {
+      if (!(key in options)) {
+        options[key] = value;
+      }
+    }
+  });
+  for (const [key, value] of Object.entries(accepted)) {
+    if (value !== undefined) {
+      options[key] = value;
+    }
+  }
+
+  return { options, stepOptions, errors };
+}
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import sharp from 'sharp';
+import { buildPdfFromImages } from './pdfWriter';
+
+/**
+ * Encode a solid color JPEG of the given size
+ */
+function solidJpeg(width: number, height: number): Promise<Buffer> {
+  return sharp({ create: { width, height, channels: 3, background: '#3366cc' } }).jpeg().toBuffer();
+}
+
+describe('buildPdfFromImages', () => {
+  it('writes one page per image, sized by the pixel density', async () => {
+    const pdf = buildPdfFromImages([
+      { jpeg: await solidJpeg(144, 72), width: 144, height: 72, density: 144 },
+      { jpeg: await solidJpeg(20, 30), width: 20, height: 30, channels: 1 }
+    ]).toString('latin1');
+
+    expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(pdf).toContain('/Count 2');
+    expect(pdf).toContain('/MediaBox [0 0 72 36]');
+    expect(pdf).toContain('/MediaBox [0 0 20 30]');
+    expect(pdf).toContain('/ColorSpace /DeviceGray');
+  });
+
+  it('points every cross-reference entry at its object', async () => {
+    const pdf = buildPdfFromImages([{ jpeg: await solidJpeg(8, 8), width: 8, height: 8 }]).toString('latin1');
+
+    const xrefOffset = Number(pdf.match(/startxref\n(\d+)/)?.[1]);
+    expect(pdf.startsWith('xref\n', xrefOffset)).toBe(true);
+
+    const entries = pdf.slice(xrefOffset).match(/^\d{10} 00000 n $/gm) || [];
+    expect(entries).toHaveLength(5);
+    entries.forEach((entry, index) => {
+      expect(pdf.startsWith(`${index + 1} 0 obj\n`, Number(entry.slice(0, 10)))).toBe(true);
+    });
+  });
+
+  it('refuses to write a document without pages', () => {
+    expect(() => buildPdfFromImages([])).toThrow('Cannot create a PDF without pages');
+  });
+});
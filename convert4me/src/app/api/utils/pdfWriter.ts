@@ -0,0 +1,94 @@
+import { writeFile } from 'fs/promises';
+
+export interface PdfImagePage {
+  // Baseline JPEG data for the page
+  jpeg: Buffer;
+  width: number;
+  height: number;
+  // Pixel density used to size the page, defaults to 72 DPI (one pixel per point)
+  density?: number;
+  // Number of color channels in the JPEG (1 for grayscale, 3 for RGB)
+  channels?: number;
+}
+
+/**
+ * Build a PDF document with one JPEG image per page
+ */
+export function buildPdfFromImages(pages: PdfImagePage[]): Buffer {
+  if (pages.length === 0) {
+    throw new Error('Cannot create a PDF without pages');
+  }
+
+  const chunks: Buffer[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const write = (data: string | Buffer) => {
+    const buffer = typeof data === 'string' ? Buffer.from(data, 'latin1') : data;
+    chunks.push(buffer);
+    length += buffer.length;
+  };
+
+  // Object numbers: 1 catalog, 2 page tree, then page, image and content per page
+  const pageObjectId = (index: number) => 3 + index * 3;
+  const objectCount = 2 + pages.length * 3;
+
+  const beginObject = (id: number) => {
+    offsets[id] = length;
+    write(`${id} 0 obj\n`);
+  };
+
+  write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+
+  beginObject(1);
+  write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+
+  beginObject(2);
+  const kids = pages.map((_, index) => `${pageObjectId(index)} 0 R`).join(' ');
+  write(`<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>\nendobj\n`);
+
+  pages.forEach((page, index) => {
+    const pageId = pageObjectId(index);
+    const imageId = pageId + 1;
+    const contentId = pageId + 2;
+    const scale = 72 / (page.density || 72);
+    const pageWidth = Number((page.width * scale).toFixed(2));
+    const pageHeight = Number((page.height * scale).toFixed(2));
+    const colorSpace = page.channels === 1 ? '/DeviceGray' : '/DeviceRGB';
+    const content = `q ${pageWidth} 0 0 ${pageHeight} 0 0 cm /Im0 Do Q`;
+
+    beginObject(pageId);
+    write(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth} ${pageHeight}] ` +
+      `/Resources << /XObject << /Im0 ${imageId} 0 R >> >> /Contents ${contentId} 0 R >>\nendobj\n`
+    );
+
+    beginObject(imageId);
+    write(
+      `<< /Type /XObject /Subtype /Image /Width ${page.width} /Height ${page.height} ` +
+      `/ColorSpace ${colorSpace} /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`
+    );
+    write(page.jpeg);
+    write('\nendstream\nendobj\n');
+
+    beginObject(contentId);
+    write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+  });
+
+  // Cross-reference table
+  const xrefOffset = length;
+  write(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`);
+  for (let id = 1; id <= objectCount; id++) {
+    write(`${offsets[id].toString().padStart(10, '0')} 00000 n \n`);
+  }
+  write(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Write a PDF document with one JPEG image per page
+ */
+export async function writePdfFromImages(pages: PdfImagePage[], outputPath: string): Promise<void> {
+  await writeFile(outputPath, buildPdfFromImages(pages));
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { buildPictureHtml, planWidths, responsiveImageConverter } from './responsiveImageConverter';
+
+describe('planWidths', () => {
+  it('sorts the widths and drops those wider than the source', () => {
+    expect(planWidths('1280, 320,640,320', 1000)).toEqual([320, 640]);
+    expect(planWidths('320,640,1280', 1280)).toEqual([320, 640, 1280]);
+  });
+
+  it('keeps the source width when every width would upscale it', () => {
+    expect(planWidths('320,640', 200)).toEqual([200]);
+  });
+});
+
+describe('buildPictureHtml', () => {
+  /**
+   * Describe one file of the set
+   */
+  const image = (format: string, width: number) => ({
+    file: `photo-${width}.${format}`,
+    format,
+    mimeType: `image/${format}`,
+    width,
+    height: width / 2,
+    bytes: 1000
+  });
+
+  it('lists a source per preferred format and falls back to the largest image of the last format', () => {
+    const images = [image('webp', 320), image('jpg', 320), image('webp', 640), image('jpg', 640)];
+
+    expect(buildPictureHtml(images, ['webp', 'jpg'], '(max-width: 600px) 100vw, 50vw', 'A "quoted" <view>')).toBe([
+      '<picture>',
+      '  <source type="image/webp" srcset="photo-320.webp 320w, photo-640.webp 640w" sizes="(max-width: 600px) 100vw, 50vw">',
+      '  <img src="photo-640.jpg" srcset="photo-320.jpg 320w, photo-640.jpg 640w" sizes="(max-width: 600px) 100vw, 50vw" ' +
+        'width="640" height="320" alt="A &quot;quoted&quot; &lt;view&gt;" loading="lazy" decoding="async">',
+      '</picture>',
+      ''
+    ].join('\n'));
+  });
+
+  it('needs an image in the fallback format', () => {
+    expect(() => buildPictureHtml([image('webp', 320)], ['webp', 'jpg'], '100vw', ''))
+      .toThrow('No jpg image was written for the fallback');
+  });
+});
+
+describe('responsiveImageConverter.validate', () => {
+  const validate = (options: Record<string, unknown>) => responsiveImageConverter.validate?.(options, 'png', 'srcset');
+
+  it('accepts the defaults', () => {
+    expect(validate({})).toEqual({});
+  });
+
+  it('rejects widths out of range and unknown formats', () => {
+    expect(validate({ widths: '8,640', formats: 'webp,gif,bmp' })).toEqual({
+      widths: 'Widths must be between 16 and 8192',
+      formats: 'Unsupported formats gif, bmp, use avif, webp, jpg, png'
+    });
+    expect(validate({ widths: Array.from({ length: 11 }, (_, index) => 100 + index).join(',') })).toEqual({
+      widths: 'At most 10 widths are allowed'
+    });
+  });
+});
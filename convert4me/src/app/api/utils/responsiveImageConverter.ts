@@ -0,0 +1,263 @@
+import { join, basename, extname } from 'path';
+import { mkdir, rm, writeFile } from 'fs/promises';
+import sharp from 'sharp';
+import type { Converter } from './converterTypes';
+import { abortable, settleAbandonedWork, throwIfCancelled } from './cancellation';
+import { getMimeType } from './formats';
+import { createZipFromDirectory } from './imageArchive';
+import { IMAGE_INPUT_FORMATS, decodeInput, encodeImage, getInputOptions } from './imageConverter';
+import { METADATA_OPTION_SCHEMA, MetadataOptions, applyMetadataPolicy } from './imageMetadata';
+
+export interface ResponsiveImageOptions extends MetadataOptions {
+  // Comma separated widths in pixels, e.g. 320,640,1280
+  widths?: string;
+  // Comma separated formats in order of preference, the last one being the fallback for old browsers
+  formats?: string;
+  quality?: number;
+  // Value of the sizes attribute, e.g. (max-width: 600px) 100vw, 50vw
+  sizes?: string;
+  alt?: string;
+}
+
+// One file of the set
+interface ResponsiveImage {
+  file: string;
+  format: string;
+  mimeType: string;
+  width: number;
+  height: number;
+  bytes: number;
+}
+
+const RESPONSIVE_FORMATS = ['avif', 'webp', 'jpg', 'png'];
+
+// Other names accepted for the formats
+const FORMAT_ALIASES: Record<string, string> = { jpeg: 'jpg' };
+
+const DEFAULT_WIDTHS = '320,640,1280';
+const DEFAULT_FORMATS = 'avif,webp,jpg';
+const DEFAULT_SIZES = '100vw';
+
+const MAX_WIDTHS = 10;
+const MIN_WIDTH = 16;
+const MAX_WIDTH = 8192;
+
+/**
+ * Parse a comma separated list, keeping the first occurrence of each entry
+ */
+function parseList(list: string): string[] {
+  return [...new Set(list.split(',').map(entry => entry.trim().toLowerCase()))];
+}
+
+/**
+ * Parse the formats list, so that jpg and jpeg count as one format
+ */
+function parseFormats(list: string): string[] {
+  return [...new Set(parseList(list).map(format => FORMAT_ALIASES[format] || format))];
+}
+
+/**
+ * Fit the widths to the source, dropping those that would upscale it.
+ * A source narrower than every width still gets one image at its own width.
+ */
+export function planWidths(list: string, sourceWidth: number): number[] {
+  const widths = parseList(list).map(Number).sort((a, b) => a - b);
+  const fitting = widths.filter(width => width <= sourceWidth);
+  return fitting.length > 0 ? fitting : [sourceWidth];
+}
+
+/**
+ * Escape text for an HTML attribute value
+ */
+function escapeAttribute(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+/**
+ * Build the <picture> element: one source per preferred format, and an img in the fallback format
+ */
+export function buildPictureHtml(images: ResponsiveImage[], formats: string[], sizes: string, alt: string): string {
+  const srcset = (format: string) => images
+    .filter(image => image.format === format)
+    .map(image => `${image.file} ${image.width}w`)
+    .join(', ');
+
+  const fallbackFormat = formats[formats.length - 1];
+  const fallback = images.filter(image => image.format === fallbackFormat).pop();
+  if (!fallback) {
+    throw new Error(`No ${fallbackFormat} image was written for the fallback`);
+  }
+  const lines = formats.slice(0, -1).map(format =>
+    `  <source type="${getMimeType(format)}" srcset="${srcset(format)}" sizes="${escapeAttribute(sizes)}">`
+  );
+
+  // The largest fallback image is the src, and its dimensions let the browser reserve space before loading
+  lines.push(
+    `  <img src="${fallback.file}" srcset="${srcset(fallbackFormat)}" sizes="${escapeAttribute(sizes)}" ` +
+    `width="${fallback.width}" height="${fallback.height}" alt="${escapeAttribute(alt)}" loading="lazy" decoding="async">`
+  );
+
+  return ['<picture>', ...lines, '</picture>', ''].join('\n');
+}
+
+/**
+ * Converts an image to a set of widths and formats for responsive web pages,
+ * delivered as a zip with a JSON manifest and a ready-to-paste <picture> snippet
+ */
+export async function convertToResponsiveSet(
+  inputPath: string,
+  outputFormat: string,
+  options: ResponsiveImageOptions = {},
+  progressCallback: (progress: number) => void = () => {},
+  signal?: AbortSignal,
+  outputDir: string = join(process.cwd(), 'output')
+): Promise<string> {
+  if (outputFormat !== 'srcset') {
+    throw new Error(`Unsupported output format: ${outputFormat}`);
+  }
+
+  progressCallback(10);
+
+  const fileBaseName = basename(inputPath, extname(inputPath));
+  const workDir = join(outputDir, 'temp', `${fileBaseName}-srcset-${Date.now()}`);
+  const packageDir = join(workDir, 'package');
+  await mkdir(packageDir, { recursive: true });
+
+  try {
+    const formats = parseFormats(options.formats || DEFAULT_FORMATS);
+    const widthList = options.widths || DEFAULT_WIDTHS;
+
+    // SVG is drawn large enough for the widest image, so it is never skipped as too small
+    const sourcePath = await decodeInput(inputPath, workDir, signal);
+    const largestWidth = Math.max(...parseList(widthList).map(Number));
+    const inputOptions = await getInputOptions(sourcePath, { width: largestWidth });
+
+    // The source is decoded once, upright, and every image is scaled from those pixels
+    const metadata = await sharp(sourcePath, inputOptions).metadata();
+    const { data, info } = await abortable(
+      sharp(sourcePath, inputOptions).rotate().raw().toBuffer({ resolveWithObject: true }),
+      signal
+    );
+    const raw = { width: info.width, height: info.height, channels: info.channels };
+
+    const widths = planWidths(widthList, info.width);
+    const images: ResponsiveImage[] = [];
+
+    for (const width of widths) {
+      throwIfCancelled(signal);
+      const resized = await abortable(
+        sharp(data, { raw }).resize({ width }).raw().toBuffer({ resolveWithObject: true }),
+        signal
+      );
+
+      for (const format of formats) {
+        const file = `${fileBaseName}-${width}.${format}`;
+        const image = await applyMetadataPolicy(
+          sharp(resized.data, {
+            raw: { width: resized.info.width, height: resized.info.height, channels: resized.info.channels }
+          }),
+          options.metadata || 'strip',
+          { metadata, detached: true },
+          workDir
+        );
+        const written = await abortable(
+          encodeImage(image, format, { quality: options.quality }, {}).toFile(join(packageDir, file)),
+          signal
+        );
+
+        images.push({
+          file,
+          format,
+          mimeType: getMimeType(format),
+          width: written.width,
+          height: written.height,
+          bytes: written.size
+        });
+        progressCallback(10 + Math.round((images.length / (widths.length * formats.length)) * 80));
+      }
+    }
+
+    const sizes = options.sizes || DEFAULT_SIZES;
+    const html = buildPictureHtml(images, formats, sizes, options.alt || '');
+    const manifest = {
+      source: { file: basename(inputPath), width: info.width, height: info.height },
+      sizes,
+      images,
+      html
+    };
+
+    await writeFile(join(packageDir, 'manifest.json'), JSON.stringify(manifest, null, 2));
+    await writeFile(join(packageDir, 'picture.html'), html);
+
+    const zipFilePath = join(outputDir, `${fileBaseName}-srcset.zip`);
+    await createZipFromDirectory(packageDir, zipFilePath, signal);
+    progressCallback(100);
+    return zipFilePath;
+  } finally {
+    await settleAbandonedWork(signal);
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+export const responsiveImageConverter: Converter = {
+  id: 'responsive-image',
+  category: 'image',
+  supportedInputFormats: IMAGE_INPUT_FORMATS,
+  possibleOutputFormats: ['srcset'],
+  optionSchema: {
+    widths: {
+      type: 'string',
+      pattern: '^\\d+(,\\d+)*$',
+      patternDescription: 'Must be a comma separated list of widths, e.g. 320,640,1280',
+      default: DEFAULT_WIDTHS,
+      description: 'Widths in pixels; widths larger than the image are skipped'
+    },
+    formats: {
+      type: 'string',
+      pattern: '^[a-zA-Z]+(,[a-zA-Z]+)*$',
+      patternDescription: 'Must be a comma separated list of formats, e.g. avif,webp,jpg',
+      default: DEFAULT_FORMATS,
+      description: `Formats in order of preference from ${RESPONSIVE_FORMATS.join(', ')} (or jpeg); the last one is the fallback for older browsers`
+    },
+    quality: { type: 'integer', min: 1, max: 100, description: 'Output quality for lossy formats' },
+    sizes: {
+      type: 'string',
+      default: DEFAULT_SIZES,
+      description: 'Value of the sizes attribute in the HTML snippet, e.g. (max-width: 600px) 100vw, 50vw'
+    },
+    alt: { type: 'string', description: 'Alternative text of the image in the HTML snippet' },
+    ...METADATA_OPTION_SCHEMA
+  },
+  validate: (options) => {
+    const errors: Record<string, string> = {};
+    const responsiveOptions = options as ResponsiveImageOptions;
+    const widths = parseList(responsiveOptions.widths || DEFAULT_WIDTHS).map(Number);
+    const formats = parseFormats(responsiveOptions.formats || DEFAULT_FORMATS);
+
+    if (widths.length > MAX_WIDTHS) {
+      errors.widths = `At most ${MAX_WIDTHS} widths are allowed`;
+    } else if (widths.some(width => width < MIN_WIDTH || width > MAX_WIDTH)) {
+      errors.widths = `Widths must be between ${MIN_WIDTH} and ${MAX_WIDTH}`;
+    }
+
+    const unknown = formats.filter(format => !RESPONSIVE_FORMATS.includes(format));
+    if (unknown.length > 0) {
+      errors.formats = `Unsupported format${unknown.length === 1 ? '' : 's'} ${unknown.join(', ')}, use ${RESPONSIVE_FORMATS.join(', ')}`;
+    }
+
+    return errors;
+  },
+  convert: (inputPath, outputFormat, options, context) =>
+    convertToResponsiveSet(
+      inputPath,
+      outputFormat,
+      options as ResponsiveImageOptions,
+      context.onProgress,
+      context.signal,
+      context.outputDir
+    )
+};
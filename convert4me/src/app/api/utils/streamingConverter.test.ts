@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { buildHlsMasterPlaylist, buildRenditionVideoArgs, planRenditions, streamingConverter } from './streamingConverter';
+
+describe('planRenditions', () => {
+  it('drops renditions taller than the source, keeping its aspect ratio', () => {
+    expect(planRenditions('480p:1400k,1080p:5000k,720p:2800k', 1280, 720)).toEqual([
+      { name: '720p', width: 1280, height: 720, videoBitrate: '2800k' },
+      { name: '480p', width: 854, height: 480, videoBitrate: '1400k' }
+    ]);
+  });
+
+  it('keeps widths even for portrait video', () => {
+    expect(planRenditions('720p:2800k', 1080, 1920)[0]).toEqual({ name: '720p', width: 406, height: 720, videoBitrate: '2800k' });
+  });
+
+  it('gives a source smaller than every rendition the lowest bitrate at its own height', () => {
+    expect(planRenditions('720p:2800k,360p:800k', 320, 241)).toEqual([
+      { name: '240p', width: 318, height: 240, videoBitrate: '800k' }
+    ]);
+  });
+});
+
+describe('buildRenditionVideoArgs', () => {
+  it('caps the bitrate and puts keyframes on segment boundaries', async () => {
+    expect(await buildRenditionVideoArgs({ name: '720p', width: 1280, height: 720, videoBitrate: '2800k' }, 6)).toEqual([
+      '-vf', 'scale=1280:720',
+      '-c:v', 'libx264', '-pix_fmt', 'yuv420p',
+      '-b:v', '2800k',
+      '-maxrate', '2996000',
+      '-bufsize', '4200000',
+      '-force_key_frames', 'expr:gte(t,n_forced*6)',
+      '-sc_threshold', '0'
+    ]);
+  });
+});
+
+describe('buildHlsMasterPlaylist', () => {
+  const renditions = [
+    { name: '720p', width: 1280, height: 720, videoBitrate: '2800k' },
+    { name: '480p', width: 854, height: 480, videoBitrate: '1400k' }
+  ];
+
+  it('points every rendition at one shared audio group', () => {
+    expect(buildHlsMasterPlaylist(renditions, '128k', true)).toBe([
+      '#EXTM3U',
+      '#EXT-X-VERSION:4',
+      '#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="audio",NAME="Audio",DEFAULT=YES,AUTOSELECT=YES,URI="audio/index.m3u8"',
+      '#EXT-X-STREAM-INF:BANDWIDTH=2928000,RESOLUTION=1280x720,AUDIO="audio"',
+      '720p/index.m3u8',
+      '#EXT-X-STREAM-INF:BANDWIDTH=1528000,RESOLUTION=854x480,AUDIO="audio"',
+      '480p/index.m3u8',
+      ''
+    ].join('\n'));
+  });
+
+  it('leaves the audio group out for silent video', () => {
+    expect(buildHlsMasterPlaylist(renditions.slice(0, 1), '128k', false)).toBe([
+      '#EXTM3U',
+      '#EXT-X-VERSION:3',
+      '#EXT-X-STREAM-INF:BANDWIDTH=2800000,RESOLUTION=1280x720',
+      '720p/index.m3u8',
+      ''
+    ].join('\n'));
+  });
+});
+
+describe('streamingConverter', () => {
+  it('checks the rendition ladder', () => {
+    expect(streamingConverter.validate?.({ renditions: '720p:2800k,480p:1400k' }, 'mp4', 'hls')).toEqual({});
+    expect(streamingConverter.validate?.({ renditions: '721p:2800k' }, 'mp4', 'hls')).toEqual({
+      renditions: 'Heights must be even and between 144 and 4320'
+    });
+    expect(streamingConverter.validate?.({ renditions: '720p:2800k,720p:1400k' }, 'mp4', 'dash')).toEqual({
+      renditions: 'Each height can only appear once'
+    });
+    expect(streamingConverter.validate?.({ renditions: '1080:1,900:1,720:1,540:1,480:1,360:1,240:1' }, 'mp4', 'dash')).toEqual({
+      renditions: 'At most 6 renditions are allowed'
+    });
+  });
+});
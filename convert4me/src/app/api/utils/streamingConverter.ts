@@ -0,0 +1,346 @@
+import { join, basename, extname } from 'path';
+import { mkdir, rm, writeFile } from 'fs/promises';
+import type { Converter, ProgressDetails } from './converterTypes';
+import { probeMedia } from './mediaProbe';
+import { createZipFromDirectory } from './imageArchive';
+import {
+  BITRATE_PATTERN,
+  VIDEO_INPUT_FORMATS,
+  getVideoCodecArgs,
+  parseBitrate,
+  runFfmpeg
+} from './videoConverter';
+
+export interface StreamingOptions {
+  renditions?: string;
+  segmentDuration?: number;
+  audioBitrate?: string;
+}
+
+interface Rendition {
+  // Folder and label of the rendition, e.g. 720p
+  name: string;
+  width: number;
+  height: number;
+  videoBitrate: string;
+}
+
+// Comma separated HEIGHT:BITRATE pairs, e.g. 1080p:5000k,720p:2800k
+const RENDITIONS_PATTERN = '^\\d+p?:\\d+(\\.\\d+)?[kKmM]?(,\\d+p?:\\d+(\\.\\d+)?[kKmM]?)*$';
+
+const DEFAULT_RENDITIONS = '1080p:5000k,720p:2800k,480p:1400k,360p:800k';
+
+const MAX_RENDITIONS = 6;
+
+// Share of the progress spent encoding, the rest goes to packaging
+const ENCODE_PROGRESS_SHARE = 95;
+
+/**
+ * Parse a rendition ladder such as 1080p:5000k,720p:2800k into heights and bitrates, tallest first
+ */
+function parseRenditions(ladder: string): { height: number; videoBitrate: string }[] {
+  return ladder
+    .split(',')
+    .map(entry => {
+      const [height, videoBitrate] = entry.split(':');
+      return { height: parseInt(height, 10), videoBitrate };
+    })
+    .sort((a, b) => b.height - a.height);
+}
+
+/**
+ * Fit the ladder to the source, dropping renditions that would upscale it.
+ * A source smaller than every rendition still gets the lowest one at its own height.
+ */
+export function planRenditions(ladder: string, sourceWidth: number, sourceHeight: number): Rendition[] {
+  const parsed = parseRenditions(ladder);
+  let fitting = parsed.filter(rendition => rendition.height <= sourceHeight);
+
+  if (fitting.length === 0) {
+    const lowest = parsed[parsed.length - 1];
+    fitting = [{ height: sourceHeight - (sourceHeight % 2), videoBitrate: lowest.videoBitrate }];
+  }
+
+  return fitting.map(({ height, videoBitrate }) => ({
+    name: `${height}p`,
+    // Widths keep the source aspect ratio and stay even for 4:2:0 video
+    width: Math.round((sourceWidth * height) / sourceHeight / 2) * 2,
+    height,
+    videoBitrate
+  }));
+}
+
+/**
+ * Encoder arguments for one rendition, with keyframes on segment boundaries so players can switch between renditions
+ */
+export async function buildRenditionVideoArgs(rendition: Rendition, segmentDuration: number): Promise<string[]> {
+  const bitrate = parseBitrate(rendition.videoBitrate);
+
+  return [
+    '-vf', `scale=${rendition.width}:${rendition.height}`,
+    ...await getVideoCodecArgs('mp4'),
+    '-b:v', rendition.videoBitrate,
+    '-maxrate', Math.round(bitrate * 1.07).toString(),
+    '-bufsize', Math.round(bitrate * 1.5).toString(),
+    '-force_key_frames', `expr:gte(t,n_forced*${segmentDuration})`,
+    '-sc_threshold', '0'
+  ];
+}
+
+/**
+ * Split the encoding share of the progress evenly between the encodes
+ */
+function encodeProgress(
+  index: number,
+  total: number,
+  progressCallback: (progress: number, details?: ProgressDetails) => void
+): (progress: number, details?: ProgressDetails) => void {
+  return (progress, details) =>
+    progressCallback(Math.round(((index * 100 + progress) / total) * (ENCODE_PROGRESS_SHARE / 100)), details);
+}
+
+/**
+ * List the renditions in a master playlist, all sharing one audio group when the video has sound
+ */
+export function buildHlsMasterPlaylist(renditions: Rendition[], audioBitrate: string, hasAudio: boolean): string {
+  // EXT-X-MEDIA needs version 4
+  const master = ['#EXTM3U', `#EXT-X-VERSION:${hasAudio ? 4 : 3}`];
+  if (hasAudio) {
+    master.push('#EXT-X-MEDIA:TYPE=AUDIO,GROUP-ID="audio",NAME="Audio",DEFAULT=YES,AUTOSELECT=YES,URI="audio/index.m3u8"');
+  }
+
+  for (const rendition of renditions) {
+    // The bandwidth counts the audio the player fetches alongside the video
+    const bandwidth = parseBitrate(rendition.videoBitrate) + (hasAudio ? parseBitrate(audioBitrate) : 0);
+    master.push(
+      `#EXT-X-STREAM-INF:BANDWIDTH=${Math.round(bandwidth)},RESOLUTION=${rendition.width}x${rendition.height}${hasAudio ? ',AUDIO="audio"' : ''}`,
+      `${rendition.name}/index.m3u8`
+    );
+  }
+
+  return `${master.join('\n')}\n`;
+}
+
+/**
+ * Encode every rendition and the audio as their own HLS playlists and list them in a master playlist
+ */
+async function packageHls(
+  inputPath: string,
+  packageDir: string,
+  renditions: Rendition[],
+  options: StreamingOptions,
+  hasAudio: boolean,
+  duration: number,
+  progressCallback: (progress: number, details?: ProgressDetails) => void,
+  jobId?: string,
+  signal?: AbortSignal
+): Promise<void> {
+  const segmentDuration = options.segmentDuration || 6;
+  const audioBitrate = options.audioBitrate || '128k';
+  const totalEncodes = renditions.length + (hasAudio ? 1 : 0);
+
+  const hlsArgs = (playlistDir: string) => [
+    '-f', 'hls',
+    '-hls_time', segmentDuration.toString(),
+    '-hls_playlist_type', 'vod',
+    '-hls_segment_filename', join(playlistDir, 'segment_%03d.ts'),
+    '-y', join(playlistDir, 'index.m3u8')
+  ];
+
+  for (let index = 0; index < renditions.length; index++) {
+    const rendition = renditions[index];
+    const renditionDir = join(packageDir, rendition.name);
+    await mkdir(renditionDir, { recursive: true });
+
+    await runFfmpeg(
+      [
+        '-i', inputPath,
+        '-map', '0:v:0', '-an',
+        ...await buildRenditionVideoArgs(rendition, segmentDuration),
+        ...hlsArgs(renditionDir)
+      ],
+      encodeProgress(index, totalEncodes, progressCallback),
+      jobId,
+      signal,
+      duration
+    );
+  }
+
+  if (hasAudio) {
+    const audioDir = join(packageDir, 'audio');
+    await mkdir(audioDir, { recursive: true });
+
+    await runFfmpeg(
+      [
+        '-i', inputPath,
+        '-map', '0:a:0', '-vn',
+        '-c:a', 'aac', '-b:a', audioBitrate, '-ac', '2',
+        ...hlsArgs(audioDir)
+      ],
+      encodeProgress(renditions.length, totalEncodes, progressCallback),
+      jobId,
+      signal,
+      duration
+    );
+  }
+
+  await writeFile(join(packageDir, 'master.m3u8'), buildHlsMasterPlaylist(renditions, audioBitrate, hasAudio));
+}
+
+/**
+ * Encode every rendition and the audio separately, then segment them together under one MPD
+ */
+async function packageDash(
+  inputPath: string,
+  packageDir: string,
+  workDir: string,
+  renditions: Rendition[],
+  options: StreamingOptions,
+  hasAudio: boolean,
+  duration: number,
+  progressCallback: (progress: number, details?: ProgressDetails) => void,
+  jobId?: string,
+  signal?: AbortSignal
+): Promise<void> {
+  const segmentDuration = options.segmentDuration || 6;
+  const totalEncodes = renditions.length + (hasAudio ? 1 : 0);
+  const encodedPaths: string[] = [];
+
+  for (let index = 0; index < renditions.length; index++) {
+    const encodedPath = join(workDir, `${renditions[index].name}.mp4`);
+    await runFfmpeg(
+      ['-i', inputPath, '-map', '0:v:0', '-an', ...await buildRenditionVideoArgs(renditions[index], segmentDuration), '-y', encodedPath],
+      encodeProgress(index, totalEncodes, progressCallback),
+      jobId,
+      signal,
+      duration
+    );
+    encodedPaths.push(encodedPath);
+  }
+
+  if (hasAudio) {
+    const audioPath = join(workDir, 'audio.m4a');
+    await runFfmpeg(
+      ['-i', inputPath, '-map', '0:a:0', '-vn', '-c:a', 'aac', '-b:a', options.audioBitrate || '128k', '-ac', '2', '-y', audioPath],
+      encodeProgress(renditions.length, totalEncodes, progressCallback),
+      jobId,
+      signal,
+      duration
+    );
+    encodedPaths.push(audioPath);
+  }
+
+  // The streams are already encoded, so packaging only copies them into segments
+  const args = encodedPaths.flatMap(path => ['-i', path]);
+  encodedPaths.forEach((_, index) => args.push('-map', `${index}:0`));
+  args.push(
+    '-c', 'copy',
+    '-f', 'dash',
+    '-seg_duration', segmentDuration.toString(),
+    '-use_template', '1',
+    '-use_timeline', '1',
+    '-adaptation_sets', hasAudio ? 'id=0,streams=v id=1,streams=a' : 'id=0,streams=v',
+    '-y', join(packageDir, 'manifest.mpd')
+  );
+
+  await runFfmpeg(
+    args,
+    (progress, details) =>
+      progressCallback(ENCODE_PROGRESS_SHARE + Math.round(progress * (100 - ENCODE_PROGRESS_SHARE - 1) / 100), details),
+    jobId,
+    signal,
+    duration
+  );
+}
+
+/**
+ * Converts a video to an adaptive streaming package (HLS or DASH) with a rendition ladder, delivered as a zip
+ */
+export async function convertToStreaming(
+  inputPath: string,
+  outputFormat: string,
+  options: StreamingOptions = {},
+  progressCallback: (progress: number, details?: ProgressDetails) => void = () => {},
+  jobId?: string,
+  signal?: AbortSignal,
+  outputDir: string = join(process.cwd(), 'output')
+): Promise<string> {
+  if (outputFormat !== 'hls' && outputFormat !== 'dash') {
+    throw new Error(`Unsupported output format: ${outputFormat}`);
+  }
+
+  const { duration, hasVideo, hasAudio, width, height } = await probeMedia(inputPath);
+  if (!hasVideo || !width || !height) {
+    throw new Error('The input has no video stream to package');
+  }
+
+  const renditions = planRenditions(options.renditions || DEFAULT_RENDITIONS, width, height);
+  const fileBaseName = basename(inputPath, extname(inputPath));
+  const workDir = join(outputDir, 'temp', `${fileBaseName}-${outputFormat}-${Date.now()}`);
+  const packageDir = join(workDir, 'package');
+  await mkdir(packageDir, { recursive: true });
+
+  try {
+    if (outputFormat === 'hls') {
+      await packageHls(inputPath, packageDir, renditions, options, hasAudio, duration, progressCallback, jobId, signal);
+    } else {
+      await packageDash(inputPath, packageDir, workDir, renditions, options, hasAudio, duration, progressCallback, jobId, signal);
+    }
+
+    const zipFilePath = join(outputDir, `${fileBaseName}-${outputFormat}.zip`);
+    await createZipFromDirectory(packageDir, zipFilePath, signal);
+    progressCallback(100);
+    return zipFilePath;
+  } finally {
+    await rm(workDir, { recursive: true, force: true });
+  }
+}
+
+export const streamingConverter: Converter = {
+  id: 'streaming',
+  category: 'video',
+  supportedInputFormats: VIDEO_INPUT_FORMATS,
+  possibleOutputFormats: ['hls', 'dash'],
+  optionSchema: {
+    renditions: {
+      type: 'string',
+      pattern: RENDITIONS_PATTERN,
+      patternDescription: 'Must be HEIGHT:BITRATE pairs separated by commas, e.g. 720p:2800k,480p:1400k',
+      default: DEFAULT_RENDITIONS,
+      description: 'Rendition ladder; renditions taller than the video are skipped'
+    },
+    segmentDuration: { type: 'integer', min: 1, max: 30, default: 6, description: 'Segment length in seconds' },
+    audioBitrate: {
+      type: 'string',
+      pattern: BITRATE_PATTERN,
+      patternDescription: 'Must be a bitrate such as 128k',
+      default: '128k',
+      description: 'Bitrate of the audio track shared by every rendition'
+    }
+  },
+  validate: (options) => {
+    const errors: Record<string, string> = {};
+    const renditions = parseRenditions((options as StreamingOptions).renditions || DEFAULT_RENDITIONS);
+    const heights = renditions.map(rendition => rendition.height);
+
+    if (renditions.length > MAX_RENDITIONS) {
+      errors.renditions = `At most ${MAX_RENDITIONS} renditions are allowed`;
+    } else if (heights.some(height => height < 144 || height > 4320 || height % 2 !== 0)) {
+      errors.renditions = 'Heights must be even and between 144 and 4320';
+    } else if (new Set(heights).size !== heights.length) {
+      errors.renditions = 'Each height can only appear once';
+    }
+
+    return errors;
+  },
+  convert: (inputPath, outputFormat, options, context) =>
+    convertToStreaming(
+      inputPath,
+      outputFormat,
+      options as StreamingOptions,
+      context.onProgress,
+      context.jobId,
+      context.signal,
+      context.outputDir
+    )
+};
@@ -0,0 +1,77 @@
+import { join, basename, extname } from 'path';
+import type { Converter, ProgressDetails } from './converterTypes';
+import { probeMedia } from './mediaProbe';
+import { SUBTITLE_ENCODERS, SUBTITLE_FORMATS, TEXT_SUBTITLE_CODECS } from './subtitles';
+import { VIDEO_INPUT_FORMATS, runFfmpeg } from './videoConverter';
+
+export interface SubtitleConversionOptions {
+  subtitleTrack?: number;
+}
+
+/**
+ * Converts a subtitle file to another subtitle format, or extracts a subtitle track from a video
+ */
+export async function convertSubtitle(
+  inputPath: string,
+  outputFormat: string,
+  options: SubtitleConversionOptions = {},
+  progressCallback: (progress: number, details?: ProgressDetails) => void = () => {},
+  jobId?: string,
+  signal?: AbortSignal,
+  outputDir: string = join(process.cwd(), 'output')
+): Promise<string> {
+  const encoder = SUBTITLE_ENCODERS[outputFormat];
+  if (!encoder) {
+    throw new Error(`Unsupported output format: ${outputFormat}`);
+  }
+
+  const trackIndex = options.subtitleTrack || 0;
+  const inputFormat = extname(inputPath).slice(1).toLowerCase();
+
+  // Videos may have no subtitles, or only image based ones that cannot become text
+  if (!SUBTITLE_FORMATS.includes(inputFormat)) {
+    const { subtitleTracks } = await probeMedia(inputPath);
+    const track = subtitleTracks[trackIndex];
+
+    if (!track) {
+      throw new Error(subtitleTracks.length > 0
+        ? `Subtitle track ${trackIndex} not found, the video has ${subtitleTracks.length}`
+        : 'The video has no subtitle tracks');
+    }
+    if (!TEXT_SUBTITLE_CODECS.includes(track.codec)) {
+      throw new Error(`Subtitle track ${trackIndex} is an image based ${track.codec} track and cannot be converted to text`);
+    }
+  }
+
+  const outputFilename = `${basename(inputPath, extname(inputPath))}.${outputFormat}`;
+  const outputPath = join(outputDir, outputFilename);
+
+  await runFfmpeg(
+    ['-i', inputPath, '-map', `0:s:${trackIndex}`, '-c:s', encoder, '-y', outputPath],
+    progressCallback,
+    jobId,
+    signal
+  );
+  return outputPath;
+}
+
+export const subtitleConverter: Converter = {
+  id: 'subtitle',
+  category: 'subtitle',
+  // Videos have a subtitle track extracted
+  supportedInputFormats: [...SUBTITLE_FORMATS, ...VIDEO_INPUT_FORMATS],
+  possibleOutputFormats: ['srt', 'vtt', 'ass'],
+  optionSchema: {
+    subtitleTrack: { type: 'integer', min: 0, max: 99, description: 'Subtitle track to extract from a video, counting from 0' }
+  },
+  convert: (inputPath, outputFormat, options, context) =>
+    convertSubtitle(
+      inputPath,
+      outputFormat,
+      options as SubtitleConversionOptions,
+      context.onProgress,
+      context.jobId,
+      context.signal,
+      context.outputDir
+    )
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { buildBurnInFilter, buildSoftSubtitleArgs, supportsSoftSubtitles } from './subtitles';
+import { planConversion } from './converters';
+
+describe('buildSoftSubtitleArgs', () => {
+  const tracks = [
+    { index: 0, codec: 'subrip', language: 'eng' },
+    { index: 1, codec: 'hdmv_pgs_subtitle' },
+    { index: 2, codec: 'ass' }
+  ];
+
+  it('keeps the text tracks and leaves out bitmap ones', () => {
+    expect(buildSoftSubtitleArgs('mp4', tracks)).toEqual([
+      '-map', '0:s:0', '-c:s:0', 'mov_text',
+      '-map', '0:s:2', '-c:s:1', 'mov_text'
+    ]);
+  });
+
+  it('copies tracks Matroska can store unchanged', () => {
+    expect(buildSoftSubtitleArgs('mkv', tracks, { index: 1, format: 'vtt' })).toEqual([
+      '-map', '0:s:0', '-c:s:0', 'copy',
+      '-map', '0:s:2', '-c:s:1', 'copy',
+      '-map', '1:s:0', '-c:s:2', 'srt'
+    ]);
+  });
+
+  it('adds nothing to containers without subtitle support', () => {
+    expect(supportsSoftSubtitles('avi')).toBe(false);
+    expect(buildSoftSubtitleArgs('avi', tracks, { index: 1, format: 'srt' })).toEqual([]);
+  });
+});
+
+describe('buildBurnInFilter', () => {
+  it('escapes the path for the filter graph', () => {
+    expect(buildBurnInFilter('/uploads/it\'s: here.srt')).toBe('subtitles=filename=\'/uploads/it\'\\\\\'\'s\\: here.srt\'');
+    expect(buildBurnInFilter('C:\\uploads\\movie.mkv', 1)).toBe('subtitles=filename=\'C\\:/uploads/movie.mkv\':si=1');
+  });
+
+  it('shifts trimmed input back to the subtitle timeline while drawing', () => {
+    expect(buildBurnInFilter('/uploads/a.srt', undefined, 30)).toBe(
+      'setpts=PTS+30/TB,subtitles=filename=\'/uploads/a.srt\',setpts=PTS-STARTPTS'
+    );
+  });
+});
+
+describe('subtitleConverter', () => {
+  it('converts subtitle files and extracts tracks from videos', () => {
+    expect(planConversion('srt', 'vtt')?.map(step => step.converter.id)).toEqual(['subtitle']);
+    expect(planConversion('mkv', 'srt')?.map(step => step.converter.id)).toEqual(['subtitle']);
+  });
+});
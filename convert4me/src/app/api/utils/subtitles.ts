@@ -0,0 +1,108 @@
+import type { SubtitleTrack } from './mediaProbe';
+
+// Subtitle file formats that can be uploaded and written
+export const SUBTITLE_FORMATS = ['srt', 'vtt', 'ass', 'ssa'];
+
+// FFmpeg encoder for each subtitle file format
+export const SUBTITLE_ENCODERS: Record<string, string> = {
+  srt: 'srt',
+  vtt: 'webvtt',
+  ass: 'ass',
+  ssa: 'ass'
+};
+
+// Codec FFmpeg reports for each subtitle file format
+const SUBTITLE_FILE_CODECS: Record<string, string> = {
+  srt: 'subrip',
+  vtt: 'webvtt',
+  ass: 'ass',
+  ssa: 'ssa'
+};
+
+// Text based subtitle codecs; bitmap ones such as PGS or DVD subtitles cannot be converted to text
+export const TEXT_SUBTITLE_CODECS = ['subrip', 'srt', 'ass', 'ssa', 'webvtt', 'mov_text', 'text'];
+
+// Codec each container stores soft subtitles as
+const CONTAINER_SUBTITLE_CODECS: Record<string, string> = {
+  mp4: 'mov_text',
+  mov: 'mov_text',
+  mkv: 'srt',
+  webm: 'webvtt'
+};
+
+// Codecs Matroska stores as-is, keeping ASS styling intact
+const MKV_COPY_CODECS = ['subrip', 'srt', 'ass', 'ssa'];
+
+/**
+ * Check whether a container can carry soft subtitles
+ */
+export function supportsSoftSubtitles(outputFormat: string): boolean {
+  return !!CONTAINER_SUBTITLE_CODECS[outputFormat];
+}
+
+/**
+ * Pick the codec a subtitle track is written with in the output container
+ */
+function getSoftSubtitleCodec(outputFormat: string, sourceCodec: string): string {
+  if (outputFormat === 'mkv' && MKV_COPY_CODECS.includes(sourceCodec)) {
+    return 'copy';
+  }
+  return CONTAINER_SUBTITLE_CODECS[outputFormat];
+}
+
+/**
+ * Map the input's text subtitle tracks, plus an optional extra subtitle input, into the output as soft subtitles
+ */
+export function buildSoftSubtitleArgs(
+  outputFormat: string,
+  tracks: SubtitleTrack[],
+  externalInput?: { index: number; format: string }
+): string[] {
+  if (!supportsSoftSubtitles(outputFormat)) {
+    return [];
+  }
+
+  const args: string[] = [];
+  let outputIndex = 0;
+
+  // Bitmap tracks would make the text encoders fail, so they are left out
+  for (const track of tracks.filter(track => TEXT_SUBTITLE_CODECS.includes(track.codec))) {
+    args.push('-map', `0:s:${track.index}`, `-c:s:${outputIndex++}`, getSoftSubtitleCodec(outputFormat, track.codec));
+  }
+
+  if (externalInput) {
+    args.push(
+      '-map', `${externalInput.index}:s:0`,
+      `-c:s:${outputIndex}`, getSoftSubtitleCodec(outputFormat, SUBTITLE_FILE_CODECS[externalInput.format])
+    );
+  }
+
+  return args;
+}
+
+/**
+ * Escape a file path for use as a filter option value
+ */
+export function escapeFilterPath(path: string): string {
+  const escaped = path
+    .replace(/\\/g, '/')
+    .replace(/:/g, '\\:')
+    .replace(/'/g, "'\\\\''");
+  return `'${escaped}'`;
+}
+
+/**
+ * Build the filter that draws subtitles into the picture.
+ * Trimmed input starts at zero, so timestamps are shifted back while the subtitles are drawn.
+ */
+export function buildBurnInFilter(subtitlePath: string, streamIndex?: number, startTime = 0): string {
+  let filter = `subtitles=filename=${escapeFilterPath(subtitlePath)}`;
+  if (streamIndex !== undefined) {
+    filter += `:si=${streamIndex}`;
+  }
+
+  if (startTime > 0) {
+    return `setpts=PTS+${startTime}/TB,${filter},setpts=PTS-STARTPTS`;
+  }
+  return filter;
+}
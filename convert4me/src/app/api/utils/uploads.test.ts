@@ -0,0 +1,49 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { UPLOADS_DIR, isUploadedFile, resolveUploadPath } from './uploads';
+
+describe('resolveUploadPath', () => {
+  it('resolves names against the uploads directory', () => {
+    expect(resolveUploadPath('logo.png')).toBe(join(UPLOADS_DIR, 'logo.png'));
+    expect(resolveUploadPath(join(UPLOADS_DIR, 'logo.png'))).toBe(join(UPLOADS_DIR, 'logo.png'));
+  });
+});
+
+describe('isUploadedFile', () => {
+  let dir: string;
+  let uploadsDir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'uploads-'));
+    uploadsDir = join(dir, 'uploads');
+    await mkdir(uploadsDir);
+    await mkdir(join(dir, 'uploads-other'));
+    await writeFile(join(uploadsDir, 'subtitles.srt'), '');
+    await writeFile(join(dir, 'secret.srt'), '');
+    await writeFile(join(dir, 'uploads-other', 'logo.png'), '');
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('accepts files stored in the uploads directory', () => {
+    expect(isUploadedFile('subtitles.srt', uploadsDir)).toBe(true);
+    expect(isUploadedFile(join(uploadsDir, 'subtitles.srt'), uploadsDir)).toBe(true);
+  });
+
+  it('rejects files outside the uploads directory', () => {
+    expect(isUploadedFile('../secret.srt', uploadsDir)).toBe(false);
+    expect(isUploadedFile(join(dir, 'secret.srt'), uploadsDir)).toBe(false);
+    expect(isUploadedFile(join(dir, 'uploads-other', 'logo.png'), uploadsDir)).toBe(false);
+    expect(isUploadedFile('subtitles.srt/../../secret.srt', uploadsDir)).toBe(false);
+  });
+
+  it('rejects the directory itself and files that do not exist', () => {
+    expect(isUploadedFile('.', uploadsDir)).toBe(false);
+    expect(isUploadedFile(uploadsDir, uploadsDir)).toBe(false);
+    expect(isUploadedFile('missing.srt', uploadsDir)).toBe(false);
+  });
+});
@@ -0,0 +1,24 @@
+import { join, isAbsolute, relative, resolve, sep } from 'path';
+import { existsSync } from 'fs';
+
+// Directory the upload route stores files in
+export const UPLOADS_DIR = join(process.cwd(), 'uploads');
+
+/**
+ * Resolve a path sent by the client against the uploads directory
+ */
+export function resolveUploadPath(filePath: string): string {
+  return resolve(UPLOADS_DIR, filePath);
+}
+
+/**
+ * Check that a path names a file stored by the upload route, not any other file on the server
+ */
+export function isUploadedFile(filePath: string, uploadsDir: string = UPLOADS_DIR): boolean {
+  const relativePath = relative(uploadsDir, resolve(uploadsDir, filePath));
+  return !!relativePath
+    && relativePath !== '..'
+    && !relativePath.startsWith(`..${sep}`)
+    && !isAbsolute(relativePath)
+    && existsSync(join(uploadsDir, relativePath));
+}
@@ -0,0 +1,132 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { chmod, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { buildCodecArgs, buildStreamCopyArgs, getAvailableEncoders, getListedEncoders, validateCodecOptions } from './videoCodecs';
+
+// Encoders of a typical FFmpeg build without libaom or libvpx
+const AVAILABLE = new Set(['libx264', 'libx265', 'libsvtav1', 'mpeg4', 'aac', 'libmp3lame', 'libopus', 'ac3', 'flac', 'pcm_s16le']);
+
+describe('validateCodecOptions', () => {
+  it('accepts codecs the container holds and the build can encode', () => {
+    expect(validateCodecOptions({ videoCodec: 'h265', audioCodec: 'aac', crf: 28, preset: 'slow', profile: 'main10' }, 'mp4', AVAILABLE)).toEqual({});
+  });
+
+  it('rejects codecs the container cannot hold or the build lacks', () => {
+    expect(validateCodecOptions({ videoCodec: 'h264', audioCodec: 'aac' }, 'webm', AVAILABLE)).toEqual({
+      videoCodec: 'webm files can hold vp9, av1',
+      audioCodec: 'webm files can hold opus, vorbis'
+    });
+    expect(validateCodecOptions({ videoCodec: 'vp9' }, 'mkv', AVAILABLE)).toEqual({
+      videoCodec: 'This server\'s FFmpeg was built without an encoder for vp9'
+    });
+  });
+
+  it('assumes the preferred encoders exist when the build cannot be inspected', () => {
+    expect(validateCodecOptions({ videoCodec: 'vp9' }, 'webm', null)).toEqual({});
+  });
+
+  it('checks quality, preset, profile and pixel format against the codec', () => {
+    expect(validateCodecOptions({ crf: 60 }, 'mp4', AVAILABLE)).toEqual({ crf: 'Must be between 0 and 51 for h264' });
+    expect(validateCodecOptions({ crf: 60, videoCodec: 'av1' }, 'mkv', AVAILABLE)).toEqual({});
+    expect(validateCodecOptions({ crf: 23, videoBitrate: '2M' }, 'mp4', AVAILABLE)).toEqual({ crf: 'Use either crf or videoBitrate, not both' });
+    expect(validateCodecOptions({ videoCodec: 'mpeg4', crf: 10, preset: 'fast', profile: 'high' }, 'avi', AVAILABLE)).toEqual({
+      crf: 'mpeg4 has no constant quality mode',
+      preset: 'mpeg4 has no speed presets',
+      profile: 'mpeg4 has no selectable profiles'
+    });
+    expect(validateCodecOptions({ pixelFormat: 'yuv444p10le' }, 'mp4', AVAILABLE)).toEqual({
+      pixelFormat: 'h264 supports yuv420p, yuv422p, yuv444p, yuv420p10le'
+    });
+  });
+});
+
+describe('buildCodecArgs', () => {
+  it('defaults to 8-bit 4:2:0 H.264 for MP4', () => {
+    expect(buildCodecArgs({}, 'mp4', AVAILABLE)).toEqual(['-c:v', 'libx264', '-pix_fmt', 'yuv420p']);
+  });
+
+  it('tags HEVC for Apple players and passes preset, quality and profile', () => {
+    expect(buildCodecArgs({ videoCodec: 'h265', crf: 28, preset: 'slow', profile: 'main10', pixelFormat: 'yuv420p10le' }, 'mov', AVAILABLE)).toEqual([
+      '-c:v', 'libx265', '-preset', 'slow', '-crf', '28', '-profile:v', 'main10', '-pix_fmt', 'yuv420p10le', '-tag:v', 'hvc1'
+    ]);
+  });
+
+  it('maps presets onto the speed settings of VP9 and AV1 encoders', () => {
+    expect(buildCodecArgs({ preset: 'ultrafast', crf: 31 }, 'webm', null)).toEqual([
+      '-c:v', 'libvpx-vp9', '-deadline', 'good', '-cpu-used', '5', '-crf', '31', '-b:v', '0'
+    ]);
+    expect(buildCodecArgs({ videoCodec: 'av1', preset: 'medium' }, 'mkv', AVAILABLE)).toEqual(['-c:v', 'libsvtav1', '-preset', '7']);
+    expect(buildCodecArgs({ videoCodec: 'av1', preset: 'veryslow' }, 'mkv', new Set(['libaom-av1']))).toEqual([
+      '-c:v', 'libaom-av1', '-strict', 'experimental', '-cpu-used', '0'
+    ]);
+  });
+
+  it('picks the audio encoder the build has', () => {
+    expect(buildCodecArgs({ audioCodec: 'opus' }, 'mkv', AVAILABLE)).toEqual(['-c:v', 'libx264', '-pix_fmt', 'yuv420p', '-c:a', 'libopus']);
+  });
+
+  it('fails when the requested codec cannot be encoded', () => {
+    expect(() => buildCodecArgs({ videoCodec: 'vp9' }, 'webm', AVAILABLE)).toThrow('No FFmpeg encoder available for vp9');
+    expect(() => buildCodecArgs({ audioCodec: 'vorbis' }, 'mkv', AVAILABLE)).toThrow('No FFmpeg encoder available for vorbis');
+    expect(buildCodecArgs({}, 'webm', AVAILABLE)).toEqual([]);
+  });
+});
+
+describe('buildStreamCopyArgs', () => {
+  it('copies streams the new container can hold', () => {
+    expect(buildStreamCopyArgs({}, 'mkv', 'h264', 'aac')).toEqual(['-c:v', 'copy', '-c:a', 'copy']);
+    expect(buildStreamCopyArgs({}, 'mov', 'h264', 'pcm_s16le')).toEqual(['-c:v', 'copy', '-c:a', 'copy']);
+    expect(buildStreamCopyArgs({}, 'mp4', 'h264')).toEqual(['-c:v', 'copy', '-c:a', 'copy']);
+  });
+
+  it('tags copied H.265 for Apple players', () => {
+    expect(buildStreamCopyArgs({}, 'mp4', 'hevc', 'aac')).toEqual(['-c:v', 'copy', '-c:a', 'copy', '-tag:v', 'hvc1']);
+  });
+
+  it('re-encodes when the container or codec options need other codecs', () => {
+    expect(buildStreamCopyArgs({}, 'webm', 'h264', 'aac')).toBeUndefined();
+    expect(buildStreamCopyArgs({}, 'mp4', 'h264', 'vorbis')).toBeUndefined();
+    expect(buildStreamCopyArgs({}, 'mp4', 'prores', 'aac')).toBeUndefined();
+    expect(buildStreamCopyArgs({ videoCodec: 'h265' }, 'mkv', 'h264', 'aac')).toBeUndefined();
+    expect(buildStreamCopyArgs({ videoCodec: 'h264', audioCodec: 'aac' }, 'mkv', 'h264', 'aac')).toEqual(['-c:v', 'copy', '-c:a', 'copy']);
+  });
+});
+
+describe('getAvailableEncoders', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await mkdtemp(join(tmpdir(), 'video-codecs-'));
+  });
+
+  afterAll(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('lists the encoders once, passing the path and arguments without a shell', async () => {
+    // A quote in the path would break a command line built as a string
+    const ffmpegPath = join(dir, "ff\"mpeg's");
+    await writeFile(ffmpegPath, [
+      '#!/bin/sh',
+      '[ "$1" = -hide_banner ] && [ "$2" = -encoders ] || exit 1',
+      'echo "Encoders:"',
+      'echo " V....D libx264              libx264 H.264 / AVC"',
+      'echo " A....D aac                  AAC (Advanced Audio Coding)"'
+    ].join('\n'));
+    await chmod(ffmpegPath, 0o755);
+
+    expect(getListedEncoders(ffmpegPath)).toBeNull();
+    const listing = getAvailableEncoders(ffmpegPath);
+    expect(getAvailableEncoders(ffmpegPath)).toBe(listing);
+    expect(await listing).toEqual(new Set(['libx264', 'aac']));
+    expect(getListedEncoders(ffmpegPath)).toEqual(new Set(['libx264', 'aac']));
+  });
+
+  it('gives null when FFmpeg cannot be run', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(await getAvailableEncoders(join(dir, 'missing-ffmpeg'))).toBeNull();
+    vi.restoreAllMocks();
+  });
+});
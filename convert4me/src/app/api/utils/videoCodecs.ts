@@ -0,0 +1,332 @@
+import { runCommand } from './cancellation';
+
+export type VideoCodec = 'h264' | 'h265' | 'vp9' | 'av1' | 'mpeg4';
+export type AudioCodec = 'aac' | 'mp3' | 'opus' | 'vorbis' | 'flac' | 'ac3' | 'pcm';
+
+export interface CodecOptions {
+  videoCodec?: VideoCodec;
+  audioCodec?: AudioCodec;
+  crf?: number;
+  preset?: string;
+  profile?: string;
+  pixelFormat?: string;
+}
+
+interface VideoCodecInfo {
+  // Encoders that can produce this codec, in order of preference
+  encoders: string[];
+  // Valid constant quality range, lower is better; undefined when the encoder has no CRF mode
+  crfRange?: [number, number];
+  profiles: string[];
+  pixelFormats: string[];
+  // Encoder arguments for a preset, indexed like PRESETS from fastest to slowest
+  presetArgs?: (encoder: string, speedIndex: number) => string[];
+}
+
+// Encoder speed presets from fastest to slowest, mapped onto each encoder's own speed setting
+export const PRESETS = ['ultrafast', 'superfast', 'veryfast', 'faster', 'fast', 'medium', 'slow', 'slower', 'veryslow'];
+
+export const PIXEL_FORMATS = ['yuv420p', 'yuv422p', 'yuv444p', 'yuv420p10le', 'yuv422p10le', 'yuv444p10le'];
+
+export const VIDEO_CODECS: Record<VideoCodec, VideoCodecInfo> = {
+  h264: {
+    encoders: ['libx264'],
+    crfRange: [0, 51],
+    profiles: ['baseline', 'main', 'high'],
+    pixelFormats: ['yuv420p', 'yuv422p', 'yuv444p', 'yuv420p10le'],
+    presetArgs: (_encoder, speedIndex) => ['-preset', PRESETS[speedIndex]]
+  },
+  h265: {
+    encoders: ['libx265'],
+    crfRange: [0, 51],
+    profiles: ['main', 'main10'],
+    pixelFormats: PIXEL_FORMATS,
+    presetArgs: (_encoder, speedIndex) => ['-preset', PRESETS[speedIndex]]
+  },
+  vp9: {
+    encoders: ['libvpx-vp9'],
+    crfRange: [0, 63],
+    profiles: ['0', '1', '2', '3'],
+    pixelFormats: ['yuv420p', 'yuv422p', 'yuv444p', 'yuv420p10le'],
+    // The good deadline takes cpu-used 0-5 and, unlike realtime, works with two-pass encoding
+    presetArgs: (_encoder, speedIndex) => ['-deadline', 'good', '-cpu-used', Math.min(5, 8 - speedIndex).toString()]
+  },
+  av1: {
+    encoders: ['libsvtav1', 'libaom-av1'],
+    crfRange: [0, 63],
+    profiles: ['main', 'high', 'professional'],
+    pixelFormats: ['yuv420p', 'yuv420p10le'],
+    presetArgs: (encoder, speedIndex) => encoder === 'libsvtav1'
+      ? ['-preset', (12 - speedIndex).toString()]
+      : ['-cpu-used', Math.max(0, 8 - speedIndex).toString()]
+  },
+  mpeg4: {
+    encoders: ['mpeg4'],
+    profiles: [],
+    pixelFormats: ['yuv420p']
+  }
+};
+
+// Every profile name some codec accepts
+export const PROFILES = Array.from(new Set(Object.values(VIDEO_CODECS).flatMap(codec => codec.profiles)));
+
+export const AUDIO_CODECS: Record<AudioCodec, string[]> = {
+  aac: ['aac'],
+  mp3: ['libmp3lame'],
+  opus: ['libopus', 'opus'],
+  vorbis: ['libvorbis', 'vorbis'],
+  flac: ['flac'],
+  ac3: ['ac3'],
+  pcm: ['pcm_s16le']
+};
+
+// Codecs each container can hold; the first entry is the container's default
+export const CONTAINER_CODECS: Record<string, { video: VideoCodec[]; audio: AudioCodec[] }> = {
+  mp4: { video: ['h264', 'h265', 'av1', 'vp9'], audio: ['aac', 'mp3', 'opus', 'ac3'] },
+  mov: { video: ['h264', 'h265', 'mpeg4'], audio: ['aac', 'mp3', 'ac3', 'pcm'] },
+  mkv: { video: ['h264', 'h265', 'vp9', 'av1', 'mpeg4'], audio: ['aac', 'mp3', 'opus', 'vorbis', 'flac', 'ac3', 'pcm'] },
+  webm: { video: ['vp9', 'av1'], audio: ['opus', 'vorbis'] },
+  avi: { video: ['mpeg4', 'h264'], audio: ['mp3', 'ac3', 'pcm'] }
+};
+
+// FFprobe codec names that differ from the codec ids above
+const PROBED_VIDEO_CODECS: Record<string, VideoCodec> = { hevc: 'h265' };
+
+// Encoders compiled into the FFmpeg build: the listing, run once per FFmpeg path, and its result once known
+const encoderCache = new Map<string, { listing: Promise<Set<string> | null>; encoders?: Set<string> | null }>();
+
+/**
+ * Ask FFmpeg which encoders it was built with
+ */
+async function listEncoders(ffmpegCmd: string): Promise<Set<string> | null> {
+  try {
+    const output = await runCommand(ffmpegCmd, ['-hide_banner', '-encoders']);
+
+    // Lines look like " V....D libx264   libx264 H.264 / AVC ..."
+    return new Set(
+      output
+        .split('\n')
+        .map(line => line.match(/^\s*[VAS][A-Z.]{5}\s+(\S+)/)?.[1])
+        .filter((name): name is string => !!name)
+    );
+  } catch (error) {
+    console.warn('Could not list FFmpeg encoders:', error);
+    return null;
+  }
+}
+
+/**
+ * List the encoders the FFmpeg build has compiled in, or null when they cannot be detected
+ */
+export function getAvailableEncoders(ffmpegCmd: string): Promise<Set<string> | null> {
+  const cached = encoderCache.get(ffmpegCmd);
+  if (cached) {
+    return cached.listing;
+  }
+
+  const entry: { listing: Promise<Set<string> | null>; encoders?: Set<string> | null } = {
+    listing: listEncoders(ffmpegCmd).then(encoders => {
+      entry.encoders = encoders;
+      return encoders;
+    })
+  };
+  encoderCache.set(ffmpegCmd, entry);
+  return entry.listing;
+}
+
+/**
+ * The encoders of the FFmpeg build if they were already listed, for checks that cannot wait for FFmpeg.
+ * The listing is started otherwise, and every encoder is assumed to exist until it finishes;
+ * conversions check the encoders again before they start.
+ */
+export function getListedEncoders(ffmpegCmd: string): Set<string> | null {
+  getAvailableEncoders(ffmpegCmd);
+  return encoderCache.get(ffmpegCmd)?.encoders ?? null;
+}
+
+/**
+ * Pick the first encoder FFmpeg has for a codec, assuming the preferred one when detection failed
+ */
+function pickEncoder(candidates: string[], available: Set<string> | null): string | undefined {
+  if (!available) {
+    return candidates[0];
+  }
+  return candidates.find(encoder => available.has(encoder));
+}
+
+/**
+ * Check codec options against the output container and the FFmpeg build
+ */
+export function validateCodecOptions(
+  options: CodecOptions & { videoBitrate?: string },
+  outputFormat: string,
+  available: Set<string> | null
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const container = CONTAINER_CODECS[outputFormat];
+  if (!container) {
+    return errors;
+  }
+
+  const videoCodec = options.videoCodec || container.video[0];
+  const codec = VIDEO_CODECS[videoCodec];
+
+  if (options.videoCodec && !container.video.includes(options.videoCodec)) {
+    errors.videoCodec = `${outputFormat} files can hold ${container.video.join(', ')}`;
+  } else if (options.videoCodec && !pickEncoder(codec.encoders, available)) {
+    errors.videoCodec = `This server's FFmpeg was built without an encoder for ${options.videoCodec}`;
+  }
+
+  if (options.audioCodec && !container.audio.includes(options.audioCodec)) {
+    errors.audioCodec = `${outputFormat} files can hold ${container.audio.join(', ')}`;
+  } else if (options.audioCodec && !pickEncoder(AUDIO_CODECS[options.audioCodec], available)) {
+    errors.audioCodec = `This server's FFmpeg was built without an encoder for ${options.audioCodec}`;
+  }
+
+  if (options.crf !== undefined) {
+    if (!codec.crfRange) {
+      errors.crf = `${videoCodec} has no constant quality mode`;
+    } else if (options.crf < codec.crfRange[0] || options.crf > codec.crfRange[1]) {
+      errors.crf = `Must be between ${codec.crfRange[0]} and ${codec.crfRange[1]} for ${videoCodec}`;
+    } else if (options.videoBitrate) {
+      errors.crf = 'Use either crf or videoBitrate, not both';
+    }
+  }
+
+  if (options.preset && !codec.presetArgs) {
+    errors.preset = `${videoCodec} has no speed presets`;
+  }
+
+  if (options.profile && !codec.profiles.includes(options.profile)) {
+    errors.profile = codec.profiles.length > 0
+      ? `${videoCodec} profiles are ${codec.profiles.join(', ')}`
+      : `${videoCodec} has no selectable profiles`;
+  }
+
+  if (options.pixelFormat && !codec.pixelFormats.includes(options.pixelFormat)) {
+    errors.pixelFormat = `${videoCodec} supports ${codec.pixelFormats.join(', ')}`;
+  }
+
+  return errors;
+}
+
+/**
+ * Build the arguments for the video encoder, preset, quality and pixel format
+ */
+function buildVideoEncoderArgs(options: CodecOptions, videoCodec: VideoCodec, encoder: string, outputFormat: string): string[] {
+  const codec = VIDEO_CODECS[videoCodec];
+  const args = ['-c:v', encoder];
+
+  // Older FFmpeg builds still flag libaom as experimental
+  if (encoder === 'libaom-av1') {
+    args.push('-strict', 'experimental');
+  }
+
+  if (options.preset && codec.presetArgs) {
+    args.push(...codec.presetArgs(encoder, PRESETS.indexOf(options.preset)));
+  }
+  if (options.crf !== undefined) {
+    args.push('-crf', options.crf.toString());
+
+    // VP9 and libaom only use constant quality when the bitrate is unconstrained
+    if (['libvpx-vp9', 'libaom-av1'].includes(encoder)) {
+      args.push('-b:v', '0');
+    }
+  }
+  if (options.profile) {
+    args.push('-profile:v', options.profile);
+  }
+
+  // 8-bit 4:2:0 keeps H.264 and H.265 playable everywhere unless asked otherwise
+  const pixelFormat = options.pixelFormat || (['h264', 'h265'].includes(videoCodec) ? 'yuv420p' : undefined);
+  if (pixelFormat) {
+    args.push('-pix_fmt', pixelFormat);
+  }
+
+  // Apple players only recognise HEVC in MP4 and MOV with the hvc1 tag
+  if (videoCodec === 'h265' && ['mp4', 'mov'].includes(outputFormat)) {
+    args.push('-tag:v', 'hvc1');
+  }
+
+  return args;
+}
+
+/**
+ * Build the encoder arguments for a video output container
+ */
+export function buildCodecArgs(options: CodecOptions, outputFormat: string, available: Set<string> | null): string[] {
+  const container = CONTAINER_CODECS[outputFormat];
+  if (!container) {
+    return [];
+  }
+
+  const videoCodec = options.videoCodec || container.video[0];
+  const encoder = pickEncoder(VIDEO_CODECS[videoCodec].encoders, available);
+  const args: string[] = [];
+
+  if (encoder) {
+    args.push(...buildVideoEncoderArgs(options, videoCodec, encoder, outputFormat));
+  } else if (options.videoCodec) {
+    throw new Error(`No FFmpeg encoder available for ${videoCodec}`);
+  }
+  // Otherwise FFmpeg picks the container's default video encoder
+
+  if (options.audioCodec) {
+    const audioEncoder = pickEncoder(AUDIO_CODECS[options.audioCodec], available);
+    if (!audioEncoder) {
+      throw new Error(`No FFmpeg encoder available for ${options.audioCodec}`);
+    }
+    args.push('-c:a', audioEncoder);
+  }
+
+  return args;
+}
+
+/**
+ * Map a video codec name reported by FFprobe onto a known codec
+ */
+function toVideoCodec(probedName: string): VideoCodec | undefined {
+  const codec = PROBED_VIDEO_CODECS[probedName] || probedName;
+  return codec in VIDEO_CODECS ? codec as VideoCodec : undefined;
+}
+
+/**
+ * Map an audio codec name reported by FFprobe onto a known codec; every PCM variant counts as pcm
+ */
+function toAudioCodec(probedName: string): AudioCodec | undefined {
+  const codec = probedName.startsWith('pcm_') ? 'pcm' : probedName;
+  return codec in AUDIO_CODECS ? codec as AudioCodec : undefined;
+}
+
+/**
+ * Build the arguments that copy the video and audio streams unchanged into the output container.
+ * Returns undefined when the container cannot hold the probed codecs, or codec options ask for others.
+ */
+export function buildStreamCopyArgs(
+  options: CodecOptions,
+  outputFormat: string,
+  probedVideoCodec?: string,
+  probedAudioCodec?: string
+): string[] | undefined {
+  const container = CONTAINER_CODECS[outputFormat];
+  const videoCodec = probedVideoCodec ? toVideoCodec(probedVideoCodec) : undefined;
+  const audioCodec = probedAudioCodec ? toAudioCodec(probedAudioCodec) : undefined;
+
+  if (!container || !videoCodec || !container.video.includes(videoCodec)) {
+    return undefined;
+  }
+  if (probedAudioCodec && (!audioCodec || !container.audio.includes(audioCodec))) {
+    return undefined;
+  }
+
+  // Asking for the codec the input already has still allows a copy
+  if ((options.videoCodec && options.videoCodec !== videoCodec) || (options.audioCodec && options.audioCodec !== audioCodec)) {
+    return undefined;
+  }
+
+  const args = ['-c:v', 'copy', '-c:a', 'copy'];
+  if (videoCodec === 'h265' && ['mp4', 'mov'].includes(outputFormat)) {
+    args.push('-tag:v', 'hvc1');
+  }
+  return args;
+}
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildTrimmedInputArgs,
+  getTargetVideoBitrate,
+  parseBitrate,
+  parseProgressBlock,
+  parseTimestamp,
+  validateTrimOptions,
+  videoConverter
+} from './videoConverter';
+import { validateOptions } from './optionValidation';
+
+describe('parseTimestamp', () => {
+  it('reads seconds and HH:MM:SS timestamps', () => {
+    expect(parseTimestamp('90')).toBe(90);
+    expect(parseTimestamp('1:30')).toBe(90);
+    expect(parseTimestamp('01:02:03.5')).toBe(3723.5);
+  });
+});
+
+describe('buildTrimmedInputArgs', () => {
+  it('seeks before the input and limits the duration', () => {
+    expect(buildTrimmedInputArgs('in.mp4', { startTime: '00:00:10', endTime: '25' })).toEqual(['-ss', '10', '-t', '15', '-i', 'in.mp4']);
+    expect(buildTrimmedInputArgs('in.mp4', { endTime: '5' })).toEqual(['-t', '5', '-i', 'in.mp4']);
+    expect(buildTrimmedInputArgs('in.mp4', {})).toEqual(['-i', 'in.mp4']);
+  });
+});
+
+describe('validateTrimOptions', () => {
+  it('requires the end to come after the start', () => {
+    expect(validateTrimOptions({ startTime: '10', endTime: '5' }, 'mp4', 'mp4')).toEqual({ endTime: 'Must be after the start time' });
+    expect(validateTrimOptions({ startTime: '5', endTime: '10' }, 'mp4', 'mp4')).toEqual({});
+  });
+
+  it('only cuts fast when the streams can be copied unchanged', () => {
+    expect(validateTrimOptions({ startTime: '5', trimMode: 'fast' }, 'mp4', 'mp4')).toEqual({});
+    expect(validateTrimOptions({ startTime: '5', trimMode: 'fast' }, 'mp4', 'webm')).toEqual({
+      trimMode: 'Fast trimming keeps the original streams, so the output format must match the input'
+    });
+    expect(validateTrimOptions({ startTime: '5', trimMode: 'fast' }, 'mp4', 'mp4', ['resolution'])).toEqual({
+      trimMode: 'Fast trimming cannot be combined with resolution'
+    });
+  });
+});
+
+describe('parseProgressBlock', () => {
+  it('reads the output time and encoder statistics', () => {
+    expect(parseProgressBlock({ out_time_us: '12500000', fps: '48.5', speed: '1.93x', total_size: '1048576', progress: 'continue' })).toEqual({
+      outTime: 12.5,
+      details: { fps: 48.5, speed: 1.93, size: 1048576 }
+    });
+  });
+
+  it('falls back to out_time_ms, which is in microseconds as well', () => {
+    expect(parseProgressBlock({ out_time_ms: '2000000' }).outTime).toBe(2);
+  });
+
+  it('leaves out statistics FFmpeg reports as N/A', () => {
+    expect(parseProgressBlock({ out_time_us: 'N/A', speed: 'N/A', fps: '0' })).toEqual({
+      outTime: 0,
+      details: { fps: 0, speed: undefined, size: undefined }
+    });
+  });
+});
+
+describe('parseBitrate', () => {
+  it('reads FFmpeg bitrates in bits per second', () => {
+    expect(parseBitrate('128k')).toBe(128000);
+    expect(parseBitrate('2.5M')).toBe(2500000);
+    expect(parseBitrate('64000')).toBe(64000);
+  });
+});
+
+describe('getTargetVideoBitrate', () => {
+  it('fills the target size after the audio track and container overhead', () => {
+    // 10 MB over 60 seconds is 1333333 bits per second, 2% of it overhead
+    expect(getTargetVideoBitrate(10, 60, 128000)).toBe(1178666);
+    expect(getTargetVideoBitrate(10, 60, 0)).toBe(1306666);
+  });
+});
+
+describe('videoConverter target size', () => {
+  it('cannot be combined with another bitrate or quality setting', () => {
+    expect(videoConverter.validate?.({ targetSize: 10, crf: 23 }, 'mp4', 'mp4')).toMatchObject({
+      targetSize: 'Cannot be combined with videoBitrate or crf'
+    });
+    expect(videoConverter.validate?.({ targetSize: 10 }, 'mp4', 'mp4')).toEqual({});
+  });
+});
+
+describe('videoConverter audio filters', () => {
+  it('accepts the audio filters that keep the sound in sync with the picture', () => {
+    const { options, errors } = validateOptions(videoConverter.optionSchema, { volume: 3, fadeIn: 1, mono: true });
+
+    expect(errors).toEqual({});
+    expect(options).toMatchObject({ volume: 3, fadeIn: 1, mono: true });
+  });
+
+  it('accepts silence trimming, which cuts the picture along with the sound', () => {
+    const { options, errors } = validateOptions(videoConverter.optionSchema, { trimSilence: true, silenceThreshold: -40 });
+
+    expect(errors).toEqual({});
+    expect(options).toMatchObject({ trimSilence: true, silenceThreshold: -40 });
+  });
+});
@@ -1,28 +1,146 @@
-import { join, basename, extname } from 'path';
-import { spawn, ChildProcess } from 'child_process';
+import { join, basename, dirname, extname } from 'path';
+import { spawn } from 'child_process';
+import { devNull } from 'os';
+import { mkdir, readFile, readdir, rm } from 'fs/promises';
 import ffmpegPath from 'ffmpeg-static';
 import { existsSync } from 'fs';
-import { sendProgressUpdate } from '../socket/route';
+import type { ConversionMethod, Converter, OptionSchema, ProgressDetails } from './converterTypes';
+import { probeMedia } from './mediaProbe';
+import { isUploadedFile } from './uploads';
+import { CancellationError, activeConversionProcesses } from './cancellation';
+import {
+  SUBTITLE_FORMATS,
+  TEXT_SUBTITLE_CODECS,
+  buildBurnInFilter,
+  buildSoftSubtitleArgs,
+  supportsSoftSubtitles
+} from './subtitles';
+import {
+  AUDIO_CODECS,
+  CodecOptions,
+  PIXEL_FORMATS,
+  PRESETS,
+  PROFILES,
+  VIDEO_CODECS,
+  buildCodecArgs,
+  buildStreamCopyArgs,
+  getAvailableEncoders,
+  getListedEncoders,
+  validateCodecOptions
+} from './videoCodecs';
+import {
+  VIDEO_FILTER_OPTION_SCHEMA,
+  VideoFilterOptions,
+  buildAudioSpeedFilter,
+  buildVideoFilterChain,
+  changesSpeed,
+  checkCropFits,
+  getFilteredFrameSize,
+  validateVideoFilterOptions
+} from './videoFilters';
+import {
+  AUDIO_FILTER_OPTION_SCHEMA,
+  AudioFilterOptions,
+  LoudnessMeasurement,
+  buildAudioFilters,
+  buildLoudnormFilter,
+  buildSilenceDetectFilter,
+  findSoundRange,
+  validateAudioFilterOptions
+} from './audioFilters';
+import {
+  WATERMARK_OPTION_SCHEMA,
+  WatermarkOptions,
+  buildVideoWatermarkFilter,
+  hasWatermark,
+  validateWatermarkOptions
+} from './watermark';
 
-// Map to store active conversion processes
-export const activeConversionProcesses = new Map<string, ChildProcess>();
-
-// Signal that a process was cancelled by user
-export class CancellationError extends Error {
-  constructor(message: string) {
-    super(message);
-    this.name = 'CancellationError';
-  }
-}
-
-interface ConversionOptions {
+export interface VideoConversionOptions extends CodecOptions, VideoFilterOptions, AudioFilterOptions, WatermarkOptions {
   resolution?: string;
   frameRate?: number;
   videoBitrate?: string;
   audioBitrate?: string;
-  [key: string]: unknown;
+  // Output size to aim for in megabytes, encoded in two passes
+  targetSize?: number;
+  // Path of an uploaded subtitle file to add to the output
+  subtitleFile?: string;
+  // Draw subtitles into the picture instead of adding them as a track
+  burnSubtitles?: boolean;
+  // Subtitle track of the input to burn in when no subtitle file is given
+  subtitleTrack?: number;
+  // Re-encode even when the streams could be copied into the new container
+  forceReencode?: boolean;
 }
 
+export interface TrimOptions {
+  startTime?: string;
+  endTime?: string;
+  // Fast cuts copy streams at keyframes, accurate cuts re-encode
+  trimMode?: 'accurate' | 'fast';
+}
+
+// Bitrates as understood by FFmpeg, e.g. 800k or 2.5M
+export const BITRATE_PATTERN = '^\\d+(\\.\\d+)?[kKmM]?$';
+
+// Timestamps in seconds (12.5) or clock notation (01:02:03.5)
+export const TIMESTAMP_PATTERN = '^(\\d+:){0,2}\\d+(\\.\\d+)?$';
+
+// Video containers FFmpeg can read
+export const VIDEO_INPUT_FORMATS = ['mp4', 'mov', 'avi', 'mkv', 'wmv', 'webm'];
+
+// Start/end options shared by the converters that can clip their input
+export const TRIM_OPTION_SCHEMA: OptionSchema = {
+  startTime: {
+    type: 'string',
+    pattern: TIMESTAMP_PATTERN,
+    patternDescription: 'Must be seconds or HH:MM:SS',
+    description: 'Where the output starts in the input'
+  },
+  endTime: {
+    type: 'string',
+    pattern: TIMESTAMP_PATTERN,
+    patternDescription: 'Must be seconds or HH:MM:SS',
+    description: 'Where the output ends in the input'
+  },
+  trimMode: {
+    type: 'enum',
+    values: ['accurate', 'fast'],
+    default: 'accurate',
+    description: 'Accurate re-encodes from the exact start, fast cuts at the nearest keyframe without re-encoding'
+  }
+};
+
+// Options that change the encoded streams, so the input cannot simply be copied into the new container
+const ENCODING_OPTION_KEYS = [
+  'resolution', 'frameRate', 'videoBitrate', 'audioBitrate', 'targetSize',
+  'crf', 'preset', 'profile', 'pixelFormat', 'burnSubtitles',
+  ...Object.keys(VIDEO_FILTER_OPTION_SCHEMA),
+  ...Object.keys(AUDIO_FILTER_OPTION_SCHEMA),
+  ...Object.keys(WATERMARK_OPTION_SCHEMA)
+];
+
+// Share of a target size reserved for container overhead
+const TARGET_SIZE_OVERHEAD = 0.02;
+
+// Audio bitrate assumed for target size encodes when none is given
+const TARGET_SIZE_AUDIO_BITRATE = '128k';
+
+// Lowest video bitrate worth encoding for a target size, in bits per second
+const TARGET_SIZE_MIN_VIDEO_BITRATE = 50000;
+
+// Share of the progress spent measuring loudness before a normalized encode
+const LOUDNESS_ANALYSIS_SHARE = 30;
+
+// Share of the progress spent finding the silence at the start and end before a trimmed encode
+const SILENCE_ANALYSIS_SHARE = 10;
+
+// Sample rate restored after loudnorm, which always outputs 192 kHz, when the input's is unknown
+const DEFAULT_SAMPLE_RATE = 48000;
+
+// Characters of FFmpeg's stderr kept for error messages
+const FFMPEG_STDERR_TAIL_LENGTH = 4000;
+
 // Known system paths for FFmpeg
 const FFMPEG_SYSTEM_PATHS = [
   '/usr/bin/ffmpeg',
@@ -32,74 +150,162 @@ const FFMPEG_SYSTEM_PATHS = [
 ];
 
 /**
- * Converts a video file to the specified output format
+ * Convert a timestamp in seconds or HH:MM:SS.ms notation to seconds
  */
-export async function convertVideo(
-  inputPath: string, 
-  outputFormat: string, 
-  options: ConversionOptions = {}, 
-  progressCallback: (progress: number) => void = () => {},
-  jobId?: string
-): Promise<string> {
-  return new Promise((resolve, reject) => {
-    // Find a working ffmpeg command - try multiple possible locations
-    let ffmpegCmd = '';
-    
-    // First try the ffmpeg-static path
-    if (ffmpegPath && existsSync(ffmpegPath)) {
-      ffmpegCmd = ffmpegPath;
-    } else {
-      // Then try common system paths
-      for (const path of FFMPEG_SYSTEM_PATHS) {
-        if (existsSync(path)) {
-          ffmpegCmd = path;
-          break;
-        }
-      }
-      
-      // If still not found, try the simple command (might be in PATH)
-      if (!ffmpegCmd) {
-        ffmpegCmd = 'ffmpeg';
-      }
-    }
+export function parseTimestamp(timestamp: string): number {
+  return timestamp
+    .split(':')
+    .reduce((seconds, part) => seconds * 60 + parseFloat(part), 0);
+}
 
-    const outputFilename = `${basename(inputPath, extname(inputPath))}.${outputFormat}`;
-    const outputDir = join(process.cwd(), 'output');
-    const outputPath = join(outputDir, outputFilename);
+/**
+ * Build the input arguments that limit FFmpeg to the requested time range
+ */
+export function buildTrimmedInputArgs(inputPath: string, options: TrimOptions): string[] {
+  const args: string[] = [];
 
-    // Build FFmpeg command - adding explicit codec parameters
-    const args = ['-i', inputPath];
+  // Seeking before the input is fast, and still frame accurate when re-encoding
+  if (options.startTime) {
+    args.push('-ss', parseTimestamp(options.startTime).toString());
+  }
+  if (options.endTime) {
+    const start = options.startTime ? parseTimestamp(options.startTime) : 0;
+    args.push('-t', (parseTimestamp(options.endTime) - start).toString());
+  }
 
-    // Add video options if provided
-    if (options.resolution) {
-      args.push('-s', options.resolution);
-    }
-    if (options.frameRate) {
-      args.push('-r', options.frameRate.toString());
-    }
-    if (options.videoBitrate) {
-      args.push('-b:v', options.videoBitrate);
+  args.push('-i', inputPath);
+  return args;
+}
+
+/**
+ * Work out how long the (possibly trimmed) output will be, so progress can be measured against it.
+ * Returns undefined when the input has no known duration, e.g. some live captures.
+ */
+export async function getOutputDuration(inputPath: string, options: TrimOptions = {}): Promise<number | undefined> {
+  const start = options.startTime ? parseTimestamp(options.startTime) : 0;
+  const { duration } = await probeMedia(inputPath);
+  const end = options.endTime ? Math.min(parseTimestamp(options.endTime), duration || Infinity) : duration;
+
+  return end > start ? end - start : undefined;
+}
+
+/**
+ * Check that a trim range is usable for a conversion
+ */
+export function validateTrimOptions(
+  options: TrimOptions,
+  inputFormat: string,
+  outputFormat: string,
+  encodingOptions: string[] = []
+): Record<string, string> {
+  const errors: Record<string, string> = {};
+  const start = options.startTime ? parseTimestamp(options.startTime) : 0;
+
+  if (options.endTime && parseTimestamp(options.endTime) <= start) {
+    errors.endTime = 'Must be after the start time';
+  }
+
+  if (options.trimMode === 'fast' && (options.startTime || options.endTime)) {
+    // Copied streams must fit the output container unchanged
+    if (inputFormat !== outputFormat) {
+      errors.trimMode = 'Fast trimming keeps the original streams, so the output format must match the input';
+    } else if (encodingOptions.length > 0) {
+      errors.trimMode = `Fast trimming cannot be combined with ${encodingOptions.join(', ')}`;
     }
-    if (options.audioBitrate) {
-      args.push('-b:a', options.audioBitrate);
+  }
+
+  return errors;
+}
+
+/**
+ * Encoder arguments for an output container, using the container's default codecs unless overridden
+ */
+export async function getVideoCodecArgs(outputFormat: string, options: CodecOptions = {}): Promise<string[]> {
+  return buildCodecArgs(options, outputFormat, await getAvailableEncoders(getFfmpegCommand()));
+}
+
+/**
+ * Convert an FFmpeg bitrate such as 128k or 2.5M to bits per second
+ */
+export function parseBitrate(bitrate: string): number {
+  const multipliers: Record<string, number> = { k: 1000, m: 1000000 };
+  const unit = bitrate.slice(-1).toLowerCase();
+  return multipliers[unit] ? parseFloat(bitrate) * multipliers[unit] : parseFloat(bitrate);
+}
+
+/**
+ * Find a working ffmpeg command - try multiple possible locations
+ */
+export function getFfmpegCommand(): string {
+  // First try the ffmpeg-static path
+  if (ffmpegPath && existsSync(ffmpegPath)) {
+    return ffmpegPath;
+  }
+  
+  // Then try common system paths
+  for (const path of FFMPEG_SYSTEM_PATHS) {
+    if (existsSync(path)) {
+      return path;
     }
+  }
+  
+  // If still not found, try the simple command (might be in PATH)
+  return 'ffmpeg';
+}
+
+/**
+ * Parse one block of FFmpeg's -progress output into the elapsed output time and encoder statistics
+ */
+export function parseProgressBlock(block: Record<string, string>): { outTime: number; details: ProgressDetails } {
+  const number = (value?: string) => {
+    const parsed = parseFloat(value || '');
+    return Number.isFinite(parsed) ? parsed : undefined;
+  };
 
-    // Add explicit codec setting based on output format
-    if (['mp4', 'mov', 'mkv'].includes(outputFormat)) {
-      args.push('-c:v', 'libx264');  // Use H.264 codec
-      args.push('-pix_fmt', 'yuv420p'); // Ensure compatibility
+  return {
+    // out_time_us is in microseconds, out_time_ms is too despite its name
+    outTime: (number(block.out_time_us) ?? number(block.out_time_ms) ?? 0) / 1000000,
+    details: {
+      fps: number(block.fps),
+      speed: number(block.speed?.replace('x', '')),
+      size: number(block.total_size)
     }
+  };
+}
 
-    // Add output path
-    args.push('-y', outputPath);
+/**
+ * Runs FFmpeg with the given arguments, reporting progress and honouring cancellation.
+ * Progress is measured against expectedDuration (in seconds) using FFmpeg's machine-readable -progress output.
+ * Resolves with the end of FFmpeg's log, where analysis filters such as loudnorm print their results.
+ */
+export function runFfmpeg(
+  args: string[],
+  progressCallback: (progress: number, details?: ProgressDetails) => void = () => {},
+  jobId?: string,
+  signal?: AbortSignal,
+  expectedDuration?: number
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const ffmpegCmd = getFfmpegCommand();
+
+    // Report progress as key=value lines on stdout instead of the stats line on stderr
+    const ffmpegArgs = ['-progress', 'pipe:1', '-nostats', ...args];
 
     // Log the command
     console.log(`Using FFmpeg at: ${ffmpegCmd}`);
-    console.log(`FFmpeg command: ${ffmpegCmd} ${args.join(' ')}`);
+    console.log(`FFmpeg command: ${ffmpegCmd} ${ffmpegArgs.join(' ')}`);
+
+    // Don't start FFmpeg at all if the job was already cancelled
+    if (signal?.aborted) {
+      reject(new CancellationError('Conversion was cancelled by user'));
+      return;
+    }
 
     // Start FFmpeg process
-    const ffmpeg = spawn(ffmpegCmd, args);
-    let stderr = '';
+    const ffmpeg = spawn(ffmpegCmd, ffmpegArgs);
+    let stderrTail = '';
+    let progressBuffer = '';
+    let progressBlock: Record<string, string> = {};
     let wasCancelled = false;
     
     // Store the process in the active processes map if jobId is provided
@@ -107,10 +313,50 @@ export async function convertVideo(
       activeConversionProcesses.set(jobId, ffmpeg);
     }
 
-    // Capture stderr for progress information and errors
+    // Kill FFmpeg when the job is aborted
+    const onAbort = () => {
+      wasCancelled = true;
+      ffmpeg.kill();
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    // Each progress block ends with a progress=continue or progress=end line
+    ffmpeg.stdout.on('data', (data) => {
+      progressBuffer += data.toString();
+      const lines = progressBuffer.split('\n');
+      progressBuffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const separator = line.indexOf('=');
+        if (separator === -1) {
+          continue;
+        }
+
+        const key = line.slice(0, separator).trim();
+        progressBlock[key] = line.slice(separator + 1).trim();
+
+        if (key === 'progress') {
+          const { outTime, details } = parseProgressBlock(progressBlock);
+          progressBlock = {};
+
+          // Without a known duration only the statistics can be reported
+          if (!expectedDuration || expectedDuration <= 0) {
+            progressCallback(0, details);
+            continue;
+          }
+
+          if (details.speed) {
+            details.eta = Math.max(0, Math.round((expectedDuration - outTime) / details.speed));
+          }
+          progressCallback(Math.min(99, Math.max(0, Math.round((outTime / expectedDuration) * 100))), details);
+        }
+      }
+    });
+
+    // Keep only the end of stderr, which holds the error when FFmpeg fails
     ffmpeg.stderr.on('data', (data) => {
       const chunk = data.toString();
-      stderr += chunk;
+      stderrTail = (stderrTail + chunk).slice(-FFMPEG_STDERR_TAIL_LENGTH);
       
       // Log FFmpeg output for debugging
       console.log(chunk);
@@ -119,36 +365,12 @@ export async function convertVideo(
       if (chunk.includes('Exiting normally, received signal 15')) {
         wasCancelled = true;
       }
-      
-      // Try to extract progress information
-      const durationMatch = stderr.match(/Duration: (\d{2}):(\d{2}):(\d{2})\.\d{2}/);
-      const timeMatch = chunk.match(/time=(\d{2}):(\d{2}):(\d{2})\.\d{2}/);
-      
-      if (durationMatch && timeMatch) {
-        const durationSeconds = 
-          parseInt(durationMatch[1]) * 3600 + 
-          parseInt(durationMatch[2]) * 60 + 
-          parseInt(durationMatch[3]);
-        
-        const currentSeconds = 
-          parseInt(timeMatch[1]) * 3600 + 
-          parseInt(timeMatch[2]) * 60 + 
-          parseInt(timeMatch[3]);
-        
-        if (durationSeconds > 0) {
-          const progress = Math.round((currentSeconds / durationSeconds) * 100);
-          progressCallback(progress);
-          
-          // Send progress update through SSE if jobId is provided
-          if (jobId) {
-            sendProgressUpdate(jobId, progress);
-          }
-        }
-      }
     });
 
     // Handle process exit
     ffmpeg.on('close', (code) => {
+      signal?.removeEventListener('abort', onAbort);
+
       // Remove the process from active processes map if jobId is provided
       if (jobId) {
         activeConversionProcesses.delete(jobId);
@@ -156,21 +378,19 @@ export async function convertVideo(
       
       if (code === 0) {
         progressCallback(100);
-        // Send final progress update
-        if (jobId) {
-          sendProgressUpdate(jobId, 100);
-        }
-        resolve(outputPath);
-      } else if (wasCancelled || stderr.includes('Exiting normally, received signal 15')) {
+        resolve(stderrTail);
+      } else if (wasCancelled) {
         // If the process was cancelled, don't treat it as an error
         reject(new CancellationError('Conversion was cancelled by user'));
       } else {
-        reject(new Error(`FFmpeg exited with code ${code}: ${stderr}`));
+        reject(new Error(`FFmpeg exited with code ${code}: ${stderrTail}`));
       }
     });
 
     // Handle process error
     ffmpeg.on('error', (err) => {
+      signal?.removeEventListener('abort', onAbort);
+
       // Remove the process from active processes map if jobId is provided
       if (jobId) {
         activeConversionProcesses.delete(jobId);
@@ -179,4 +399,542 @@ export async function convertVideo(
       reject(new Error(`FFmpeg process error: ${err.message}`));
     });
   });
-} 
\ No newline at end of file
+}
+
+/**
+ * Converts a video file to the specified output format
+ */
+export async function convertVideo(
+  inputPath: string, 
+  outputFormat: string, 
+  options: VideoConversionOptions & TrimOptions = {}, 
+  progressCallback: (progress: number, details?: ProgressDetails) => void = () => {},
+  jobId?: string,
+  signal?: AbortSignal,
+  outputDir: string = join(process.cwd(), 'output'),
+  onMethodChosen: (method: ConversionMethod) => void = () => {}
+): Promise<string> {
+  const outputFilename = `${basename(inputPath, extname(inputPath))}.${outputFormat}`;
+  const outputPath = join(outputDir, outputFilename);
+
+  // The silence at the start and end of the sound is cut off the video and audio alike, like a trim range
+  if (options.trimSilence) {
+    const silenceDir = join(outputDir, 'temp', `${basename(inputPath, extname(inputPath))}-silence-${Date.now()}`);
+    try {
+      ({ options, progressCallback } = await trimSilentEnds(inputPath, options, silenceDir, progressCallback, jobId, signal));
+    } finally {
+      await rm(silenceDir, { recursive: true, force: true });
+    }
+  }
+
+  // Build FFmpeg command - adding explicit codec parameters
+  const args = buildTrimmedInputArgs(inputPath, options);
+  const trimmedDuration = await getOutputDuration(inputPath, options);
+  const expectedDuration = trimmedDuration && options.speed ? trimmedDuration / options.speed : trimmedDuration;
+
+  if (options.trimMode === 'fast' && (options.startTime || options.endTime)) {
+    // Copy every stream as-is, the cut snaps to the keyframe before the start time
+    onMethodChosen('remux');
+    args.push('-map', '0', '-c', 'copy', '-avoid_negative_ts', 'make_zero', '-y', outputPath);
+    await runFfmpeg(args, progressCallback, jobId, signal, expectedDuration);
+    return outputPath;
+  }
+
+  // An uploaded subtitle file is a second input, trimmed along with the video
+  const softSubtitleFile = options.burnSubtitles ? undefined : options.subtitleFile;
+  if (softSubtitleFile) {
+    args.push(...buildTrimmedInputArgs(softSubtitleFile, options));
+  }
+
+  // Keep the main video and audio tracks, plus any subtitles
+  args.push('-map', '0:v:0', '-map', '0:a:0?');
+  args.push(...await buildSubtitleArgs(inputPath, outputFormat, options, softSubtitleFile));
+
+  // A plain container change copies the streams instead of re-encoding them
+  const streamCopyArgs = await getStreamCopyArgs(inputPath, outputFormat, options);
+  onMethodChosen(streamCopyArgs ? 'remux' : 'encode');
+  if (streamCopyArgs) {
+    args.push(...streamCopyArgs, '-y', outputPath);
+    await runFfmpeg(args, progressCallback, jobId, signal, expectedDuration);
+    return outputPath;
+  }
+
+  // Watermark logos and text are written to a work directory the filter graph reads them from
+  const workDir = hasWatermark(options)
+    ? join(outputDir, 'temp', `${basename(inputPath, extname(inputPath))}-watermark-${Date.now()}`)
+    : undefined;
+
+  try {
+    if (options.crop) {
+      const { width, height } = await probeMedia(inputPath);
+      checkCropFits(options.crop, width, height);
+    }
+
+    // Every picture change, including burned-in subtitles and watermarks, runs through one filter chain
+    const overlayFilters: string[] = [];
+    if (options.burnSubtitles) {
+      overlayFilters.push(await getBurnInFilter(inputPath, options));
+    }
+    if (workDir) {
+      const { width, height } = await probeMedia(inputPath);
+      if (!width || !height) {
+        throw new Error('Could not read the video size to place the watermark');
+      }
+      const frame = getFilteredFrameSize(options, width, height);
+      await mkdir(workDir, { recursive: true });
+      overlayFilters.push(await buildVideoWatermarkFilter(options, frame.width, frame.height, workDir));
+    }
+    const videoFilter = buildVideoFilterChain(options, overlayFilters.join(',') || undefined);
+    if (videoFilter) {
+      args.push('-vf', videoFilter);
+    }
+    if (options.frameRate && changesSpeed(options)) {
+      args.push('-r', options.frameRate.toString());
+    }
+
+    // The tempo change keeps the audio in step with the video before any other audio filter
+    const audioSpeedFilter = buildAudioSpeedFilter(options.speed);
+    args.push(...await buildAudioFilterArgs(
+      inputPath,
+      options,
+      audioSpeedFilter ? [audioSpeedFilter] : [],
+      expectedDuration,
+      undefined,
+      progressCallback,
+      jobId,
+      signal
+    ));
+    const encodeProgress = getEncodeProgress(options, progressCallback);
+
+    // Add explicit codec settings based on output format and codec options
+    args.push(...await getVideoCodecArgs(outputFormat, options));
+
+    if (options.targetSize) {
+      await encodeToTargetSize(inputPath, args, outputPath, options.targetSize, options, encodeProgress, jobId, signal, expectedDuration);
+      return outputPath;
+    }
+
+    if (options.videoBitrate) {
+      args.push('-b:v', options.videoBitrate);
+    }
+    if (options.audioBitrate) {
+      args.push('-b:a', options.audioBitrate);
+    }
+
+    // Add output path
+    args.push('-y', outputPath);
+
+    await runFfmpeg(args, encodeProgress, jobId, signal, expectedDuration);
+    return outputPath;
+  } finally {
+    if (workDir) {
+      await rm(workDir, { recursive: true, force: true });
+    }
+  }
+}
+
+/**
+ * List the given options that are set, treating disabled flags as unset
+ */
+function getSetOptions(options: object, keys: string[]): string[] {
+  const values = options as Record<string, unknown>;
+  return keys.filter(key => values[key] !== undefined && values[key] !== false);
+}
+
+/**
+ * Work out whether the conversion only changes the container, returning the stream copy arguments if so.
+ * Trimming, filters and encoding options all need a re-encode.
+ */
+async function getStreamCopyArgs(
+  inputPath: string,
+  outputFormat: string,
+  options: VideoConversionOptions & TrimOptions
+): Promise<string[] | undefined> {
+  if (options.forceReencode || options.startTime || options.endTime || getSetOptions(options, ENCODING_OPTION_KEYS).length > 0) {
+    return undefined;
+  }
+
+  const { videoCodec, audioCodec } = await probeMedia(inputPath);
+  return buildStreamCopyArgs(options, outputFormat, videoCodec, audioCodec);
+}
+
+/**
+ * Measure the loudness of the audio after the given filters with a loudnorm analysis pass.
+ * Returns undefined for silent audio, which has no level to correct.
+ */
+async function measureLoudness(
+  inputPath: string,
+  options: AudioFilterOptions & TrimOptions,
+  filters: string[],
+  progressCallback: (progress: number, details?: ProgressDetails) => void,
+  jobId?: string,
+  signal?: AbortSignal,
+  duration?: number
+): Promise<LoudnessMeasurement | undefined> {
+  const log = await runFfmpeg(
+    [
+      ...buildTrimmedInputArgs(inputPath, options),
+      '-map', '0:a:0', '-vn', '-sn',
+      '-af', [...filters, buildLoudnormFilter(options)].join(','),
+      '-f', 'null', '-y', devNull
+    ],
+    progressCallback,
+    jobId,
+    signal,
+    duration
+  );
+
+  // loudnorm prints its measurement as the last JSON object in the log
+  let measurement: LoudnessMeasurement;
+  try {
+    measurement = JSON.parse(log.slice(log.lastIndexOf('{'), log.lastIndexOf('}') + 1));
+  } catch {
+    throw new Error('Could not read the loudness measurement from FFmpeg');
+  }
+
+  return Number.isFinite(parseFloat(measurement.input_i)) ? measurement : undefined;
+}
+
+/**
+ * Narrow the trim range to the sound between the silence at the start and end of the audio, found in a
+ * silencedetect pass that takes the start of the progress. Cutting the input rather than filtering the audio
+ * keeps the picture in step with the sound and leaves pauses in between untouched.
+ * Inputs without audio are returned unchanged.
+ */
+export async function trimSilentEnds<T extends AudioFilterOptions & TrimOptions>(
+  inputPath: string,
+  options: T,
+  workDir: string,
+  progressCallback: (progress: number, details?: ProgressDetails) => void,
+  jobId?: string,
+  signal?: AbortSignal
+): Promise<{ options: T; progressCallback: (progress: number, details?: ProgressDetails) => void }> {
+  const { hasAudio } = await probeMedia(inputPath);
+  if (!hasAudio) {
+    return { options, progressCallback };
+  }
+
+  const duration = await getOutputDuration(inputPath, options);
+  const marksPath = join(workDir, 'silence.txt');
+  await mkdir(workDir, { recursive: true });
+  await runFfmpeg(
+    [
+      ...buildTrimmedInputArgs(inputPath, options),
+      '-map', '0:a:0', '-vn', '-sn',
+      '-af', buildSilenceDetectFilter(options, marksPath),
+      '-f', 'null', '-y', devNull
+    ],
+    (progress, details) => progressCallback(Math.round((progress * SILENCE_ANALYSIS_SHARE) / 100), details),
+    jobId,
+    signal,
+    duration
+  );
+
+  const range = findSoundRange(await readFile(marksPath, 'utf8'), duration);
+  if (!range) {
+    throw new Error('The audio is silent throughout, so trimming the silence would leave nothing');
+  }
+
+  // The detected range is relative to the requested start
+  const start = options.startTime ? parseTimestamp(options.startTime) : 0;
+  return {
+    options: {
+      ...options,
+      startTime: (start + range.start).toString(),
+      endTime: range.end !== undefined ? (start + range.end).toString() : options.endTime
+    },
+    progressCallback: (progress, details) =>
+      progressCallback(SILENCE_ANALYSIS_SHARE + Math.round((progress * (100 - SILENCE_ANALYSIS_SHARE)) / 100), details)
+  };
+}
+
+/**
+ * Build the -af arguments for the audio filter options, after any filters the caller needs first.
+ * Loudness normalization measures the filtered audio in a first pass, which takes the start of the progress.
+ */
+export async function buildAudioFilterArgs(
+  inputPath: string,
+  options: AudioFilterOptions & TrimOptions,
+  leadingFilters: string[],
+  outputDuration: number | undefined,
+  outputSampleRate: number | undefined,
+  progressCallback: (progress: number, details?: ProgressDetails) => void,
+  jobId?: string,
+  signal?: AbortSignal
+): Promise<string[]> {
+  const filters = [...leadingFilters, ...buildAudioFilters(options, outputDuration)];
+  if (filters.length === 0 && !options.normalize) {
+    return [];
+  }
+
+  const { hasAudio, sampleRate } = await probeMedia(inputPath);
+  if (!hasAudio) {
+    return [];
+  }
+
+  const args: string[] = [];
+  if (options.normalize) {
+    const measurement = await measureLoudness(
+      inputPath,
+      options,
+      filters,
+      (progress, details) => progressCallback(Math.round((progress * LOUDNESS_ANALYSIS_SHARE) / 100), details),
+      jobId,
+      signal,
+      outputDuration
+    );
+
+    // loudnorm always outputs 192 kHz, so the output is set back to the usual rate
+    if (measurement) {
+      filters.push(buildLoudnormFilter(options, measurement));
+      args.push('-ar', (outputSampleRate || sampleRate || DEFAULT_SAMPLE_RATE).toString());
+    }
+  }
+
+  return filters.length > 0 ? ['-af', filters.join(','), ...args] : args;
+}
+
+/**
+ * Map encoding progress onto what is left after a loudness analysis pass
+ */
+export function getEncodeProgress(
+  options: AudioFilterOptions,
+  progressCallback: (progress: number, details?: ProgressDetails) => void
+): (progress: number, details?: ProgressDetails) => void {
+  if (!options.normalize) {
+    return progressCallback;
+  }
+
+  return (progress, details) =>
+    progressCallback(LOUDNESS_ANALYSIS_SHARE + Math.round((progress * (100 - LOUDNESS_ANALYSIS_SHARE)) / 100), details);
+}
+
+/**
+ * Build the arguments that keep the input's subtitles and add an uploaded subtitle file as soft tracks
+ */
+async function buildSubtitleArgs(
+  inputPath: string,
+  outputFormat: string,
+  options: VideoConversionOptions & TrimOptions,
+  softSubtitleFile?: string
+): Promise<string[]> {
+  // Burned in subtitles are drawn by the filter chain instead, and copied tracks would drift out of sync with a speed change
+  if (options.burnSubtitles || changesSpeed(options)) {
+    return [];
+  }
+
+  const { subtitleTracks } = await probeMedia(inputPath);
+  const externalInput = softSubtitleFile
+    ? { index: 1, format: extname(softSubtitleFile).slice(1).toLowerCase() }
+    : undefined;
+  return buildSoftSubtitleArgs(outputFormat, subtitleTracks, externalInput);
+}
+
+/**
+ * Build the filter that burns the subtitle file, or a text subtitle track of the input, into the picture
+ */
+async function getBurnInFilter(inputPath: string, options: VideoConversionOptions & TrimOptions): Promise<string> {
+  const startTime = options.startTime ? parseTimestamp(options.startTime) : 0;
+  if (options.subtitleFile) {
+    return buildBurnInFilter(options.subtitleFile, undefined, startTime);
+  }
+
+  // Burning in from the input needs a text track to render
+  const { subtitleTracks } = await probeMedia(inputPath);
+  const trackIndex = options.subtitleTrack || 0;
+  const track = subtitleTracks[trackIndex];
+  if (!track) {
+    throw new Error(subtitleTracks.length > 0
+      ? `Subtitle track ${trackIndex} not found, the video has ${subtitleTracks.length}`
+      : 'The video has no subtitle tracks to burn in');
+  }
+  if (!TEXT_SUBTITLE_CODECS.includes(track.codec)) {
+    throw new Error(`Subtitle track ${trackIndex} is an image based ${track.codec} track and cannot be burned in`);
+  }
+
+  return buildBurnInFilter(inputPath, trackIndex, startTime);
+}
+
+/**
+ * Work out the video bitrate in bits per second that fills a target size in MB,
+ * leaving room for the audio track and the container overhead
+ */
+export function getTargetVideoBitrate(targetSize: number, duration: number, audioBitrate: number): number {
+  const totalBits = targetSize * 1000000 * 8 * (1 - TARGET_SIZE_OVERHEAD);
+  return Math.floor(totalBits / duration - audioBitrate);
+}
+
+/**
+ * Encode in two passes at the bitrate that fits the target size.
+ * The first pass only analyses the video, so each pass gets half of the progress range.
+ */
+async function encodeToTargetSize(
+  inputPath: string,
+  args: string[],
+  outputPath: string,
+  targetSize: number,
+  options: VideoConversionOptions,
+  progressCallback: (progress: number, details?: ProgressDetails) => void,
+  jobId?: string,
+  signal?: AbortSignal,
+  duration?: number
+): Promise<void> {
+  if (!duration) {
+    throw new Error('Target size encoding needs a video with a known duration');
+  }
+
+  // Split the budget between the audio track and the video
+  const { hasAudio } = await probeMedia(inputPath);
+  const audioBitrate = hasAudio ? parseBitrate(options.audioBitrate || TARGET_SIZE_AUDIO_BITRATE) : 0;
+  const videoBitrate = getTargetVideoBitrate(targetSize, duration, audioBitrate);
+
+  if (videoBitrate < TARGET_SIZE_MIN_VIDEO_BITRATE) {
+    throw new Error(`${targetSize} MB is too small for ${Math.round(duration)} seconds of video`);
+  }
+
+  // x265 takes its pass settings through its own parameters
+  const passLogPrefix = `${outputPath}.passlog`;
+  const isX265 = args[args.indexOf('-c:v') + 1] === 'libx265';
+  const passArgs = (pass: number) => isX265
+    ? ['-x265-params', `pass=${pass}:stats=${passLogPrefix}`]
+    : ['-pass', pass.toString(), '-passlogfile', passLogPrefix];
+
+  try {
+    // First pass: analyse the video, discarding the output
+    await runFfmpeg(
+      [...args, '-b:v', videoBitrate.toString(), ...passArgs(1), '-an', '-sn', '-f', 'null', '-y', devNull],
+      (progress, details) => progressCallback(Math.round(progress * 0.5), details),
+      jobId,
+      signal,
+      duration
+    );
+
+    // Second pass: encode using the statistics from the first
+    await runFfmpeg(
+      [
+        ...args,
+        '-b:v', videoBitrate.toString(),
+        ...passArgs(2),
+        ...(hasAudio ? ['-b:a', audioBitrate.toString()] : []),
+        '-y', outputPath
+      ],
+      (progress, details) => progressCallback(50 + Math.round(progress * 0.5), details),
+      jobId,
+      signal,
+      duration
+    );
+  } finally {
+    // Remove the pass statistics, whose names vary by encoder
+    const logDir = dirname(passLogPrefix);
+    const logPrefix = basename(passLogPrefix);
+    for (const file of await readdir(logDir)) {
+      if (file.startsWith(logPrefix)) {
+        await rm(join(logDir, file), { force: true });
+      }
+    }
+  }
+}
+
+export const videoConverter: Converter = {
+  id: 'video',
+  category: 'video',
+  supportedInputFormats: VIDEO_INPUT_FORMATS,
+  possibleOutputFormats: ['mp4', 'mov', 'avi', 'mkv', 'webm'],
+  optionSchema: {
+    resolution: {
+      type: 'string',
+      pattern: '^\\d{2,5}x\\d{2,5}$',
+      patternDescription: 'Must be WIDTHxHEIGHT, e.g. 1280x720',
+      description: 'Exact output resolution, e.g. 1280x720; stretches the picture, use width or height to keep the aspect ratio'
+    },
+    frameRate: { type: 'number', min: 1, max: 240, description: 'Output frame rate' },
+    videoBitrate: {
+      type: 'string',
+      pattern: BITRATE_PATTERN,
+      patternDescription: 'Must be a bitrate such as 2M or 800k',
+      description: 'Video bitrate, e.g. 2M'
+    },
+    audioBitrate: {
+      type: 'string',
+      pattern: BITRATE_PATTERN,
+      patternDescription: 'Must be a bitrate such as 128k',
+      description: 'Audio bitrate, e.g. 128k'
+    },
+    targetSize: {
+      type: 'number',
+      min: 0.1,
+      max: 100000,
+      description: 'Output size to aim for in MB, encoded in two passes instead of using videoBitrate or crf'
+    },
+    subtitleFile: {
+      type: 'string',
+      description: 'Path of an uploaded srt, vtt or ass file to add to the output'
+    },
+    burnSubtitles: {
+      type: 'boolean',
+      default: false,
+      description: 'Draw the subtitle file, or the input\'s subtitle track, into the picture'
+    },
+    subtitleTrack: { type: 'integer', min: 0, max: 99, description: 'Input subtitle track to burn in, counting from 0' },
+    videoCodec: {
+      type: 'enum',
+      values: Object.keys(VIDEO_CODECS),
+      description: 'Video codec, defaults to the container\'s usual codec (H.264 for mp4, mov and mkv)'
+    },
+    audioCodec: { type: 'enum', values: Object.keys(AUDIO_CODECS), description: 'Audio codec, defaults to the container\'s usual codec' },
+    crf: { type: 'integer', min: 0, max: 63, description: 'Constant quality, lower is better (0-51 for H.264/H.265, 0-63 for VP9/AV1)' },
+    preset: { type: 'enum', values: PRESETS, description: 'Encoder speed preset, slower presets compress better' },
+    profile: { type: 'enum', values: PROFILES, description: 'Codec profile, e.g. high for H.264 or main10 for H.265' },
+    pixelFormat: { type: 'enum', values: PIXEL_FORMATS, description: 'Pixel format, e.g. yuv420p10le for 10-bit output' },
+    forceReencode: {
+      type: 'boolean',
+      default: false,
+      description: 'Re-encode even when the streams fit the new container and could be copied unchanged'
+    },
+    ...VIDEO_FILTER_OPTION_SCHEMA,
+    ...AUDIO_FILTER_OPTION_SCHEMA,
+    ...WATERMARK_OPTION_SCHEMA,
+    ...TRIM_OPTION_SCHEMA
+  },
+  validate: (options, inputFormat, outputFormat) => {
+    const errors = {
+      ...validateCodecOptions(options as VideoConversionOptions, outputFormat, getListedEncoders(getFfmpegCommand())),
+      ...validateVideoFilterOptions(options as VideoConversionOptions),
+      ...validateAudioFilterOptions(options as VideoConversionOptions),
+      ...validateWatermarkOptions(options as VideoConversionOptions),
+      ...validateTrimOptions(
+        options as TrimOptions,
+        inputFormat,
+        outputFormat,
+        getSetOptions(options, [...ENCODING_OPTION_KEYS, 'videoCodec', 'audioCodec', 'subtitleFile', 'forceReencode'])
+      )
+    };
+
+    // Target size encoding picks the bitrate itself
+    if (options.targetSize !== undefined && (options.videoBitrate || options.crf !== undefined)) {
+      errors.targetSize = 'Cannot be combined with videoBitrate or crf';
+    }
+
+    const subtitleFile = options.subtitleFile as string | undefined;
+    if (subtitleFile && (!SUBTITLE_FORMATS.includes(extname(subtitleFile).slice(1).toLowerCase()) || !isUploadedFile(subtitleFile))) {
+      errors.subtitleFile = `Must be an uploaded ${SUBTITLE_FORMATS.join(', ')} file`;
+    } else if (subtitleFile && !options.burnSubtitles && !supportsSoftSubtitles(outputFormat)) {
+      errors.subtitleFile = `${outputFormat} files cannot hold subtitle tracks, use burnSubtitles instead`;
+    } else if (subtitleFile && !options.burnSubtitles && changesSpeed(options as VideoConversionOptions)) {
+      errors.subtitleFile = 'Subtitle tracks cannot follow a speed change, use burnSubtitles instead';
+    }
+
+    return errors;
+  },
+  convert: (inputPath, outputFormat, options, context) =>
+    convertVideo(
+      inputPath,
+      outputFormat,
+      options as VideoConversionOptions & TrimOptions,
+      context.onProgress,
+      context.jobId,
+      context.signal,
+      context.outputDir,
+      context.onMethodChosen
+    )
+};
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildAudioSpeedFilter,
+  buildVideoFilterChain,
+  checkCropFits,
+  getFilteredFrameSize,
+  validateVideoFilterOptions
+} from './videoFilters';
+
+describe('buildVideoFilterChain', () => {
+  it('applies the filters in a fixed order', () => {
+    expect(buildVideoFilterChain({
+      deinterlace: true,
+      crop: '1280:720:0:180',
+      rotate: '90',
+      flip: 'horizontal',
+      width: 640,
+      frameRate: 30
+    }, 'subtitles=subs.srt')).toBe('yadif,crop=1280:720:0:180,transpose=clock,hflip,scale=640:-2,subtitles=subs.srt,fps=30');
+  });
+
+  it('fits inside a box and letterboxes it', () => {
+    expect(buildVideoFilterChain({ width: 1280, height: 720, pad: true, padColor: '#ffffff' })).toBe(
+      'scale=1280:720:force_original_aspect_ratio=decrease,scale=trunc(iw/2)*2:trunc(ih/2)*2,' +
+      'pad=1280:720:(ow-iw)/2:(oh-ih)/2:color=#ffffff'
+    );
+  });
+
+  it('stretches to an explicit resolution', () => {
+    expect(buildVideoFilterChain({ resolution: '1920x1080', rotate: '180' })).toBe('hflip,vflip,scale=1920:1080');
+  });
+
+  it('leaves the frame rate to the output after a speed change', () => {
+    expect(buildVideoFilterChain({ speed: 2, frameRate: 30, flip: 'both' })).toBe('hflip,vflip,setpts=PTS/2');
+  });
+
+  it('returns undefined when nothing needs filtering', () => {
+    expect(buildVideoFilterChain({ speed: 1 })).toBeUndefined();
+  });
+});
+
+describe('buildAudioSpeedFilter', () => {
+  it('chains atempo filters for large speed changes', () => {
+    expect(buildAudioSpeedFilter(1.5)).toBe('atempo=1.5');
+    expect(buildAudioSpeedFilter(4)).toBe('atempo=2,atempo=2');
+    expect(buildAudioSpeedFilter(0.25)).toBe('atempo=0.5,atempo=0.5');
+    expect(buildAudioSpeedFilter(3)).toBe('atempo=2,atempo=1.5');
+  });
+
+  it('returns undefined when the speed is unchanged', () => {
+    expect(buildAudioSpeedFilter(undefined)).toBeUndefined();
+    expect(buildAudioSpeedFilter(1)).toBeUndefined();
+  });
+});
+
+describe('validateVideoFilterOptions', () => {
+  it('accepts a consistent set of filters', () => {
+    expect(validateVideoFilterOptions({ crop: '640:360:0:0', width: 1280, height: 720, pad: true, padColor: 'black' })).toEqual({});
+  });
+
+  it('rejects conflicting and odd sizes', () => {
+    expect(validateVideoFilterOptions({ crop: '1:360:0:0', width: 641, resolution: '1280x720', padColor: 'red' })).toEqual({
+      crop: expect.any(String),
+      width: 'Must be an even number',
+      resolution: 'Use either resolution or width/height, not both',
+      padColor: 'Only applies when pad is enabled'
+    });
+    expect(validateVideoFilterOptions({ width: 1280, pad: true })).toEqual({ pad: 'Letterboxing needs both width and height' });
+  });
+
+  it('requires an even crop size for 4:2:0 video', () => {
+    expect(validateVideoFilterOptions({ crop: '641:360:1:1' })).toEqual({ crop: 'The crop width and height must be even numbers' });
+    expect(validateVideoFilterOptions({ crop: '640:359:0:0' })).toEqual({ crop: 'The crop width and height must be even numbers' });
+  });
+});
+
+describe('checkCropFits', () => {
+  it('throws when the crop area leaves the frame', () => {
+    expect(() => checkCropFits('1280:720:0:0', 1920, 1080)).not.toThrow();
+    expect(() => checkCropFits('1280:720:700:0', 1920, 1080)).toThrow('does not fit inside the 1920x1080 video');
+  });
+
+  it('skips the check when the frame size is unknown', () => {
+    expect(() => checkCropFits('1280:720:700:0')).not.toThrow();
+  });
+});
+
+describe('getFilteredFrameSize', () => {
+  it('follows the crop and a quarter turn', () => {
+    expect(getFilteredFrameSize({ crop: '1280:720:0:180', rotate: '90' }, 1920, 1080)).toEqual({ width: 720, height: 1280 });
+    expect(getFilteredFrameSize({ rotate: '180' }, 1920, 1080)).toEqual({ width: 1920, height: 1080 });
+  });
+
+  it('keeps the aspect ratio with even dimensions when scaling', () => {
+    expect(getFilteredFrameSize({ width: 640 }, 1920, 1080)).toEqual({ width: 640, height: 360 });
+    expect(getFilteredFrameSize({ height: 480 }, 1920, 1080)).toEqual({ width: 854, height: 480 });
+    expect(getFilteredFrameSize({ width: 1000, height: 1000 }, 1920, 1080)).toEqual({ width: 1000, height: 562 });
+  });
+
+  it('takes the exact size of a resolution or letterbox', () => {
+    expect(getFilteredFrameSize({ resolution: '1280x720', crop: '100:100:0:0' }, 1920, 1080)).toEqual({ width: 1280, height: 720 });
+    expect(getFilteredFrameSize({ width: 1000, height: 1000, pad: true }, 1920, 1080)).toEqual({ width: 1000, height: 1000 });
+  });
+});
@@ -0,0 +1,264 @@
+import type { OptionSchema } from './converterTypes';
+
+export interface VideoFilterOptions {
+  // Rectangle to keep as WIDTH:HEIGHT:X:Y, measured on the input frame
+  crop?: string;
+  // Clockwise rotation in degrees
+  rotate?: '90' | '180' | '270';
+  flip?: 'horizontal' | 'vertical' | 'both';
+  // Scale to a width and/or height, keeping the aspect ratio
+  width?: number;
+  height?: number;
+  // Letterbox to exactly width x height instead of fitting inside it
+  pad?: boolean;
+  padColor?: string;
+  // Playback speed, e.g. 2 for twice as fast
+  speed?: number;
+  deinterlace?: boolean;
+}
+
+// Filters that shape the picture, applied in this order after deinterlacing
+export const VIDEO_FILTER_OPTION_SCHEMA: OptionSchema = {
+  crop: {
+    type: 'string',
+    pattern: '^\\d+:\\d+:\\d+:\\d+$',
+    patternDescription: 'Must be WIDTH:HEIGHT:X:Y, e.g. 1280:720:0:180',
+    description: 'Area of the input to keep, as WIDTH:HEIGHT:X:Y from the top left corner, with an even width and height'
+  },
+  rotate: { type: 'enum', values: ['90', '180', '270'], description: 'Rotate clockwise by 90, 180 or 270 degrees' },
+  flip: { type: 'enum', values: ['horizontal', 'vertical', 'both'], description: 'Mirror the picture' },
+  width: { type: 'integer', min: 16, max: 7680, description: 'Output width; the height follows the aspect ratio unless also given' },
+  height: { type: 'integer', min: 16, max: 4320, description: 'Output height; the width follows the aspect ratio unless also given' },
+  pad: {
+    type: 'boolean',
+    default: false,
+    description: 'Letterbox to exactly width x height instead of fitting inside it'
+  },
+  padColor: {
+    type: 'string',
+    pattern: '^(#[0-9a-fA-F]{6}|[a-zA-Z]+)$',
+    patternDescription: 'Must be a color name or #RRGGBB',
+    description: 'Color of the letterbox bars, defaults to black'
+  },
+  speed: { type: 'number', min: 0.25, max: 4, description: 'Playback speed, e.g. 0.5 for slow motion or 2 for double speed' },
+  deinterlace: { type: 'boolean', default: false, description: 'Remove interlacing combs from TV and camcorder footage' }
+};
+
+// FFmpeg's atempo filter only accepts factors in this range, larger changes chain several
+const ATEMPO_MIN = 0.5;
+const ATEMPO_MAX = 2;
+
+/**
+ * Parse a WIDTH:HEIGHT:X:Y crop rectangle
+ */
+function parseCrop(crop: string): { width: number; height: number; x: number; y: number } {
+  const [width, height, x, y] = crop.split(':').map(part => parseInt(part, 10));
+  return { width, height, x, y };
+}
+
+/**
+ * Check whether the options change the playback speed
+ */
+export function changesSpeed(options: VideoFilterOptions): boolean {
+  return options.speed !== undefined && options.speed !== 1;
+}
+
+/**
+ * Check that filter options make sense together
+ */
+export function validateVideoFilterOptions(options: VideoFilterOptions & { resolution?: string }): Record<string, string> {
+  const errors: Record<string, string> = {};
+
+  // 4:2:0 video needs even dimensions
+  if (options.crop) {
+    const crop = parseCrop(options.crop);
+    if (crop.width < 2 || crop.height < 2) {
+      errors.crop = 'The crop area must be at least 2x2 pixels';
+    } else if (crop.width % 2 !== 0 || crop.height % 2 !== 0) {
+      errors.crop = 'The crop width and height must be even numbers';
+    }
+  }
+  if (options.width !== undefined && options.width % 2 !== 0) {
+    errors.width = 'Must be an even number';
+  }
+  if (options.height !== undefined && options.height % 2 !== 0) {
+    errors.height = 'Must be an even number';
+  }
+
+  if (options.resolution && (options.width !== undefined || options.height !== undefined)) {
+    errors.resolution = 'Use either resolution or width/height, not both';
+  }
+
+  if (options.pad && (options.width === undefined || options.height === undefined)) {
+    errors.pad = 'Letterboxing needs both width and height';
+  }
+  if (options.padColor && !options.pad) {
+    errors.padColor = 'Only applies when pad is enabled';
+  }
+
+  return errors;
+}
+
+/**
+ * Make sure the crop rectangle lies inside the input frame
+ */
+export function checkCropFits(crop: string, frameWidth?: number, frameHeight?: number): void {
+  if (!frameWidth || !frameHeight) {
+    return;
+  }
+
+  const rect = parseCrop(crop);
+  if (rect.x + rect.width > frameWidth || rect.y + rect.height > frameHeight) {
+    throw new Error(`The crop area ${crop} does not fit inside the ${frameWidth}x${frameHeight} video`);
+  }
+}
+
+/**
+ * Work out the frame size the filter chain turns an input frame into, e.g. to size an overlay for it
+ */
+export function getFilteredFrameSize(
+  options: VideoFilterOptions & { resolution?: string },
+  inputWidth: number,
+  inputHeight: number
+): { width: number; height: number } {
+  let width = inputWidth;
+  let height = inputHeight;
+
+  if (options.crop) {
+    ({ width, height } = parseCrop(options.crop));
+  }
+  if (options.rotate === '90' || options.rotate === '270') {
+    [width, height] = [height, width];
+  }
+
+  if (options.resolution) {
+    const [resolutionWidth, resolutionHeight] = options.resolution.split('x').map(part => parseInt(part, 10));
+    return { width: resolutionWidth, height: resolutionHeight };
+  }
+
+  // Mirrors buildScaleFilters, where -2 keeps the aspect ratio with an even size
+  if (options.width !== undefined && options.height !== undefined) {
+    if (options.pad) {
+      return { width: options.width, height: options.height };
+    }
+    const ratio = Math.min(options.width / width, options.height / height);
+    return { width: Math.floor((width * ratio) / 2) * 2, height: Math.floor((height * ratio) / 2) * 2 };
+  }
+  if (options.width !== undefined) {
+    return { width: options.width, height: Math.round((height * options.width) / width / 2) * 2 };
+  }
+  if (options.height !== undefined) {
+    return { width: Math.round((width * options.height) / height / 2) * 2, height: options.height };
+  }
+
+  return { width, height };
+}
+
+/**
+ * Build the scaling and letterboxing filters for the requested size
+ */
+function buildScaleFilters(options: VideoFilterOptions & { resolution?: string }): string[] {
+  // An explicit resolution stretches to the exact size, as it always has
+  if (options.resolution) {
+    return [`scale=${options.resolution.replace('x', ':')}`];
+  }
+
+  const { width, height } = options;
+  if (width === undefined && height === undefined) {
+    return [];
+  }
+  if (width === undefined || height === undefined) {
+    // -2 keeps the aspect ratio with an even size
+    return [`scale=${width ?? -2}:${height ?? -2}`];
+  }
+
+  // Fit inside the box, rounding down to even dimensions
+  const filters = [
+    `scale=${width}:${height}:force_original_aspect_ratio=decrease`,
+    'scale=trunc(iw/2)*2:trunc(ih/2)*2'
+  ];
+  if (options.pad) {
+    filters.push(`pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:color=${options.padColor || 'black'}`);
+  }
+  return filters;
+}
+
+/**
+ * Build the video filter chain for the options: deinterlace, crop, rotate/flip, scale, pad,
+ * any overlay such as burned-in subtitles, speed and finally frame rate.
+ * After a speed change the fps filter pads the video back to its original length,
+ * so the frame rate is then left to the output's -r option.
+ * Returns undefined when no filter is needed.
+ */
+export function buildVideoFilterChain(
+  options: VideoFilterOptions & { resolution?: string; frameRate?: number },
+  overlayFilter?: string
+): string | undefined {
+  const filters: string[] = [];
+
+  if (options.deinterlace) {
+    filters.push('yadif');
+  }
+
+  if (options.crop) {
+    filters.push(`crop=${options.crop}`);
+  }
+
+  switch (options.rotate) {
+    case '90':
+      filters.push('transpose=clock');
+      break;
+    case '180':
+      filters.push('hflip', 'vflip');
+      break;
+    case '270':
+      filters.push('transpose=cclock');
+      break;
+  }
+
+  if (options.flip === 'horizontal' || options.flip === 'both') {
+    filters.push('hflip');
+  }
+  if (options.flip === 'vertical' || options.flip === 'both') {
+    filters.push('vflip');
+  }
+
+  filters.push(...buildScaleFilters(options));
+
+  // Overlays are timed against the original playback, so they come before the speed change
+  if (overlayFilter) {
+    filters.push(overlayFilter);
+  }
+
+  if (changesSpeed(options)) {
+    filters.push(`setpts=PTS/${options.speed}`);
+  } else if (options.frameRate) {
+    filters.push(`fps=${options.frameRate}`);
+  }
+
+  return filters.length > 0 ? filters.join(',') : undefined;
+}
+
+/**
+ * Build the audio filter that keeps the soundtrack in step with a speed change, without changing its pitch
+ */
+export function buildAudioSpeedFilter(speed?: number): string | undefined {
+  if (speed === undefined || !changesSpeed({ speed })) {
+    return undefined;
+  }
+
+  const filters: string[] = [];
+  let remaining = speed;
+
+  while (remaining > ATEMPO_MAX) {
+    filters.push(`atempo=${ATEMPO_MAX}`);
+    remaining /= ATEMPO_MAX;
+  }
+  while (remaining < ATEMPO_MIN) {
+    filters.push(`atempo=${ATEMPO_MIN}`);
+    remaining /= ATEMPO_MIN;
+  }
+  filters.push(`atempo=${parseFloat(remaining.toFixed(6))}`);
+
+  return filters.join(',');
+}
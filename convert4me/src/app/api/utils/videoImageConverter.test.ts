@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest';
+import { buildFrameFilters, buildStillImageArgs, formatTimestamp, videoImageConverter } from './videoImageConverter';
+import { planConversion } from './converters';
+import { validatePlanOptions } from './optionValidation';
+
+describe('buildFrameFilters', () => {
+  it('samples 12 frames per second by default', () => {
+    expect(buildFrameFilters({})).toBe('fps=12');
+  });
+
+  it('scales to the width keeping the aspect ratio with an even height', () => {
+    expect(buildFrameFilters({ fps: 24, width: 480 })).toBe('fps=24,scale=480:-2:flags=lanczos');
+  });
+});
+
+describe('buildStillImageArgs', () => {
+  it('maps quality onto the JPEG and WebP encoders', () => {
+    expect(buildStillImageArgs('jpg')).toEqual(['-q:v', '2']);
+    expect(buildStillImageArgs('jpg', 100)).toEqual(['-q:v', '2']);
+    expect(buildStillImageArgs('jpg', 1)).toEqual(['-q:v', '31']);
+    expect(buildStillImageArgs('webp', 60)).toEqual(['-c:v', 'libwebp', '-quality', '60']);
+    expect(buildStillImageArgs('png', 60)).toEqual([]);
+  });
+});
+
+describe('formatTimestamp', () => {
+  it('labels contact sheet tiles as HH:MM:SS', () => {
+    expect(formatTimestamp(0)).toBe('00:00:00');
+    expect(formatTimestamp(3725.9)).toBe('01:02:05');
+  });
+});
+
+describe('videoImageConverter', () => {
+  it('turns videos into animated GIF and WebP', () => {
+    expect(planConversion('mp4', 'gif')?.map(step => step.converter.id)).toEqual(['video-image']);
+    expect(planConversion('mov', 'webp')?.map(step => step.converter.id)).toEqual(['video-image']);
+  });
+
+  it('grabs still frames as JPEG and PNG', () => {
+    expect(planConversion('mp4', 'jpg')?.map(step => step.converter.id)).toEqual(['video-image']);
+    expect(planConversion('mkv', 'png')?.map(step => step.converter.id)).toEqual(['video-image']);
+  });
+
+  it('only writes animations to animated formats', () => {
+    expect(videoImageConverter.validate?.({ mode: 'animation' }, 'mp4', 'png')).toEqual({
+      mode: 'Animations can only be written as gif or webp'
+    });
+    expect(videoImageConverter.validate?.({ mode: 'contactSheet' }, 'mp4', 'png')).toEqual({});
+  });
+
+  it('applies defaults and checks the time range', () => {
+    const plan = planConversion('mp4', 'gif') || [];
+
+    const { options, errors } = validatePlanOptions(plan, { startTime: '00:00:05', endTime: '12' });
+    expect(errors).toEqual({});
+    expect(options).toMatchObject({ fps: 12, loop: 0, startTime: '00:00:05', endTime: '12' });
+
+    expect(validatePlanOptions(plan, { startTime: '10', endTime: '00:00:05' }).errors).toEqual({
+      endTime: 'Must be after the start time'
+    });
+  });
+
+  it('measures the end time from the start of the video without a start time', () => {
+    expect(videoImageConverter.validate?.({ endTime: '3' }, 'mp4', 'gif')).toEqual({});
+    expect(videoImageConverter.validate?.({ endTime: '0' }, 'mp4', 'gif')).toEqual({ endTime: 'Must be after the start time' });
+  });
+
+  it('rejects timestamps it cannot read', () => {
+    expect(validatePlanOptions(planConversion('mp4', 'gif') || [], { startTime: 'soon' }).errors).toEqual({
+      startTime: 'Must be seconds or HH:MM:SS'
+    });
+  });
+});
@@ -0,0 +1,466 @@
+import { join, basename, extname } from 'path';
+import { existsSync } from 'fs';
+import { mkdir, rm, unlink } from 'fs/promises';
+import sharp, { OverlayOptions, Sharp } from 'sharp';
+import type { Converter, ProgressDetails } from './converterTypes';
+import { probeMedia } from './mediaProbe';
+import { createZipFromImagesUsingCmd } from './imageArchive';
+import { abortable, settleAbandonedWork, throwIfCancelled } from './cancellation';
+import {
+  TIMESTAMP_PATTERN,
+  VIDEO_INPUT_FORMATS,
+  buildTrimmedInputArgs,
+  getOutputDuration,
+  parseTimestamp,
+  runFfmpeg,
+  validateTrimOptions
+} from './videoConverter';
+
+// Animation, a single still, a zip of evenly spaced stills, or one tiled image of them
+export type VideoImageMode = 'animation' | 'frame' | 'frames' | 'contactSheet';
+
+export interface VideoImageConversionOptions {
+  mode?: VideoImageMode;
+  timestamp?: string;
+  frameCount?: number;
+  columns?: number;
+  fps?: number;
+  width?: number;
+  startTime?: string;
+  endTime?: string;
+  loop?: number;
+  quality?: number;
+}
+
+// Formats that can hold an animation
+const ANIMATED_FORMATS = ['gif', 'webp'];
+
+// Layout of the contact sheet in pixels
+const CONTACT_SHEET_TILE_WIDTH = 320;
+const CONTACT_SHEET_LABEL_HEIGHT = 24;
+const CONTACT_SHEET_GAP = 8;
+
+/**
+ * Pick the mode, defaulting to an animation for animated formats and a single frame otherwise
+ */
+function getMode(options: VideoImageConversionOptions, outputFormat: string): VideoImageMode {
+  return options.mode || (ANIMATED_FORMATS.includes(outputFormat) ? 'animation' : 'frame');
+}
+
+/**
+ * Format seconds as HH:MM:SS for contact sheet labels
+ */
+export function formatTimestamp(seconds: number): string {
+  const whole = Math.floor(seconds);
+  return [Math.floor(whole / 3600), Math.floor(whole / 60) % 60, whole % 60]
+    .map(part => part.toString().padStart(2, '0'))
+    .join(':');
+}
+
+/**
+ * Encoder arguments for a single still image
+ */
+export function buildStillImageArgs(outputFormat: string, quality?: number): string[] {
+  switch (outputFormat) {
+    case 'jpg':
+      // FFmpeg's JPEG scale runs from 2 (best) to 31
+      return ['-q:v', quality ? Math.round(31 - (quality / 100) * 29).toString() : '2'];
+    case 'webp':
+      return ['-c:v', 'libwebp', '-quality', (quality || 90).toString()];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Grab a single frame at the given time
+ */
+async function extractFrame(
+  inputPath: string,
+  time: number,
+  outputPath: string,
+  outputFormat: string,
+  options: VideoImageConversionOptions,
+  jobId?: string,
+  signal?: AbortSignal
+): Promise<void> {
+  const args = ['-ss', time.toString(), '-i', inputPath, '-frames:v', '1', '-an'];
+
+  if (options.width) {
+    args.push('-vf', `scale=${options.width}:-2:flags=lanczos`);
+  }
+
+  args.push(...buildStillImageArgs(outputFormat, options.quality), '-y', outputPath);
+
+  // Remove any earlier output so a missing frame can be detected below
+  if (existsSync(outputPath)) {
+    await unlink(outputPath);
+  }
+  await runFfmpeg(args, () => {}, jobId, signal);
+
+  // FFmpeg succeeds without writing anything when the time is past the last frame
+  if (!existsSync(outputPath)) {
+    throw new Error(`No frame found at ${formatTimestamp(time)}`);
+  }
+}
+
+/**
+ * Spread frame times evenly over the selected range, sampling the middle of each segment
+ */
+async function getFrameTimes(inputPath: string, options: VideoImageConversionOptions): Promise<number[]> {
+  const { duration } = await probeMedia(inputPath);
+  const start = options.startTime ? parseTimestamp(options.startTime) : 0;
+  const end = options.endTime ? Math.min(parseTimestamp(options.endTime), duration) : duration;
+
+  if (!(end > start)) {
+    throw new Error('The selected range is outside the video');
+  }
+
+  const count = options.frameCount || 10;
+  const segment = (end - start) / count;
+  return Array.from({ length: count }, (_, index) => start + segment * (index + 0.5));
+}
+
+/**
+ * Grab evenly spaced frames into a temporary directory, named so they sort by position
+ */
+async function extractFrames(
+  inputPath: string,
+  framesDir: string,
+  fileBaseName: string,
+  outputFormat: string,
+  times: number[],
+  options: VideoImageConversionOptions,
+  progressCallback: (progress: number, details?: ProgressDetails) => void,
+  jobId?: string,
+  signal?: AbortSignal
+): Promise<string[]> {
+  const framePaths: string[] = [];
+
+  for (let index = 0; index < times.length; index++) {
+    const framePath = join(framesDir, `${fileBaseName}-${(index + 1).toString().padStart(3, '0')}.${outputFormat}`);
+    await extractFrame(inputPath, times[index], framePath, outputFormat, options, jobId, signal);
+    framePaths.push(framePath);
+    progressCallback(Math.round(((index + 1) / times.length) * 90));
+  }
+
+  return framePaths;
+}
+
+/**
+ * Tile frames into a single image with a timestamp under each one
+ */
+async function buildContactSheet(
+  framePaths: string[],
+  times: number[],
+  outputPath: string,
+  outputFormat: string,
+  options: VideoImageConversionOptions,
+  signal?: AbortSignal
+): Promise<void> {
+  throwIfCancelled(signal);
+  const tileWidth = options.width || CONTACT_SHEET_TILE_WIDTH;
+  const { height: tileHeight = tileWidth } = await sharp(framePaths[0]).metadata();
+  const columns = Math.min(options.columns || Math.ceil(Math.sqrt(framePaths.length)), framePaths.length);
+  const rows = Math.ceil(framePaths.length / columns);
+  const cellHeight = tileHeight + CONTACT_SHEET_LABEL_HEIGHT;
+
+  const composites: OverlayOptions[] = [];
+  framePaths.forEach((framePath, index) => {
+    const left = CONTACT_SHEET_GAP + (index % columns) * (tileWidth + CONTACT_SHEET_GAP);
+    const top = CONTACT_SHEET_GAP + Math.floor(index / columns) * (cellHeight + CONTACT_SHEET_GAP);
+    const label =
+      `<svg xmlns="http://www.w3.org/2000/svg" width="${tileWidth}" height="${CONTACT_SHEET_LABEL_HEIGHT}">` +
+      `<text x="50%" y="17" font-family="sans-serif" font-size="14" fill="#ffffff" text-anchor="middle">` +
+      `${formatTimestamp(times[index])}</text></svg>`;
+
+    composites.push(
+      { input: framePath, left, top },
+      { input: Buffer.from(label), left, top: top + tileHeight }
+    );
+  });
+
+  const sheet = sharp({
+    create: {
+      width: CONTACT_SHEET_GAP + columns * (tileWidth + CONTACT_SHEET_GAP),
+      height: CONTACT_SHEET_GAP + rows * (cellHeight + CONTACT_SHEET_GAP),
+      channels: 3,
+      background: '#1a1a1a'
+    }
+  }).composite(composites);
+
+  let encoded: Sharp;
+  switch (outputFormat) {
+    case 'jpg':
+      encoded = sheet.jpeg({ quality: options.quality || 90 });
+      break;
+    case 'png':
+      encoded = sheet.png();
+      break;
+    case 'webp':
+      encoded = sheet.webp({ quality: options.quality || 90 });
+      break;
+    case 'gif':
+      encoded = sheet.gif();
+      break;
+    default:
+      throw new Error(`Unsupported output format: ${outputFormat}`);
+  }
+
+  // sharp cannot be interrupted, so a cancelled job stops waiting for it instead
+  await abortable(encoded.toFile(outputPath), signal);
+}
+
+/**
+ * Converts a video to still images: one frame, a zip of frames or a contact sheet
+ */
+async function convertToStills(
+  inputPath: string,
+  outputDir: string,
+  outputFormat: string,
+  mode: VideoImageMode,
+  options: VideoImageConversionOptions,
+  progressCallback: (progress: number, details?: ProgressDetails) => void,
+  jobId?: string,
+  signal?: AbortSignal
+): Promise<string> {
+  const fileBaseName = basename(inputPath, extname(inputPath));
+
+  if (mode === 'frame') {
+    // Without a timestamp, skip past intros and fades to 10% of the video
+    const time = options.timestamp
+      ? parseTimestamp(options.timestamp)
+      : (await probeMedia(inputPath)).duration * 0.1;
+    const outputPath = join(outputDir, `${fileBaseName}.${outputFormat}`);
+    await extractFrame(inputPath, time, outputPath, outputFormat, options, jobId, signal);
+    return outputPath;
+  }
+
+  const times = await getFrameTimes(inputPath, options);
+  const framesDir = join(outputDir, 'temp', `${fileBaseName}-frames-${Date.now()}`);
+  await mkdir(framesDir, { recursive: true });
+
+  try {
+    if (mode === 'frames') {
+      await extractFrames(inputPath, framesDir, fileBaseName, outputFormat, times, options, progressCallback, jobId, signal);
+
+      // Package the frames the same way as multi-page PDF exports
+      const zipFilePath = join(outputDir, `${fileBaseName}.zip`);
+      await createZipFromImagesUsingCmd(framesDir, zipFilePath, fileBaseName, outputFormat, signal);
+      return zipFilePath;
+    }
+
+    // Tiles are always extracted losslessly and encoded once as the finished sheet
+    const framePaths = await extractFrames(
+      inputPath,
+      framesDir,
+      fileBaseName,
+      'png',
+      times,
+      { width: options.width || CONTACT_SHEET_TILE_WIDTH },
+      progressCallback,
+      jobId,
+      signal
+    );
+    const outputPath = join(outputDir, `${fileBaseName}.${outputFormat}`);
+    await buildContactSheet(framePaths, times, outputPath, outputFormat, options, signal);
+    return outputPath;
+  } finally {
+    await settleAbandonedWork(signal);
+    await rm(framesDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Build the frame rate and scaling filters shared by both palette passes
+ */
+export function buildFrameFilters(options: VideoImageConversionOptions): string {
+  const filters = [`fps=${options.fps || 12}`];
+
+  if (options.width) {
+    // Keep the aspect ratio with an even height
+    filters.push(`scale=${options.width}:-2:flags=lanczos`);
+  }
+
+  return filters.join(',');
+}
+
+/**
+ * Converts a video to an animated GIF using a generated palette
+ */
+async function convertToGif(
+  inputPath: string,
+  outputPath: string,
+  options: VideoImageConversionOptions,
+  progressCallback: (progress: number, details?: ProgressDetails) => void,
+  jobId?: string,
+  signal?: AbortSignal
+): Promise<void> {
+  const palettePath = `${outputPath}.palette.png`;
+  const frameFilters = buildFrameFilters(options);
+  const expectedDuration = await getOutputDuration(inputPath, options);
+
+  try {
+    // First pass: build an optimized 256 color palette for the clip
+    await runFfmpeg(
+      [...buildTrimmedInputArgs(inputPath, options), '-vf', `${frameFilters},palettegen=stats_mode=diff`, '-y', palettePath],
+      (progress, details) => progressCallback(Math.round(progress * 0.4), details),
+      jobId,
+      signal,
+      expectedDuration
+    );
+
+    // Second pass: render the frames through the palette
+    await runFfmpeg(
+      [
+        ...buildTrimmedInputArgs(inputPath, options),
+        '-i', palettePath,
+        '-lavfi', `${frameFilters} [frames]; [frames][1:v] paletteuse=dither=sierra2_4a`,
+        '-loop', (options.loop ?? 0).toString(),
+        '-y', outputPath
+      ],
+      (progress, details) => progressCallback(40 + Math.round(progress * 0.6), details),
+      jobId,
+      signal,
+      expectedDuration
+    );
+  } finally {
+    if (existsSync(palettePath)) {
+      await unlink(palettePath);
+    }
+  }
+}
+
+/**
+ * Converts a video to an animated WebP
+ */
+async function convertToAnimatedWebp(
+  inputPath: string,
+  outputPath: string,
+  options: VideoImageConversionOptions,
+  progressCallback: (progress: number, details?: ProgressDetails) => void,
+  jobId?: string,
+  signal?: AbortSignal
+): Promise<void> {
+  await runFfmpeg(
+    [
+      ...buildTrimmedInputArgs(inputPath, options),
+      '-vf', buildFrameFilters(options),
+      '-an',
+      '-c:v', 'libwebp',
+      '-quality', (options.quality || 75).toString(),
+      '-loop', (options.loop ?? 0).toString(),
+      '-y', outputPath
+    ],
+    progressCallback,
+    jobId,
+    signal,
+    await getOutputDuration(inputPath, options)
+  );
+}
+
+/**
+ * Converts a video to an animated image or still images
+ */
+export async function convertVideoToImage(
+  inputPath: string,
+  outputFormat: string,
+  options: VideoImageConversionOptions = {},
+  progressCallback: (progress: number, details?: ProgressDetails) => void = () => {},
+  jobId?: string,
+  signal?: AbortSignal,
+  outputDir: string = join(process.cwd(), 'output')
+): Promise<string> {
+  const mode = getMode(options, outputFormat);
+
+  if (mode !== 'animation') {
+    const outputPath = await convertToStills(
+      inputPath,
+      outputDir,
+      outputFormat,
+      mode,
+      options,
+      progressCallback,
+      jobId,
+      signal
+    );
+    progressCallback(100);
+    return outputPath;
+  }
+
+  const outputFilename = `${basename(inputPath, extname(inputPath))}.${outputFormat}`;
+  const outputPath = join(outputDir, outputFilename);
+
+  switch (outputFormat) {
+    case 'gif':
+      await convertToGif(inputPath, outputPath, options, progressCallback, jobId, signal);
+      break;
+    case 'webp':
+      await convertToAnimatedWebp(inputPath, outputPath, options, progressCallback, jobId, signal);
+      break;
+    default:
+      throw new Error(`Unsupported output format: ${outputFormat}`);
+  }
+
+  progressCallback(100);
+  return outputPath;
+}
+
+export const videoImageConverter: Converter = {
+  id: 'video-image',
+  category: 'image',
+  supportedInputFormats: VIDEO_INPUT_FORMATS,
+  possibleOutputFormats: ['gif', 'webp', 'jpg', 'png'],
+  animatedOutputFormats: ANIMATED_FORMATS,
+  // Frames come from video streams, which hold no image metadata to keep, so there is no metadata option
+  optionSchema: {
+    mode: {
+      type: 'enum',
+      values: ['animation', 'frame', 'frames', 'contactSheet'],
+      description: 'Animation (gif and webp default), a single frame (jpg and png default), a zip of frames, or a contact sheet'
+    },
+    timestamp: {
+      type: 'string',
+      pattern: TIMESTAMP_PATTERN,
+      patternDescription: 'Must be seconds or HH:MM:SS',
+      description: 'Time of the frame to grab, defaults to 10% into the video'
+    },
+    frameCount: { type: 'integer', min: 2, max: 100, default: 10, description: 'Number of evenly spaced frames to grab' },
+    columns: { type: 'integer', min: 1, max: 20, description: 'Columns in the contact sheet, defaults to a square grid' },
+    fps: { type: 'number', min: 1, max: 50, default: 12, description: 'Frames per second of the animation' },
+    width: { type: 'integer', min: 16, max: 3840, description: 'Output or tile width in pixels, height keeps the aspect ratio' },
+    startTime: {
+      type: 'string',
+      pattern: TIMESTAMP_PATTERN,
+      patternDescription: 'Must be seconds or HH:MM:SS',
+      description: 'Where the animation or frame range starts in the video'
+    },
+    endTime: {
+      type: 'string',
+      pattern: TIMESTAMP_PATTERN,
+      patternDescription: 'Must be seconds or HH:MM:SS',
+      description: 'Where the animation or frame range ends in the video'
+    },
+    loop: { type: 'integer', min: 0, max: 65535, default: 0, description: 'Number of loops, 0 loops forever' },
+    quality: { type: 'integer', min: 1, max: 100, description: 'Quality of WebP and JPEG output' }
+  },
+  validate: (options, inputFormat, outputFormat) => {
+    const errors = validateTrimOptions(options as VideoImageConversionOptions, inputFormat, outputFormat);
+
+    if (options.mode === 'animation' && !ANIMATED_FORMATS.includes(outputFormat)) {
+      errors.mode = `Animations can only be written as ${ANIMATED_FORMATS.join(' or ')}`;
+    }
+
+    return errors;
+  },
+  convert: (inputPath, outputFormat, options, context) =>
+    convertVideoToImage(
+      inputPath,
+      outputFormat,
+      options as VideoImageConversionOptions,
+      context.onProgress,
+      context.jobId,
+      context.signal,
+      context.outputDir
+    )
+};
@@ -0,0 +1,101 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { mkdtemp, readFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import sharp from 'sharp';
+import { applyImageWatermark, buildVideoWatermarkFilter, validateWatermarkOptions } from './watermark';
+
+describe('validateWatermarkOptions', () => {
+  it('accepts a text watermark with its placement', () => {
+    expect(validateWatermarkOptions({
+      watermarkText: '© Example',
+      watermarkPosition: 'top-left',
+      watermarkOpacity: 0.5,
+      watermarkColor: '#ff0000'
+    })).toEqual({});
+  });
+
+  it('rejects placement options without a watermark', () => {
+    expect(validateWatermarkOptions({ watermarkPosition: 'center', watermarkMargin: 10 })).toEqual({
+      watermarkPosition: 'Only applies with watermarkImage or watermarkText',
+      watermarkMargin: 'Only applies with watermarkImage or watermarkText'
+    });
+  });
+
+  it('rejects blank text, missing logos and a color for a logo', () => {
+    expect(validateWatermarkOptions({ watermarkText: '   ' })).toEqual({ watermarkText: 'Must not be empty' });
+    expect(validateWatermarkOptions({ watermarkImage: '/nonexistent/logo.png', watermarkColor: 'red' })).toEqual({
+      watermarkImage: expect.stringContaining('Must be an uploaded'),
+      watermarkColor: 'Only applies to watermarkText'
+    });
+    expect(validateWatermarkOptions({ watermarkText: 'x'.repeat(201) })).toEqual({
+      watermarkText: 'Must be at most 200 characters'
+    });
+  });
+});
+
+describe('buildVideoWatermarkFilter', () => {
+  let workDir: string;
+
+  beforeAll(async () => {
+    workDir = await mkdtemp(join(tmpdir(), 'watermark-'));
+  });
+
+  afterAll(async () => {
+    await rm(workDir, { recursive: true, force: true });
+  });
+
+  it('draws text from a file, placed by its alignment', async () => {
+    const filter = await buildVideoWatermarkFilter(
+      { watermarkText: 'Draft: 50% done', watermarkPosition: 'bottom', watermarkMargin: 10 },
+      1280,
+      720,
+      workDir
+    );
+
+    expect(await readFile(join(workDir, 'watermark.txt'), 'utf8')).toBe('Draft: 50% done');
+    expect(filter).toContain(':expansion=none:fontsize=36:fontcolor=white@0.8:x=10+(w-text_w-20)*0.5:y=10+(h-text_h-20)*1');
+  });
+});
+
+describe('applyImageWatermark', () => {
+  let workDir: string;
+
+  beforeAll(async () => {
+    workDir = await mkdtemp(join(tmpdir(), 'watermark-image-'));
+  });
+
+  afterAll(async () => {
+    await rm(workDir, { recursive: true, force: true });
+  });
+
+  it('only accepts logos from the uploads directory', async () => {
+    const logoPath = join(workDir, 'server-file.png');
+    await sharp({ create: { width: 4, height: 4, channels: 3, background: '#ffffff' } }).png().toFile(logoPath);
+
+    expect(validateWatermarkOptions({ watermarkImage: logoPath })).toEqual({
+      watermarkImage: expect.stringContaining('Must be an uploaded')
+    });
+  });
+
+  it('fades a grey logo onto its corner of the picture', async () => {
+    const logoPath = join(workDir, 'logo.png');
+    await sharp({ create: { width: 10, height: 10, channels: 3, background: '#ffffff' } }).toColourspace('b-w').png().toFile(logoPath);
+    const picture = sharp({ create: { width: 40, height: 40, channels: 3, background: '#000000' } });
+
+    const watermarked = await applyImageWatermark(picture, {
+      watermarkImage: logoPath,
+      watermarkPosition: 'top-left',
+      watermarkOpacity: 0.5,
+      watermarkMargin: 0,
+      watermarkScale: 0.5
+    });
+    const { data, info } = await watermarked.raw().toBuffer({ resolveWithObject: true });
+
+    // The logo covers the top left 20x20 pixels at half strength
+    expect(data[0]).toBeGreaterThan(120);
+    expect(data[0]).toBeLessThan(135);
+    expect(data[(19 * info.width + 19) * info.channels]).toBe(data[0]);
+    expect(data[(20 * info.width + 20) * info.channels]).toBe(0);
+  });
+});
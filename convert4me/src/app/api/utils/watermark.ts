@@ -0,0 +1,271 @@
+import { join, extname } from 'path';
+import { writeFile } from 'fs/promises';
+import sharp, { Sharp } from 'sharp';
+import type { OptionSchema } from './converterTypes';
+import { escapeFilterPath } from './subtitles';
+import { isUploadedFile } from './uploads';
+
+export type WatermarkPosition =
+  | 'top-left' | 'top' | 'top-right'
+  | 'left' | 'center' | 'right'
+  | 'bottom-left' | 'bottom' | 'bottom-right';
+
+export interface WatermarkOptions {
+  // Path of an uploaded logo to place on the picture
+  watermarkImage?: string;
+  // Text to place on the picture instead of a logo
+  watermarkText?: string;
+  watermarkPosition?: WatermarkPosition;
+  // 0 is invisible, 1 fully opaque
+  watermarkOpacity?: number;
+  // Distance from the picture edges in pixels
+  watermarkMargin?: number;
+  // Logo width as a share of the picture width, or text height as a share of the picture height
+  watermarkScale?: number;
+  watermarkColor?: string;
+}
+
+// Font shipped with the app so text renders the same on every server, without system fonts
+export const WATERMARK_FONT_PATH = join(process.cwd(), 'node_modules', 'dejavu-fonts-ttf', 'ttf', 'DejaVuSans.ttf');
+
+// Image formats accepted as logos
+const WATERMARK_IMAGE_FORMATS = ['png', 'jpg', 'jpeg', 'webp', 'gif', 'avif', 'tiff'];
+
+const MAX_WATERMARK_TEXT_LENGTH = 200;
+
+const DEFAULT_POSITION: WatermarkPosition = 'bottom-right';
+const DEFAULT_OPACITY = 0.8;
+const DEFAULT_MARGIN = 20;
+const DEFAULT_LOGO_SCALE = 0.2;
+const DEFAULT_TEXT_SCALE = 0.05;
+const DEFAULT_COLOR = 'white';
+
+// Horizontal and vertical alignment of each position, from 0 at the top left to 1 at the bottom right
+const ALIGNMENTS: Record<WatermarkPosition, [number, number]> = {
+  'top-left': [0, 0],
+  top: [0.5, 0],
+  'top-right': [1, 0],
+  left: [0, 0.5],
+  center: [0.5, 0.5],
+  right: [1, 0.5],
+  'bottom-left': [0, 1],
+  bottom: [0.5, 1],
+  'bottom-right': [1, 1]
+};
+
+// Options that only apply together with a logo or text
+const PLACEMENT_OPTIONS: (keyof WatermarkOptions)[] = [
+  'watermarkPosition', 'watermarkOpacity', 'watermarkMargin', 'watermarkScale', 'watermarkColor'
+];
+
+export const WATERMARK_OPTION_SCHEMA: OptionSchema = {
+  watermarkImage: {
+    type: 'string',
+    description: `Path of an uploaded ${WATERMARK_IMAGE_FORMATS.join(', ')} logo to place on the picture`
+  },
+  watermarkText: { type: 'string', description: 'Text to place on the picture instead of a logo' },
+  watermarkPosition: {
+    type: 'enum',
+    values: Object.keys(ALIGNMENTS),
+    description: 'Where the watermark sits, defaults to bottom-right'
+  },
+  watermarkOpacity: { type: 'number', min: 0, max: 1, description: 'Watermark opacity from 0 to 1, defaults to 0.8' },
+  watermarkMargin: { type: 'integer', min: 0, max: 1000, description: 'Distance from the edges in pixels, defaults to 20' },
+  watermarkScale: {
+    type: 'number',
+    min: 0.01,
+    max: 1,
+    description: 'Logo width as a share of the picture width (default 0.2), or text height as a share of its height (default 0.05)'
+  },
+  watermarkColor: {
+    type: 'string',
+    pattern: '^(#[0-9a-fA-F]{6}|[a-zA-Z]+)$',
+    patternDescription: 'Must be a color name or #RRGGBB',
+    description: 'Text color, defaults to white'
+  }
+};
+
+/**
+ * Check whether the options ask for a watermark
+ */
+export function hasWatermark(options: WatermarkOptions): boolean {
+  return !!(options.watermarkImage || options.watermarkText);
+}
+
+/**
+ * Check that watermark options make sense together
+ */
+export function validateWatermarkOptions(options: WatermarkOptions): Record<string, string> {
+  const errors: Record<string, string> = {};
+
+  if (options.watermarkImage && options.watermarkText) {
+    errors.watermarkText = 'Use either watermarkImage or watermarkText, not both';
+  }
+
+  const image = options.watermarkImage;
+  if (image && (!WATERMARK_IMAGE_FORMATS.includes(extname(image).slice(1).toLowerCase()) || !isUploadedFile(image))) {
+    errors.watermarkImage = `Must be an uploaded ${WATERMARK_IMAGE_FORMATS.join(', ')} file`;
+  }
+
+  if (options.watermarkText !== undefined && !options.watermarkText.trim()) {
+    errors.watermarkText = 'Must not be empty';
+  } else if (options.watermarkText && options.watermarkText.length > MAX_WATERMARK_TEXT_LENGTH) {
+    errors.watermarkText = `Must be at most ${MAX_WATERMARK_TEXT_LENGTH} characters`;
+  }
+
+  if (!hasWatermark(options)) {
+    for (const option of PLACEMENT_OPTIONS) {
+      if (options[option] !== undefined) {
+        errors[option] = 'Only applies with watermarkImage or watermarkText';
+      }
+    }
+  } else if (options.watermarkColor && !options.watermarkText) {
+    errors.watermarkColor = 'Only applies to watermarkText';
+  }
+
+  return errors;
+}
+
+/**
+ * Offset of a watermark along one axis: the margin, plus its share of the space left over
+ */
+function offset(alignment: number, margin: number, frameSize: number, markSize: number): number {
+  return Math.max(0, Math.round(margin + (frameSize - markSize - 2 * margin) * alignment));
+}
+
+/**
+ * Fit a logo to the requested share of the frame width, within the frame margins
+ */
+function fitLogo(
+  options: WatermarkOptions,
+  logoWidth: number,
+  logoHeight: number,
+  frameWidth: number,
+  frameHeight: number
+): { width: number; height: number } {
+  const margin = options.watermarkMargin ?? DEFAULT_MARGIN;
+  const maxWidth = Math.max(1, frameWidth - 2 * margin);
+  const maxHeight = Math.max(1, frameHeight - 2 * margin);
+
+  const ratio = Math.min(
+    (frameWidth * (options.watermarkScale ?? DEFAULT_LOGO_SCALE)) / logoWidth,
+    maxWidth / logoWidth,
+    maxHeight / logoHeight
+  );
+  return {
+    width: Math.max(1, Math.round(logoWidth * ratio)),
+    height: Math.max(1, Math.round(logoHeight * ratio))
+  };
+}
+
+/**
+ * Text size in pixels for a frame height
+ */
+function getFontSize(options: WatermarkOptions, frameHeight: number): number {
+  return Math.max(8, Math.round(frameHeight * (options.watermarkScale ?? DEFAULT_TEXT_SCALE)));
+}
+
+/**
+ * Render the logo or text as a transparent PNG sized for the frame
+ */
+async function renderWatermark(options: WatermarkOptions, frameWidth: number, frameHeight: number): Promise<Sharp> {
+  let mark: Sharp;
+
+  if (options.watermarkImage) {
+    const { width = 1, height = 1 } = await sharp(options.watermarkImage).metadata();
+    mark = sharp(options.watermarkImage).resize(fitLogo(options, width, height, frameWidth, frameHeight));
+  } else {
+    const text = (options.watermarkText || '')
+      .replace(/&/g, '&amp;')
+      .replace(/</g, '&lt;')
+      .replace(/>/g, '&gt;');
+
+    // At 72 dpi a font size in points equals its height in pixels
+    mark = sharp({
+      text: {
+        text: `<span foreground="${options.watermarkColor || DEFAULT_COLOR}">${text}</span>`,
+        font: `DejaVu Sans ${getFontSize(options, frameHeight)}`,
+        fontfile: WATERMARK_FONT_PATH,
+        dpi: 72,
+        rgba: true
+      }
+    });
+  }
+
+  // Scale the alpha channel alone to fade the watermark; grey logos have one color channel, others three
+  const opacity = options.watermarkOpacity ?? DEFAULT_OPACITY;
+  const { data, info } = await mark.ensureAlpha().raw().toBuffer({ resolveWithObject: true });
+  const faded = await sharp(data, { raw: { width: info.width, height: info.height, channels: info.channels } })
+    .linear([...Array(info.channels - 1).fill(1), opacity], Array(info.channels).fill(0))
+    .png()
+    .toBuffer();
+
+  // Text wider or taller than the frame is scaled down to fit
+  const margin = options.watermarkMargin ?? DEFAULT_MARGIN;
+  return sharp(faded).resize({
+    width: Math.max(1, frameWidth - 2 * margin),
+    height: Math.max(1, frameHeight - 2 * margin),
+    fit: 'inside',
+    withoutEnlargement: true
+  });
+}
+
+/**
+ * Composite the watermark onto an image after its other transformations
+ */
+export async function applyImageWatermark(image: Sharp, options: WatermarkOptions): Promise<Sharp> {
+  // The picture is rendered first so the watermark is sized and placed on the final dimensions
+  const { data, info } = await image.raw().toBuffer({ resolveWithObject: true });
+  const { data: mark, info: markInfo } = await (await renderWatermark(options, info.width, info.height))
+    .png()
+    .toBuffer({ resolveWithObject: true });
+
+  const margin = options.watermarkMargin ?? DEFAULT_MARGIN;
+  const [alignX, alignY] = ALIGNMENTS[options.watermarkPosition || DEFAULT_POSITION];
+
+  return sharp(data, { raw: { width: info.width, height: info.height, channels: info.channels } }).composite([{
+    input: mark,
+    left: offset(alignX, margin, info.width, markInfo.width),
+    top: offset(alignY, margin, info.height, markInfo.height)
+  }]);
+}
+
+/**
+ * Build the filters that draw the watermark onto video frames of the given size.
+ * Logos are read with the movie source and text from a file, which avoids escaping it for the filter graph;
+ * both are written to workDir.
+ */
+export async function buildVideoWatermarkFilter(
+  options: WatermarkOptions,
+  frameWidth: number,
+  frameHeight: number,
+  workDir: string
+): Promise<string> {
+  const margin = options.watermarkMargin ?? DEFAULT_MARGIN;
+  const [alignX, alignY] = ALIGNMENTS[options.watermarkPosition || DEFAULT_POSITION];
+
+  if (options.watermarkImage) {
+    const logoPath = join(workDir, 'watermark.png');
+    await (await renderWatermark(options, frameWidth, frameHeight)).png().toFile(logoPath);
+
+    // The overlay keeps showing the logo's only frame for the whole video
+    const x = `${margin}+(main_w-overlay_w-${2 * margin})*${alignX}`;
+    const y = `${margin}+(main_h-overlay_h-${2 * margin})*${alignY}`;
+    return `null[base];movie=${escapeFilterPath(logoPath)}[watermark];[base][watermark]overlay=x=${x}:y=${y}`;
+  }
+
+  const textPath = join(workDir, 'watermark.txt');
+  await writeFile(textPath, options.watermarkText || '');
+
+  const x = `${margin}+(w-text_w-${2 * margin})*${alignX}`;
+  const y = `${margin}+(h-text_h-${2 * margin})*${alignY}`;
+  return [
+    `drawtext=fontfile=${escapeFilterPath(WATERMARK_FONT_PATH)}`,
+    `textfile=${escapeFilterPath(textPath)}`,
+    'expansion=none',
+    `fontsize=${getFontSize(options, frameHeight)}`,
+    `fontcolor=${options.watermarkColor || DEFAULT_COLOR}@${options.watermarkOpacity ?? DEFAULT_OPACITY}`,
+    `x=${x}`,
+    `y=${y}`
+  ].join(':');
+}
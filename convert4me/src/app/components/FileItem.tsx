@@ -1,19 +1,25 @@
 import { useState } from 'react';
-import { UploadedFile, ConversionJob } from '../lib/api';
+import { UploadedFile, ConversionJob, FormatCapability } from '../lib/api';
 import ProgressBar from './ProgressBar';
 
 interface FileItemProps {
   file: UploadedFile;
+  capability?: FormatCapability;
   onConvert: (outputFormat: string) => void;
   conversionJob?: ConversionJob;
   onDownload?: () => void;
   onCancel?: () => void;
 }
 
-export default function FileItem({ file, onConvert, conversionJob, onDownload, onCancel }: FileItemProps) {
-  const [selectedFormat, setSelectedFormat] = useState<string>(
-    file.possibleOutputFormats.length > 0 ? file.possibleOutputFormats[0] : ''
-  );
+export default function FileItem({ file, capability, onConvert, conversionJob, onDownload, onCancel }: FileItemProps) {
+  // Output formats come from the backend capabilities, falling back to the upload response
+  const outputFormats = capability
+    ? capability.outputs.map((output) => output.format)
+    : file.possibleOutputFormats;
+  
+  const [selectedFormat, setSelectedFormat] = useState<string>('');
+  const currentFormat = selectedFormat || outputFormats[0] || '';
+  const selectedOutput = capability?.outputs.find((output) => output.format === currentFormat);
 
   // Helper function to truncate long filenames
   const truncateFilename = (filename: string, maxLength = 25) => {
@@ -34,12 +40,56 @@ export default function FileItem({ file, onConvert, conversionJob, onDownload, o
     else return (bytes / (1024 * 1024 * 1024)).toFixed(1) + ' GB';
   };
 
+  // Helper function to summarize encoder statistics, e.g. "2.5x · 60 fps · 3.1 MB · 0:42 left"
+  const formatProgressDetails = (job: ConversionJob): string => {
+    const details = job.progressDetails;
+    if (!details) return '';
+    
+    const parts: string[] = [];
+    if (details.speed) parts.push(`${details.speed.toFixed(1)}x`);
+    if (details.fps) parts.push(`${Math.round(details.fps)} fps`);
+    if (details.size) parts.push(formatFileSize(details.size));
+    if (details.eta !== undefined) {
+      parts.push(`${Math.floor(details.eta / 60)}:${(details.eta % 60).toString().padStart(2, '0')} left`);
+    }
+    return parts.join(' · ');
+  };
+
+  // Helper function to summarize what the file contains, e.g. "1920x1080 · 2:05 · h264 / aac"
+  const formatProbeSummary = (): string => {
+    const probe = file.probe;
+    if (!probe) return '';
+    
+    const parts: string[] = [];
+    if (probe.media) {
+      const video = probe.media.streams.find((stream) => stream.type === 'video');
+      if (video?.width && video.height) parts.push(`${video.width}x${video.height}`);
+      if (probe.media.duration) {
+        const seconds = Math.round(probe.media.duration);
+        parts.push(`${Math.floor(seconds / 60)}:${(seconds % 60).toString().padStart(2, '0')}`);
+      }
+      const codecs = probe.media.streams
+        .filter((stream) => stream.type === 'video' || stream.type === 'audio')
+        .map((stream) => stream.codec);
+      if (codecs.length > 0) parts.push(codecs.join(' / '));
+    }
+    if (probe.image) {
+      if (probe.image.width && probe.image.height) parts.push(`${probe.image.width}x${probe.image.height}`);
+      if (probe.image.colorSpace) parts.push(probe.image.colorSpace);
+      if (probe.image.pages && probe.image.pages > 1) parts.push(`${probe.image.pages} frames`);
+    }
+    if (probe.document?.pageCount) {
+      parts.push(`${probe.document.pageCount} page${probe.document.pageCount === 1 ? '' : 's'}`);
+    }
+    return parts.join(' · ');
+  };
+
   // Get file icon based on type
   const getFileIcon = () => {
-    const type = file.fileType.toLowerCase();
+    const category = capability?.category;
     
     // Document types
-    if (['pdf', 'doc', 'docx', 'txt'].includes(type)) {
+    if (category === 'document') {
       return (
         <svg className="w-6 h-6 text-blue-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 12h6m-6 4h6m2 5H7a2 2 0 01-2-2V5a2 2 0 012-2h5.586a1 1 0 01.707.293l5.414 5.414a1 1 0 01.293.707V19a2 2 0 01-2 2z" />
@@ -48,7 +98,7 @@ export default function FileItem({ file, onConvert, conversionJob, onDownload, o
     }
     
     // Image types
-    if (['jpg', 'jpeg', 'png', 'gif', 'webp', 'tiff'].includes(type)) {
+    if (category === 'image') {
       return (
         <svg className="w-6 h-6 text-blue-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z" />
@@ -57,7 +107,7 @@ export default function FileItem({ file, onConvert, conversionJob, onDownload, o
     }
     
     // Video types
-    if (['mp4', 'mov', 'avi', 'mkv', 'webm'].includes(type)) {
+    if (category === 'video') {
       return (
         <svg className="w-6 h-6 text-blue-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M15 10l4.553-2.276A1 1 0 0121 8.618v6.764a1 1 0 01-1.447.894L15 14M5 18h8a2 2 0 002-2V8a2 2 0 00-2-2H5a2 2 0 00-2 2v8a2 2 0 002 2z" />
@@ -66,7 +116,7 @@ export default function FileItem({ file, onConvert, conversionJob, onDownload, o
     }
     
     // Audio types
-    if (['mp3', 'wav', 'ogg', 'flac'].includes(type)) {
+    if (category === 'audio') {
       return (
         <svg className="w-6 h-6 text-blue-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
           <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3" />
@@ -74,6 +124,15 @@ export default function FileItem({ file, onConvert, conversionJob, onDownload, o
       );
     }
     
+    // Subtitle types
+    if (category === 'subtitle') {
+      return (
+        <svg className="w-6 h-6 text-blue-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z" />
+        </svg>
+      );
+    }
+    
     // Default file icon
     return (
       <svg className="w-6 h-6 text-blue-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -86,7 +145,7 @@ export default function FileItem({ file, onConvert, conversionJob, onDownload, o
   const canShowConversionOptions = !conversionJob;
 
   // Get target format (either selected or from conversion job)
-  const targetFormat = conversionJob?.outputFormat || selectedFormat;
+  const targetFormat = conversionJob?.outputFormat || currentFormat;
 
   return (
     <div className="bg-white dark:bg-gray-800 border border-gray-100 dark:border-gray-700 rounded-xl shadow-sm overflow-hidden transition-all duration-300 hover:shadow-md relative">
@@ -117,6 +176,18 @@ export default function FileItem({ file, onConvert, conversionJob, onDownload, o
             <p className="text-sm text-gray-500 dark:text-gray-400">
               {formatFileSize(file.size)}
             </p>
+            {formatProbeSummary() && (
+              <p className="text-xs text-gray-500 dark:text-gray-400 truncate" title={formatProbeSummary()}>
+                {formatProbeSummary()}
+              </p>
+            )}
+            {/* Content did not match the file extension */}
+            {file.formatMismatch && (
+              <p className="text-xs text-amber-600 dark:text-amber-400">
+                Detected as {file.fileType.toUpperCase()}
+                {file.declaredFormat ? ` (named .${file.declaredFormat})` : ''}
+              </p>
+            )}
           </div>
         </div>
 
@@ -131,7 +202,7 @@ export default function FileItem({ file, onConvert, conversionJob, onDownload, o
               </div>
               <select
                 className="block w-full rounded-lg py-2.5 pl-10 pr-10 border border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800 text-sm text-gray-900 dark:text-white shadow-sm focus:border-blue-500 focus:ring-1 focus:ring-blue-500 appearance-none transition-colors duration-200"
-                value={selectedFormat}
+                value={currentFormat}
                 onChange={(e) => setSelectedFormat(e.target.value)}
                 style={{ 
                   backgroundImage: `url("data:image/svg+xml,%3csvg xmlns='http://www.w3.org/2000/svg' fill='none' viewBox='0 0 20 20'%3e%3cpath stroke='%236b7280' stroke-linecap='round' stroke-linejoin='round' stroke-width='1.5' d='M6 8l4 4 4-4'/%3e%3c/svg%3e")`,
@@ -140,7 +211,7 @@ export default function FileItem({ file, onConvert, conversionJob, onDownload, o
                   backgroundSize: '1.5em 1.5em'
                 }}
               >
-                {file.possibleOutputFormats.map((format) => (
+                {outputFormats.map((format) => (
                   <option key={format} value={format}>
                     Convert to {format.toUpperCase()}
                   </option>
@@ -148,9 +219,17 @@ export default function FileItem({ file, onConvert, conversionJob, onDownload, o
               </select>
             </div>
             
+            {/* Explain multi-step conversions before they start */}
+            {selectedOutput && selectedOutput.route.length > 2 && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                Converted via {selectedOutput.route.slice(1, -1).map((format) => format.toUpperCase()).join(', ')}
+              </p>
+            )}
+            
             <button
               className="w-full inline-flex justify-center items-center px-4 py-2.5 border border-transparent text-sm font-medium rounded-lg text-white bg-blue-500 hover:bg-blue-600 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 shadow-sm transition-all duration-200 ease-in-out"
-              onClick={() => onConvert(selectedFormat)}
+              onClick={() => onConvert(currentFormat)}
+              disabled={!currentFormat}
             >
               <svg className="w-4 h-4 mr-2" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 4v5h.582m15.356 2A8.001 8.001 0 004.582 9m0 0H9m11 11v-5h-.581m0 0a8.003 8.003 0 01-15.357-2m15.357 2H15" />
@@ -168,6 +247,13 @@ export default function FileItem({ file, onConvert, conversionJob, onDownload, o
               status={conversionJob.status}
             />
             
+            {/* Encoder statistics while converting */}
+            {conversionJob.status === 'processing' && formatProgressDetails(conversionJob) && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {formatProgressDetails(conversionJob)}
+              </p>
+            )}
+            
             <div className="flex flex-col mt-2 space-y-3">
               {/* Output format badge */}
               {(conversionJob.status === 'processing' || conversionJob.status === 'completed') && (
@@ -176,6 +262,22 @@ export default function FileItem({ file, onConvert, conversionJob, onDownload, o
                 </div>
               )}
               
+              {/* Container changes that copied the streams instead of re-encoding */}
+              {conversionJob.method === 'remux' && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Streams copied without re-encoding
+                </p>
+              )}
+              
+              {/* Intermediate formats for multi-step conversions */}
+              {conversionJob.route && conversionJob.route.length > 2 && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Via {conversionJob.route.map(format => format.toUpperCase()).join(' → ')}
+                  {conversionJob.status === 'processing' && conversionJob.currentStep !== undefined &&
+                    ` (step ${conversionJob.currentStep + 1} of ${conversionJob.route.length - 1})`}
+                </p>
+              )}
+              
               {/* Cancel button for in-progress conversions */}
               {conversionJob.status === 'processing' && onCancel && (
                 <button
@@ -199,6 +301,7 @@ export default function FileItem({ file, onConvert, conversionJob, onDownload, o
                     <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-4l-4 4m0 0l-4-4m4 4V4" />
                   </svg>
                   Download {conversionJob.outputFormat.toUpperCase()}
+                  {conversionJob.outputSize !== undefined && ` (${formatFileSize(conversionJob.outputSize)})`}
                 </button>
               )}
               
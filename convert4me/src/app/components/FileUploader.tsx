@@ -1,18 +1,21 @@
 import { useState, useRef, useCallback } from 'react';
-import apiClient, { UploadedFile } from '../lib/api';
+import apiClient, { UploadedFile, FormatCapability } from '../lib/api';
 
 interface FileUploaderProps {
   onFileUpload: (file: UploadedFile) => void;
-  acceptedFileTypes?: string[];
+  formats?: FormatCapability[];
 }
 
-export default function FileUploader({ onFileUpload, acceptedFileTypes }: FileUploaderProps) {
+export default function FileUploader({ onFileUpload, formats }: FileUploaderProps) {
   const [isDragging, setIsDragging] = useState(false);
   const [isUploading, setIsUploading] = useState(false);
   const [uploadError, setUploadError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const acceptValue = acceptedFileTypes ? acceptedFileTypes.map(type => `.${type}`).join(',') : undefined;
+  // Accept both the extensions and MIME types the backend can read
+  const acceptValue = formats && formats.length > 0
+    ? Array.from(new Set(formats.flatMap(format => [`.${format.format}`, format.mimeType]))).join(',')
+    : undefined;
 
   const handleDragOver = useCallback((e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
@@ -118,9 +121,9 @@ export default function FileUploader({ onFileUpload, acceptedFileTypes }: FileUp
               Browse files
             </button>
           </p>
-          {acceptedFileTypes && (
+          {formats && formats.length > 0 && (
             <p className="text-sm text-gray-500 dark:text-gray-500 mt-4">
-              Supported formats: <span className="font-medium">{acceptedFileTypes.join(', ')}</span>
+              Supported formats: <span className="font-medium">{formats.map(format => format.format).join(', ')}</span>
             </p>
           )}
         </div>
@@ -7,23 +7,127 @@ export interface UploadedFile {
   size: number;
   mimetype: string;
   fileType: string;
+  declaredFormat?: string; // Format suggested by the file extension
+  detectedFormat?: string | null; // Format detected from the file content
+  formatMismatch?: boolean;
   possibleOutputFormats: string[];
+  probe?: FileProbe; // What the file contains, when it could be read
   uploadTimestamp?: number; // Optional to maintain backward compatibility
 }
 
+export interface ProgressDetails {
+  fps?: number; // Frames encoded per second
+  speed?: number; // Encoding speed relative to playback
+  size?: number; // Bytes written so far
+  eta?: number; // Estimated seconds remaining in the current step
+}
+
 export interface ConversionJob {
   jobId: string;
   status: 'pending' | 'processing' | 'completed' | 'failed' | 'cancelled';
   progress: number;
+  progressDetails?: ProgressDetails;
   originalFilename: string;
   inputFormat: string;
   outputFormat: string;
+  outputSize?: number; // Size of the finished output in bytes
+  options?: Record<string, unknown>; // Validated options with defaults applied
+  route?: string[]; // Formats the conversion passes through, from input to output
+  currentStep?: number;
+  method?: 'remux' | 'encode'; // Whether the streams were copied into the new container or re-encoded
   error?: string;
   createdAt: Date;
   completedAt?: Date;
 }
 
-type ProgressCallback = (data: { jobId: string; progress: number }) => void;
+export interface StreamDetails {
+  index: number; // Position among all of the file's streams
+  type: string; // video, audio, subtitle, ...
+  codec: string;
+  codecLongName?: string;
+  profile?: string;
+  bitrate?: number; // Bits per second
+  duration?: number;
+  language?: string;
+  title?: string;
+  width?: number;
+  height?: number;
+  frameRate?: number;
+  pixelFormat?: string;
+  colorSpace?: string;
+  colorPrimaries?: string;
+  colorTransfer?: string;
+  sampleRate?: number;
+  channels?: number;
+  channelLayout?: string;
+}
+
+export interface FileProbe {
+  format: string;
+  category: FormatCategory;
+  media?: {
+    container: string;
+    containerLongName?: string;
+    duration: number; // Seconds, 0 when unknown
+    bitrate?: number;
+    streams: StreamDetails[];
+    tags: Record<string, string>;
+  };
+  image?: {
+    format?: string;
+    width?: number;
+    height?: number;
+    colorSpace?: string;
+    channels?: number;
+    bitDepth?: string;
+    density?: number;
+    hasAlpha?: boolean;
+    isProgressive?: boolean;
+    orientation?: number;
+    pages?: number; // Frames of an animated image
+    hasIccProfile: boolean;
+    hasExif: boolean;
+    hasXmp: boolean;
+    hasIptc: boolean;
+  };
+  document?: {
+    pageCount?: number;
+    version?: string;
+    pageSize?: string;
+    encrypted?: boolean;
+    metadata: Record<string, string>; // Title, Author, Producer, ...
+  };
+}
+
+export interface OptionDefinition {
+  type: 'number' | 'integer' | 'string' | 'boolean' | 'enum';
+  description?: string;
+  min?: number;
+  max?: number;
+  values?: string[];
+  pattern?: string;
+  patternDescription?: string;
+  default?: unknown;
+}
+
+export type FormatCategory = 'video' | 'image' | 'document' | 'audio' | 'subtitle' | 'archive';
+
+export interface OutputCapability {
+  format: string;
+  mimeType: string;
+  category: FormatCategory;
+  route: string[]; // Formats the conversion passes through, from input to output
+  options: Record<string, OptionDefinition>[]; // Options of each step of the route
+}
+
+export interface FormatCapability {
+  format: string;
+  mimeType: string;
+  category: FormatCategory;
+  outputs: OutputCapability[];
+}
+
+type ProgressCallback = (data: { jobId: string; progress: number; details?: ProgressDetails }) => void;
 
 class ApiClient {
   private eventSource: EventSource | null = null;
@@ -50,7 +154,7 @@ class ApiClient {
         if (data.event === 'progress' && data.jobId && data.progress !== undefined) {
           // Call all registered callbacks
           this.progressCallbacks.forEach(callback => {
-            callback({ jobId: data.jobId, progress: data.progress });
+            callback({ jobId: data.jobId, progress: data.progress, details: data.details });
           });
         }
       } catch (error) {
@@ -76,6 +180,19 @@ class ApiClient {
     };
   }
   
+  // Get the supported input formats and what they can be converted to
+  async getFormats(): Promise<FormatCapability[]> {
+    const response = await fetch('/api/formats');
+    
+    if (!response.ok) {
+      const error = await response.json();
+      throw new Error(error.message || 'Error loading supported formats');
+    }
+    
+    const data = await response.json();
+    return data.formats;
+  }
+  
   // Upload a file
   async uploadFile(file: File): Promise<UploadedFile> {
     const formData = new FormData();
@@ -100,7 +217,7 @@ class ApiClient {
     filePath: string,
     outputFormat: string,
     options: Record<string, unknown> = {}
-  ): Promise<{ jobId: string }> {
+  ): Promise<{ jobId: string; route: string[] }> {
     const response = await fetch('/api/convert', {
       method: 'POST',
       headers: {
@@ -115,11 +232,15 @@ class ApiClient {
     
     if (!response.ok) {
       const error = await response.json();
-      throw new Error(error.message || 'Error starting conversion');
+      // Include field-level validation errors in the message
+      const details = error.errors
+        ? Object.entries(error.errors).map(([field, message]) => `${field}: ${message}`).join('; ')
+        : '';
+      throw new Error([error.message || 'Error starting conversion', details].filter(Boolean).join(' - '));
     }
     
     const data = await response.json();
-    return { jobId: data.jobId };
+    return { jobId: data.jobId, route: data.route };
   }
   
   // Get job status
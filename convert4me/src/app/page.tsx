@@ -3,7 +3,7 @@
 import { useState, useEffect, useCallback } from 'react';
 import FileUploader from './components/FileUploader';
 import FileItem from './components/FileItem';
-import apiClient, { UploadedFile, ConversionJob } from './lib/api';
+import apiClient, { UploadedFile, ConversionJob, FormatCapability } from './lib/api';
 
 interface FileState {
   id: string;
@@ -13,24 +13,19 @@ interface FileState {
 
 export default function Home() {
   const [files, setFiles] = useState<FileState[]>([]);
-  const [supportedFormats, setSupportedFormats] = useState<string[]>([]);
+  const [formats, setFormats] = useState<FormatCapability[]>([]);
 
-  // Load supported formats
+  // Load supported formats from the backend
   useEffect(() => {
-    // In a real app, we would fetch this from the backend
-    // For now, let's hardcode some common formats
-    setSupportedFormats([
-      'mp4', 'mov', 'avi', 'mkv', 'webm',
-      'jpg', 'jpeg', 'png', 'gif', 'webp', 'tiff',
-      'pdf', 'docx',
-      'mp3', 'wav'
-    ]);
+    apiClient.getFormats()
+      .then(setFormats)
+      .catch((error) => console.error('Error loading supported formats:', error));
   }, []);
 
   // Subscribe to progress updates
   useEffect(() => {
     const unsubscribe = apiClient.subscribeToProgress((data) => {
-      const { jobId, progress } = data;
+      const { jobId, progress, details } = data;
       
       setFiles((prevFiles) => {
         return prevFiles.map((fileState) => {
@@ -40,6 +35,7 @@ export default function Home() {
               conversionJob: {
                 ...fileState.conversionJob,
                 progress,
+                progressDetails: details,
               },
             };
           }
@@ -69,7 +65,7 @@ export default function Home() {
   // Handle file conversion
   const handleConvert = useCallback(async (fileState: FileState, outputFormat: string) => {
     try {
-      const { jobId } = await apiClient.convertFile(
+      const { jobId, route } = await apiClient.convertFile(
         fileState.file.path,
         outputFormat
       );
@@ -87,6 +83,8 @@ export default function Home() {
                   originalFilename: fileState.file.originalName,
                   inputFormat: fileState.file.fileType,
                   outputFormat,
+                  route,
+                  currentStep: 0,
                   createdAt: new Date(),
                 },
               }
@@ -174,7 +172,7 @@ export default function Home() {
               <h2 className="text-2xl font-semibold text-gray-900 dark:text-white mb-6">Upload Files</h2>
               <FileUploader 
                 onFileUpload={handleFileUpload} 
-                acceptedFileTypes={supportedFormats}
+                formats={formats}
               />
             </div>
           </div>
@@ -191,6 +189,7 @@ export default function Home() {
                     <FileItem
                       key={fileState.id}
                       file={fileState.file}
+                      capability={formats.find((format) => format.format === fileState.file.fileType)}
                       conversionJob={fileState.conversionJob}
                       onConvert={(outputFormat) => handleConvert(fileState, outputFormat)}
                       onDownload={
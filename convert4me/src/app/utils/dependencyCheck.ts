@@ -2,10 +2,11 @@ import { execSync } from 'child_process';
 
 // List of required dependencies for optimal functionality
 export const requiredDependencies = {
-  'poppler-utils': ['pdftoppm', 'pdfimages'],
+  'poppler-utils': ['pdftoppm', 'pdfimages', 'pdfinfo'],
   'imagemagick': ['convert'],
   'ghostscript': ['gs'],
   'wkhtmltopdf': ['wkhtmltoimage'],
+  'libreoffice': ['soffice'],
   'zip': ['zip'],
   'tar': ['tar'],
   'gzip': ['gzip']